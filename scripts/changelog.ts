@@ -0,0 +1,81 @@
+/**
+ * Refreshes the release notes shown on the changelog page.
+ *
+ * Fetches the GitHub releases of the core and dashboard repositories and
+ * writes them, split into typed changes, to
+ * `src/features/changelog/data/releases.json`. The site build reads only the
+ * committed snapshot, so run this after publishing a release and commit the
+ * result. Set `GITHUB_TOKEN` to avoid the anonymous rate limit.
+ *
+ * Usage: npm run changelog:releases
+ */
+import fs from "node:fs";
+import path from "node:path";
+import type { ChangelogSnapshot, ReleaseNote } from "../src/types/changelog";
+import { parseReleaseBody } from "./lib/changelog";
+import { ROOT_DIR } from "./lib/docs";
+
+// Mirrors DOWNLOAD_PRODUCTS in src/constants/download.ts.
+const PRODUCTS = [
+  { id: "core", repo: "rustcost/rustcost-core" },
+  { id: "dashboard", repo: "rustcost/rustcost-dashboard" },
+];
+const OUTPUT_FILE = path.join(
+  ROOT_DIR,
+  "src/features/changelog/data/releases.json"
+);
+
+type GitHubRelease = {
+  tag_name: string;
+  html_url: string;
+  body: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
+};
+
+async function fetchReleases(repo: string): Promise<GitHubRelease[]> {
+  const releases: GitHubRelease[] = [];
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github+json",
+  };
+  if (process.env.GITHUB_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+  }
+  for (let page = 1; ; page++) {
+    const url = `https://api.github.com/repos/${repo}/releases?per_page=100&page=${page}`;
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`[changelog] ${response.status} fetching ${url}`);
+    }
+    const batch = (await response.json()) as GitHubRelease[];
+    releases.push(...batch);
+    if (batch.length < 100) return releases;
+  }
+}
+
+const releases: ReleaseNote[] = [];
+for (const product of PRODUCTS) {
+  const published = (await fetchReleases(product.repo))
+    .filter((release) => !release.draft && release.published_at)
+    .sort((a, b) => b.published_at!.localeCompare(a.published_at!));
+  for (const release of published) {
+    releases.push({
+      product: product.id,
+      version: release.tag_name.replace(/^v/, ""),
+      date: release.published_at!.slice(0, 10),
+      url: release.html_url,
+      prerelease: release.prerelease,
+      changes: parseReleaseBody(release.body ?? ""),
+    });
+  }
+}
+
+const snapshot: ChangelogSnapshot = {
+  generatedAt: new Date().toISOString(),
+  releases,
+};
+fs.writeFileSync(OUTPUT_FILE, `${JSON.stringify(snapshot, null, 2)}\n`);
+console.log(
+  `[changelog] wrote ${releases.length} releases to ${path.relative(ROOT_DIR, OUTPUT_FILE)}`
+);
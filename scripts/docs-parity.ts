@@ -0,0 +1,130 @@
+/**
+ * Reports translation parity of the latest docs content.
+ *
+ * For every topic it lists, per site language, whether the page is missing,
+ * only a stub ("TODO", "준비 중입니다."), or stale, i.e. last changed before
+ * another language's version of the same topic.
+ *
+ * Usage: npm run docs:parity [-- --json] [-- --strict]
+ *   --json    print the report as JSON
+ *   --strict  exit with code 1 when any topic is not up to date
+ */
+import { listDocLanguages, loadDocEntries, type DocEntry } from "./lib/docs";
+import { getLastModified } from "./lib/git";
+import { listLocales } from "./lib/locales";
+
+type TopicStatus = "ok" | "missing" | "stub" | "stale";
+
+type TopicReport = {
+  topic: string;
+  languages: Record<string, { status: TopicStatus; lastModified?: string }>;
+};
+
+const STUB_PATTERNS = [
+  /^todo\.?$/i,
+  /^tbd\.?$/i,
+  /^coming soon\.?$/i,
+  /^준비 중입니다\.?$/,
+  /^準備中です。?$/,
+  /^敬请期待。?$/,
+];
+
+function isStubBody(body: string) {
+  const text = body
+    .split("\n")
+    .filter((line) => !/^\s*#{1,6}\s/.test(line))
+    .join(" ")
+    .trim();
+  return text === "" || STUB_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/** Site languages and docs folders; a language without docs misses them all. */
+const listLanguages = () =>
+  [...new Set([...listLocales(), ...listDocLanguages()])].sort();
+
+function buildReport(): TopicReport[] {
+  const languages = listLanguages();
+  const byTopic = new Map<string, Map<string, DocEntry>>();
+
+  for (const language of languages) {
+    for (const entry of loadDocEntries(language, { includeDrafts: true })) {
+      if (!byTopic.has(entry.meta.slug)) {
+        byTopic.set(entry.meta.slug, new Map());
+      }
+      byTopic.get(entry.meta.slug)!.set(language, entry);
+    }
+  }
+
+  return [...byTopic.entries()].map(([topic, entries]) => {
+    const modified = new Map(
+      [...entries].map(([language, entry]) => [
+        language,
+        getLastModified(entry.filePath),
+      ])
+    );
+    const newest = Math.max(...[...modified.values()].map((d) => d.getTime()));
+
+    const report: TopicReport = { topic, languages: {} };
+    for (const language of languages) {
+      const entry = entries.get(language);
+      const lastModified = modified.get(language);
+      let status: TopicStatus = "ok";
+      if (!entry || !lastModified) {
+        status = "missing";
+      } else if (isStubBody(entry.body)) {
+        status = "stub";
+      } else if (lastModified.getTime() < newest) {
+        status = "stale";
+      }
+      report.languages[language] = {
+        status,
+        lastModified: lastModified?.toISOString().slice(0, 10),
+      };
+    }
+    return report;
+  });
+}
+
+function printTable(report: TopicReport[]) {
+  const languages = listLanguages();
+  const width = Math.max(5, ...report.map((r) => r.topic.length));
+  const cell = (value: string) => value.padEnd(24);
+
+  console.log(`${"topic".padEnd(width)}  ${languages.map(cell).join("")}`);
+  for (const { topic, languages: statuses } of report) {
+    const cells = languages.map((language) => {
+      const { status, lastModified } = statuses[language];
+      return cell(lastModified ? `${status} (${lastModified})` : status);
+    });
+    console.log(`${topic.padEnd(width)}  ${cells.join("")}`);
+  }
+
+  const counts = new Map<TopicStatus, number>();
+  for (const { languages: statuses } of report) {
+    for (const { status } of Object.values(statuses)) {
+      counts.set(status, (counts.get(status) ?? 0) + 1);
+    }
+  }
+  console.log(
+    `\n${report.length} topics: ` +
+      (["ok", "missing", "stub", "stale"] as const)
+        .map((status) => `${counts.get(status) ?? 0} ${status}`)
+        .join(", ")
+  );
+}
+
+const args = new Set(process.argv.slice(2));
+const report = buildReport();
+
+if (args.has("--json")) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  printTable(report);
+}
+
+if (
+  args.has("--strict") &&
+  report.some((r) => Object.values(r.languages).some((l) => l.status !== "ok"))
+) {
+  process.exitCode = 1;
+}
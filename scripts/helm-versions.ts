@@ -0,0 +1,47 @@
+/**
+ * Refreshes the committed list of RustCost Helm chart versions offered by
+ * the install builder on the Download page.
+ *
+ * Reads the chart repository's `index.yaml` and writes the versions, newest
+ * first, to `src/constants/helmChartVersions.json`. The site build never
+ * fetches the index itself, so run this after publishing a chart and commit
+ * the result.
+ *
+ * Usage: npm run helm:versions
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { ROOT_DIR } from "./lib/docs";
+
+const CHART_REPOSITORY_URL = "https://rustcost.github.io/rustcost-helmchart/";
+const CHART_NAME = "rustcost";
+const OUTPUT_FILE = path.join(ROOT_DIR, "src/constants/helmChartVersions.json");
+
+type ChartIndex = {
+  entries?: Record<string, Array<{ version?: unknown; created?: unknown }>>;
+};
+
+const response = await fetch(new URL("index.yaml", CHART_REPOSITORY_URL));
+if (!response.ok) {
+  throw new Error(
+    `[helm-versions] ${response.status} fetching ${response.url}`
+  );
+}
+const index = parseYaml(await response.text()) as ChartIndex;
+const versions = (index.entries?.[CHART_NAME] ?? [])
+  .filter(
+    (entry): entry is { version: string; created: string } =>
+      typeof entry.version === "string" && typeof entry.created === "string"
+  )
+  .sort((a, b) => Date.parse(b.created) - Date.parse(a.created))
+  .map((entry) => entry.version);
+
+if (versions.length === 0) {
+  throw new Error(`[helm-versions] no "${CHART_NAME}" chart in the index`);
+}
+
+fs.writeFileSync(OUTPUT_FILE, `${JSON.stringify({ versions }, null, 2)}\n`);
+console.log(
+  `[helm-versions] wrote ${versions.length} versions to ${path.relative(ROOT_DIR, OUTPUT_FILE)}`
+);
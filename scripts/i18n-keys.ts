@@ -0,0 +1,210 @@
+/**
+ * Checks the translation bundles against the keys the source uses.
+ *
+ * Every `t()` call and key prop (`titleKey`, `i18nKey`, ...) under `src/` is
+ * extracted, then per language it lists keys that are missing, keys nothing
+ * uses, and keys whose `{{placeholders}}` differ from the English bundle, the
+ * inline `defaultValue` or the values passed to `t()`.
+ *
+ * It also keeps `src/types/i18next.d.ts` in sync with the English bundle, so
+ * `t()` with an unknown key fails type checking.
+ *
+ * Usage: npm run i18n:keys [-- --json] [-- --strict] [-- --write]
+ *   --json    print the report as JSON
+ *   --strict  exit with code 1 on any issue or when the types are stale
+ *   --write   regenerate src/types/i18next.d.ts
+ */
+import fs from "node:fs";
+import path from "node:path";
+import {
+  buildResourcesModule,
+  extractKeys,
+  flattenResources,
+  listSourceFiles,
+  readPlaceholders,
+  readResources,
+  SOURCE_DIR,
+  stripPluralSuffix,
+  type FlatResources,
+  type KeyUsage,
+} from "./lib/i18nKeys";
+import { listLocales } from "./lib/locales";
+
+/** The bundle the others are compared with and the types come from. */
+const DEFAULT_LANGUAGE = "en";
+const TYPES_FILE = path.join(SOURCE_DIR, "types/i18next.d.ts");
+
+type InterpolationIssue = {
+  key: string;
+  /** What the placeholders were compared with: a language or `file:line`. */
+  source: string;
+  expected: string[];
+  found: string[];
+};
+
+type LocaleReport = {
+  language: string;
+  missing: string[];
+  unused: string[];
+  interpolation: InterpolationIssue[];
+};
+
+/** Placeholders of a key across its plural forms. */
+function placeholdersByKey(resources: FlatResources) {
+  const byKey = new Map<string, Set<string>>();
+  for (const [key, value] of resources) {
+    const base = stripPluralSuffix(key);
+    const names = byKey.get(base) ?? new Set<string>();
+    readPlaceholders(value).forEach((name) => names.add(name));
+    byKey.set(base, names);
+  }
+  return byKey;
+}
+
+const sameNames = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((name, index) => name === b[index]);
+
+function checkUsages(
+  key: string,
+  found: string[],
+  usages: KeyUsage[]
+): InterpolationIssue[] {
+  const issues: InterpolationIssue[] = [];
+  for (const usage of usages) {
+    const source = `${usage.file}:${usage.line}`;
+    if (usage.defaultValue !== undefined) {
+      const expected = readPlaceholders(usage.defaultValue);
+      if (!sameNames(expected, found)) {
+        issues.push({ key, source, expected, found });
+      }
+    }
+    if (usage.params && found.some((name) => !usage.params!.includes(name))) {
+      issues.push({ key, source, expected: [...usage.params].sort(), found });
+    }
+  }
+  return issues;
+}
+
+function buildReport(usages: KeyUsage[]): LocaleReport[] {
+  const bundles = new Map(
+    listLocales().map((language) => [
+      language,
+      flattenResources(readResources(language)),
+    ])
+  );
+  const reference = bundles.get(DEFAULT_LANGUAGE);
+  if (!reference) {
+    throw new Error(`No ${DEFAULT_LANGUAGE} translation bundle`);
+  }
+  const referencePlaceholders = placeholdersByKey(reference);
+
+  const usedKeys = new Set(
+    usages.filter((usage) => !usage.pattern).map((usage) => usage.key)
+  );
+  const patterns = usages.flatMap((usage) =>
+    usage.pattern ? [usage.pattern] : []
+  );
+  const isUsed = (key: string) =>
+    usedKeys.has(key) || patterns.some((pattern) => pattern.test(key));
+  const expectedKeys = new Set([
+    ...usedKeys,
+    ...[...reference.keys()].map(stripPluralSuffix),
+  ]);
+
+  return [...bundles].map(([language, resources]) => {
+    const placeholders = placeholdersByKey(resources);
+    const keys = [...placeholders.keys()];
+
+    const interpolation = keys.flatMap((key) => {
+      const found = [...placeholders.get(key)!].sort();
+      if (language === DEFAULT_LANGUAGE) {
+        return checkUsages(
+          key,
+          found,
+          usages.filter((usage) => usage.key === key)
+        );
+      }
+      const expected = referencePlaceholders.get(key);
+      return expected && !sameNames([...expected].sort(), found)
+        ? [
+            {
+              key,
+              source: DEFAULT_LANGUAGE,
+              expected: [...expected].sort(),
+              found,
+            },
+          ]
+        : [];
+    });
+
+    return {
+      language,
+      missing: [...expectedKeys].filter((key) => !placeholders.has(key)).sort(),
+      unused: keys.filter((key) => !isUsed(key)).sort(),
+      interpolation,
+    };
+  });
+}
+
+function printReport(report: LocaleReport[]) {
+  for (const { language, missing, unused, interpolation } of report) {
+    console.log(
+      `${language}: ${missing.length} missing, ${unused.length} unused, ` +
+        `${interpolation.length} interpolation mismatches`
+    );
+    missing.forEach((key) => console.log(`  missing  ${key}`));
+    unused.forEach((key) => console.log(`  unused   ${key}`));
+    interpolation.forEach(({ key, source, expected, found }) =>
+      console.log(
+        `  interpolation  ${key}: {${found.join(", ")}}, ` +
+          `expected {${expected.join(", ")}} (${source})`
+      )
+    );
+  }
+}
+
+const args = new Set(process.argv.slice(2));
+const { usages, dynamic } = extractKeys(listSourceFiles());
+const report = buildReport(usages);
+
+const types = buildResourcesModule(
+  DEFAULT_LANGUAGE,
+  readResources(DEFAULT_LANGUAGE)
+);
+const typesStale =
+  !fs.existsSync(TYPES_FILE) || fs.readFileSync(TYPES_FILE, "utf8") !== types;
+if (args.has("--write") && typesStale) {
+  fs.writeFileSync(TYPES_FILE, types);
+}
+
+if (args.has("--json")) {
+  console.log(JSON.stringify({ report, dynamic }, null, 2));
+} else {
+  printReport(report);
+  if (dynamic.length > 0) {
+    console.log(`\n${dynamic.length} keys computed at runtime, not checked:`);
+    dynamic.forEach(({ expression, file, line }) =>
+      console.log(`  ${file}:${line}  ${expression}`)
+    );
+  }
+  if (typesStale) {
+    console.log(
+      args.has("--write")
+        ? `\nwrote ${path.relative(process.cwd(), TYPES_FILE)}`
+        : `\n${path.relative(process.cwd(), TYPES_FILE)} is out of date, run with --write`
+    );
+  }
+}
+
+if (
+  args.has("--strict") &&
+  ((typesStale && !args.has("--write")) ||
+    report.some(
+      (r) =>
+        r.missing.length > 0 ||
+        r.unused.length > 0 ||
+        r.interpolation.length > 0
+    ))
+) {
+  process.exitCode = 1;
+}
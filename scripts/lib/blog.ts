@@ -0,0 +1,154 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import {
+  splitFrontmatter,
+  titleFromSlug,
+} from "../../src/features/docs/lib/content";
+import { estimateReadingMinutes } from "../../src/features/blog/lib/readingTime";
+import type { BlogFrontmatter, BlogPostMeta } from "../../src/types/blog";
+import { isStringArray, listSubdirectories, ROOT_DIR } from "./docs";
+import { getLastModified } from "./git";
+
+export const BLOG_CONTENT_DIR = path.join(
+  ROOT_DIR,
+  "src/features/blog/content"
+);
+
+export type BlogEntry = {
+  language: string;
+  filePath: string;
+  meta: BlogPostMeta;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// YAML turns an unquoted date into a Date.
+const toIsoDate = (value: unknown) =>
+  value instanceof Date ? value.toISOString().slice(0, 10) : value;
+
+/**
+ * Lists the language folders of the blog.
+ */
+export function listBlogLanguages() {
+  return listSubdirectories(BLOG_CONTENT_DIR).sort();
+}
+
+/**
+ * Parses and validates the frontmatter block of a blog post.
+ * Like docs frontmatter, fields with the wrong type are dropped with a
+ * warning instead of failing the build.
+ */
+export function parseBlogFrontmatter(
+  source: string,
+  filePath: string
+): BlogFrontmatter {
+  const { frontmatter: raw } = splitFrontmatter(source);
+  if (raw === null) {
+    console.warn(`[blog] ${filePath} has no frontmatter`);
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(raw) ?? {};
+  } catch (error) {
+    console.warn(`[blog] Invalid frontmatter in ${filePath}: ${error}`);
+    return {};
+  }
+  if (typeof data !== "object" || Array.isArray(data)) {
+    console.warn(`[blog] Frontmatter in ${filePath} must be a mapping`);
+    return {};
+  }
+
+  const fields = data as Record<string, unknown>;
+  const frontmatter: BlogFrontmatter = {};
+  const warn = (key: string, expected: string) =>
+    console.warn(`[blog] ${filePath}: "${key}" must be ${expected}`);
+
+  const stringKeys = ["title", "author", "summary", "cover", "series"] as const;
+  for (const key of stringKeys) {
+    const value = fields[key];
+    if (value === undefined) continue;
+    if (typeof value === "string") frontmatter[key] = value;
+    else warn(key, "a string");
+  }
+  if (fields.date !== undefined) {
+    const value = toIsoDate(fields.date);
+    if (typeof value === "string" && ISO_DATE.test(value)) {
+      frontmatter.date = value;
+    } else {
+      warn("date", "a YYYY-MM-DD date");
+    }
+  }
+  if (fields.tags !== undefined) {
+    if (isStringArray(fields.tags)) frontmatter.tags = fields.tags;
+    else warn("tags", "a list of strings");
+  }
+  if (fields.draft !== undefined) {
+    if (typeof fields.draft === "boolean") frontmatter.draft = fields.draft;
+    else warn("draft", "true or false");
+  }
+  if (fields.seriesPart !== undefined) {
+    const part = fields.seriesPart;
+    if (typeof part === "number" && Number.isInteger(part) && part > 0) {
+      frontmatter.seriesPart = part;
+    } else {
+      warn("seriesPart", "a positive whole number");
+    }
+  }
+  const hasSeries = frontmatter.series !== undefined;
+  if (hasSeries !== (frontmatter.seriesPart !== undefined)) {
+    warn("series", "set together with seriesPart");
+    delete frontmatter.series;
+    delete frontmatter.seriesPart;
+  }
+
+  return frontmatter;
+}
+
+/**
+ * Loads every post of a language with its parsed frontmatter, newest first.
+ * Posts without a valid `date` fall back to their last commit date.
+ */
+export function loadBlogEntries(
+  language: string,
+  { includeDrafts }: { includeDrafts: boolean }
+): BlogEntry[] {
+  const dir = path.join(BLOG_CONTENT_DIR, language);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".md"))
+    .map((name) => {
+      const filePath = path.join(dir, name);
+      const slug = name.replace(/\.md$/, "");
+      const source = fs.readFileSync(filePath, "utf8");
+      const frontmatter = parseBlogFrontmatter(source, filePath);
+      const meta: BlogPostMeta = {
+        slug,
+        title: frontmatter.title ?? titleFromSlug(slug),
+        date:
+          frontmatter.date ??
+          getLastModified(filePath).toISOString().slice(0, 10),
+        author: frontmatter.author,
+        tags: frontmatter.tags ?? [],
+        summary: frontmatter.summary,
+        cover: frontmatter.cover,
+        draft: frontmatter.draft ?? false,
+        readingMinutes: estimateReadingMinutes(splitFrontmatter(source).body),
+        series:
+          frontmatter.series && frontmatter.seriesPart
+            ? { id: frontmatter.series, part: frontmatter.seriesPart }
+            : undefined,
+      };
+      return { language, filePath, meta };
+    })
+    .filter((entry) => includeDrafts || !entry.meta.draft)
+    .sort(
+      (a, b) =>
+        b.meta.date.localeCompare(a.meta.date) ||
+        a.meta.slug.localeCompare(b.meta.slug)
+    );
+}
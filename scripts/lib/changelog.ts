@@ -0,0 +1,64 @@
+import type { ChangeType, ReleaseChange } from "../../src/types/changelog";
+
+const BREAKING_MARKER = /^\**BREAKING(?: CHANGES?)?\**:?\**\s+/i;
+const CONVENTIONAL_PREFIX = /^(\w+)(?:\([^)]*\))?(!)?:\s+/;
+// GitHub's generated notes end each entry with "by @user in <PR URL>".
+const GENERATED_SUFFIX = /\s+by @[\w-]+(?:\[bot\])? in (https:\/\/\S+)$/;
+
+const sectionType = (heading: string): ChangeType => {
+  if (/break/i.test(heading)) return "breaking";
+  if (/feat|new|add|enhance/i.test(heading)) return "feature";
+  if (/fix|bug/i.test(heading)) return "fix";
+  return "other";
+};
+
+const prefixType = (prefix: string): ChangeType | undefined => {
+  if (prefix === "feat") return "feature";
+  if (prefix === "fix") return "fix";
+  return undefined;
+};
+
+/**
+ * Splits a GitHub release body into typed changes. Each bullet is one
+ * change; its type comes from a Conventional Commits prefix (`feat:`,
+ * `fix!:`) or a `BREAKING` marker, and otherwise from the heading it is
+ * listed under ("Features", "Bug Fixes", "Breaking Changes").
+ *
+ * @param body - The release body markdown.
+ * @returns The changes in their original order.
+ */
+export function parseReleaseBody(body: string): ReleaseChange[] {
+  const changes: ReleaseChange[] = [];
+  let section: ChangeType = "other";
+
+  for (const line of body.replace(/\r\n?/g, "\n").split("\n")) {
+    const heading = /^#{1,6}\s+(.*)$/.exec(line);
+    if (heading) {
+      section = sectionType(heading[1]);
+      continue;
+    }
+    const bullet = /^[-*]\s+(.+)$/.exec(line);
+    if (!bullet) continue;
+
+    let text = bullet[1].trim();
+    let type = section;
+    const marker = BREAKING_MARKER.exec(text);
+    const prefix = CONVENTIONAL_PREFIX.exec(text);
+    if (marker) {
+      type = "breaking";
+      text = text.slice(marker[0].length);
+    } else if (prefix) {
+      type = prefix[2] ? "breaking" : (prefixType(prefix[1]) ?? section);
+      text = text.slice(prefix[0].length);
+    }
+
+    const suffix = GENERATED_SUFFIX.exec(text);
+    if (suffix) {
+      const pr = /\/pull\/(\d+)$/.exec(suffix[1]);
+      const label = pr ? `#${pr[1]}` : suffix[1];
+      text = `${text.slice(0, suffix.index)} ([${label}](${suffix[1]}))`;
+    }
+    changes.push({ type, text });
+  }
+  return changes;
+}
@@ -0,0 +1,271 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parse as parseYaml } from "yaml";
+import {
+  LATEST_DOCS_VERSION,
+  parseDocFileName,
+  slugify,
+  splitFrontmatter,
+  stripInlineMarkdown,
+  titleFromSlug,
+  type DocFileName,
+} from "../../src/features/docs/lib/content";
+import type { DocFrontmatter, DocMeta } from "../../src/types/docs";
+
+export const ROOT_DIR = fileURLToPath(new URL("../..", import.meta.url));
+export const DOCS_CONTENT_DIR = path.join(
+  ROOT_DIR,
+  "src/features/docs/content"
+);
+
+export type DocSourceFile = DocFileName & {
+  version: string;
+  language: string;
+  filePath: string;
+};
+
+export type DocEntry = DocSourceFile & {
+  meta: DocMeta;
+  /** Markdown without the frontmatter block. */
+  body: string;
+};
+
+export type DocSection = {
+  anchor: string;
+  heading: string;
+  text: string;
+};
+
+export const listSubdirectories = (dir: string) =>
+  fs.existsSync(dir)
+    ? fs
+        .readdirSync(dir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+    : [];
+
+/**
+ * Lists the docs versions: `latest` first, then release snapshots from
+ * newest to oldest.
+ */
+export function listDocVersions() {
+  return listSubdirectories(DOCS_CONTENT_DIR)
+    .filter((name) => name !== "images")
+    .sort((a, b) => {
+      if (a === LATEST_DOCS_VERSION) return -1;
+      if (b === LATEST_DOCS_VERSION) return 1;
+      return b.localeCompare(a, undefined, { numeric: true });
+    });
+}
+
+/**
+ * Lists the language folders of a docs version.
+ */
+export function listDocLanguages(version = LATEST_DOCS_VERSION) {
+  return listSubdirectories(path.join(DOCS_CONTENT_DIR, version)).sort();
+}
+
+/**
+ * Lists the markdown files of one language, in sidebar order.
+ */
+export function listDocFiles(
+  language: string,
+  version = LATEST_DOCS_VERSION
+): DocSourceFile[] {
+  const dir = path.join(DOCS_CONTENT_DIR, version, language);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".md"))
+    .map((name) => ({
+      ...parseDocFileName(name),
+      version,
+      language,
+      filePath: path.join(dir, name),
+    }))
+    .sort((a, b) =>
+      a.order === b.order ? a.slug.localeCompare(b.slug) : a.order - b.order
+    );
+}
+
+export function readDocSource(file: DocSourceFile) {
+  return fs.readFileSync(file.filePath, "utf8").replace(/\r\n?/g, "\n");
+}
+
+/**
+ * Drafts stay visible everywhere except production builds.
+ *
+ * @param env - The Vite env of the current build (`config.env`).
+ */
+export function shouldIncludeDrafts(env: Record<string, string | undefined>) {
+  return env.VITE_APP_ENV !== "PROD";
+}
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Parses and validates the frontmatter block of a doc.
+ * Fields with the wrong type are dropped with a warning instead of failing
+ * the build, so a typo never takes the docs down.
+ */
+export function parseDocFrontmatter(
+  source: string,
+  filePath: string
+): { frontmatter: DocFrontmatter; body: string } {
+  const { frontmatter: raw, body } = splitFrontmatter(source);
+  if (raw === null) {
+    return { frontmatter: {}, body };
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(raw) ?? {};
+  } catch (error) {
+    console.warn(`[docs] Invalid frontmatter in ${filePath}: ${error}`);
+    return { frontmatter: {}, body };
+  }
+  if (typeof data !== "object" || Array.isArray(data)) {
+    console.warn(`[docs] Frontmatter in ${filePath} must be a mapping`);
+    return { frontmatter: {}, body };
+  }
+
+  const fields = data as Record<string, unknown>;
+  const frontmatter: DocFrontmatter = {};
+  const warn = (key: string, expected: string) =>
+    console.warn(`[docs] ${filePath}: "${key}" must be ${expected}`);
+
+  for (const key of ["title", "description", "sidebarLabel"] as const) {
+    const value = fields[key];
+    if (value === undefined) continue;
+    if (typeof value === "string") frontmatter[key] = value;
+    else warn(key, "a string");
+  }
+  if (fields.order !== undefined) {
+    if (typeof fields.order === "number") frontmatter.order = fields.order;
+    else warn("order", "a number");
+  }
+  if (fields.draft !== undefined) {
+    if (typeof fields.draft === "boolean") frontmatter.draft = fields.draft;
+    else warn("draft", "true or false");
+  }
+  if (fields.tags !== undefined) {
+    if (isStringArray(fields.tags)) frontmatter.tags = fields.tags;
+    else warn("tags", "a list of strings");
+  }
+  if (fields.lastReviewed !== undefined) {
+    // YAML may already have turned an unquoted date into a Date.
+    const value =
+      fields.lastReviewed instanceof Date
+        ? fields.lastReviewed.toISOString().slice(0, 10)
+        : fields.lastReviewed;
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      frontmatter.lastReviewed = value;
+    } else {
+      warn("lastReviewed", "a YYYY-MM-DD date");
+    }
+  }
+
+  return { frontmatter, body };
+}
+
+/**
+ * Loads every doc of a language with its parsed frontmatter, sorted by
+ * the frontmatter `order` or the file name prefix.
+ */
+export function loadDocEntries(
+  language: string,
+  {
+    includeDrafts,
+    version = LATEST_DOCS_VERSION,
+  }: { includeDrafts: boolean; version?: string }
+): DocEntry[] {
+  return listDocFiles(language, version)
+    .map((file) => {
+      const { frontmatter, body } = parseDocFrontmatter(
+        readDocSource(file),
+        file.filePath
+      );
+      const title =
+        frontmatter.title ?? extractDocTitle(body, file.displaySlug);
+      const meta: DocMeta = {
+        slug: file.displaySlug,
+        fileSlug: file.slug,
+        title,
+        sidebarLabel: frontmatter.sidebarLabel ?? title,
+        description: frontmatter.description,
+        draft: frontmatter.draft ?? false,
+        tags: frontmatter.tags ?? [],
+        lastReviewed: frontmatter.lastReviewed,
+      };
+      return { ...file, order: frontmatter.order ?? file.order, meta, body };
+    })
+    .filter((entry) => includeDrafts || !entry.meta.draft)
+    .sort((a, b) =>
+      a.order === b.order ? a.slug.localeCompare(b.slug) : a.order - b.order
+    );
+}
+
+/**
+ * Returns the text of the first `# ` heading, or a title derived from the slug.
+ */
+export function extractDocTitle(markdown: string, displaySlug: string) {
+  const heading = /^\s*#\s+(.+)$/m.exec(markdown)?.[1].trim();
+  return heading ? heading.replace(/`/g, "") : titleFromSlug(displaySlug);
+}
+
+/**
+ * Splits a markdown document into heading-level sections with plain text.
+ * Fenced code is kept as text so commands stay searchable, but lines inside
+ * fences are never treated as headings. Callout and code-group fences
+ * (`:::warning[Title]`) only contribute their title.
+ */
+export function splitDocSections(markdown: string, pageTitle: string) {
+  const sections: DocSection[] = [];
+  let current: DocSection = { anchor: "", heading: pageTitle, text: "" };
+  let inFence = false;
+
+  const flush = () => {
+    current.text = current.text.replace(/\s+/g, " ").trim();
+    if (current.text || current.anchor) {
+      sections.push(current);
+    }
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (line.trimStart().startsWith("```")) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      current.text += ` ${line.trim()}`;
+      continue;
+    }
+
+    const directive = /^:{3,}[\w-]*(?:\[([^\]]*)\])?/.exec(line.trim());
+    if (directive) {
+      if (directive[1]) {
+        current.text += ` ${stripInlineMarkdown(directive[1])}`;
+      }
+      continue;
+    }
+
+    const m = /^(#{1,6})\s+(.+)$/.exec(line.trim());
+    if (m) {
+      flush();
+      const heading = m[2].replace(/`/g, "").trim();
+      current = { anchor: slugify(heading), heading, text: "" };
+      continue;
+    }
+
+    const text = stripInlineMarkdown(line);
+    if (text && !/^[-:\s]+$/.test(text)) {
+      current.text += ` ${text}`;
+    }
+  }
+  flush();
+
+  return sections;
+}
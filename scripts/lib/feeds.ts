@@ -0,0 +1,134 @@
+import type { BlogFeed } from "../../src/types/blog";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+/** Wraps HTML in CDATA; a literal `]]>` is split across two sections. */
+const cdata = (html: string) =>
+  `<![CDATA[${html.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+const toRfc822 = (date: string) => new Date(`${date}T00:00:00Z`).toUTCString();
+const toRfc3339 = (date: string) => `${date}T00:00:00Z`;
+
+const latestDate = (feed: BlogFeed) =>
+  feed.items.map((item) => item.date).sort().at(-1) ??
+  new Date().toISOString().slice(0, 10);
+
+/**
+ * Builds an RSS 2.0 feed with the full post HTML in `content:encoded`.
+ *
+ * @param feed - The feed of one language.
+ * @returns The XML document.
+ */
+export function buildRssFeed(feed: BlogFeed) {
+  const items = feed.items.map((item) =>
+    [
+      "    <item>",
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+      `      <pubDate>${toRfc822(item.date)}</pubDate>`,
+      ...(item.author
+        ? [`      <dc:creator>${escapeXml(item.author)}</dc:creator>`]
+        : []),
+      ...item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      ...(item.summary
+        ? [`      <description>${escapeXml(item.summary)}</description>`]
+        : []),
+      `      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`,
+      "    </item>",
+    ].join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <language>${feed.language}</language>`,
+    `    <lastBuildDate>${toRfc822(latestDate(feed))}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.feedUrls.rss)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds an Atom 1.0 feed with the full post HTML as `content`.
+ *
+ * @param feed - The feed of one language.
+ * @returns The XML document.
+ */
+export function buildAtomFeed(feed: BlogFeed) {
+  const entries = feed.items.map((item) =>
+    [
+      `  <entry xml:lang="${item.language}">`,
+      `    <id>${escapeXml(item.url)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `    <published>${toRfc3339(item.date)}</published>`,
+      `    <updated>${toRfc3339(item.date)}</updated>`,
+      ...(item.author
+        ? [`    <author><name>${escapeXml(item.author)}</name></author>`]
+        : []),
+      ...item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      ...(item.summary
+        ? [`    <summary>${escapeXml(item.summary)}</summary>`]
+        : []),
+      `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+      "  </entry>",
+    ].join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.language}">`,
+    `  <id>${escapeXml(feed.homeUrl)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <updated>${toRfc3339(latestDate(feed))}</updated>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrls.atom)}"/>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds a JSON Feed 1.1 document.
+ *
+ * @param feed - The feed of one language.
+ * @returns The JSON document.
+ */
+export function buildJsonFeed(feed: BlogFeed) {
+  const document = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrls.json,
+    language: feed.language,
+    items: feed.items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.contentHtml,
+      date_published: toRfc3339(item.date),
+      authors: item.author ? [{ name: item.author }] : undefined,
+      tags: item.tags.length > 0 ? item.tags : undefined,
+      language: item.language,
+    })),
+  };
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
@@ -0,0 +1,61 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { ROOT_DIR } from "./docs";
+
+const runGit = (args: string[]) =>
+  execFileSync("git", args, {
+    cwd: ROOT_DIR,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "ignore"],
+  }).trim();
+
+let history: boolean | undefined;
+
+/**
+ * Whether the checkout has the full commit history. In a shallow clone, the
+ * default in most CI checkouts, `git log` dates every file with the shallow
+ * HEAD commit, so it is no better than the file times.
+ */
+function hasHistory(): boolean {
+  if (history === undefined) {
+    try {
+      history = runGit(["rev-parse", "--is-shallow-repository"]) === "false";
+    } catch {
+      history = false;
+    }
+    if (!history) {
+      console.warn(
+        "[git] No full history (shallow clone or no git): last-modified " +
+          "dates come from file times. Fetch full history, e.g. " +
+          "`fetch-depth: 0`, for accurate dates."
+      );
+    }
+  }
+  return history;
+}
+
+/**
+ * Returns when a file was last changed: the date of the last commit touching
+ * it, or its modification time when it is untracked or the checkout has no
+ * full history (git missing or a shallow clone).
+ */
+export function getLastModified(filePath: string): Date {
+  if (hasHistory()) {
+    try {
+      const output = runGit([
+        "log",
+        "-1",
+        "--format=%cI",
+        "--",
+        path.relative(ROOT_DIR, filePath),
+      ]);
+      if (output) {
+        return new Date(output);
+      }
+    } catch {
+      // fall through to the file system
+    }
+  }
+  return fs.statSync(filePath).mtime;
+}
@@ -0,0 +1,82 @@
+import remarkDirective from "remark-directive";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import {
+  createHighlighter,
+  type BundledLanguage,
+  type Highlighter,
+} from "shiki";
+import { unified } from "unified";
+import { visit } from "unist-util-visit";
+import {
+  normalizeCodeLanguage,
+  parseCodeMeta,
+  splitCodeLines,
+} from "../../src/features/docs/lib/code";
+import type { CodeToken } from "../../src/types/markdown";
+import promql from "./promql.tmLanguage";
+
+/** Code blocks always render on a dark surface, in light mode too. */
+export const CODE_THEME = "github-dark";
+
+const BUNDLED_LANGUAGES = ["yaml", "bash", "json", "rust", "toml"];
+const HIGHLIGHT_LANGUAGES = [...BUNDLED_LANGUAGES, promql.name];
+
+let highlighter: Promise<Highlighter> | undefined;
+
+const getHighlighter = () => {
+  highlighter ??= createHighlighter({
+    themes: [CODE_THEME],
+    langs: [...BUNDLED_LANGUAGES, promql],
+  });
+  return highlighter;
+};
+
+// Same parser extensions as the client renderer, so that code blocks are
+// visited in the same order on both sides.
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkDirective);
+
+/**
+ * Highlights every fenced code block of a markdown document.
+ * Diff markers are stripped before highlighting; unsupported languages
+ * yield null and are rendered as plain text.
+ *
+ * @param markdown - The markdown body, without frontmatter.
+ * @returns Token lines per code block, in document order.
+ */
+export async function highlightCodeBlocks(markdown: string) {
+  const blocks: { lang?: string; code: string }[] = [];
+  visit(parser.parse(markdown), "code", (node) => {
+    const { diff } = parseCodeMeta(node.meta);
+    blocks.push({
+      lang: normalizeCodeLanguage(node.lang),
+      code: splitCodeLines(node.value, diff)
+        .map((line) => line.text)
+        .join("\n"),
+    });
+  });
+
+  if (!blocks.some((b) => b.lang && HIGHLIGHT_LANGUAGES.includes(b.lang))) {
+    return blocks.map(() => null);
+  }
+
+  const shiki = await getHighlighter();
+  return blocks.map(({ lang, code }): CodeToken[][] | null => {
+    if (!lang || !HIGHLIGHT_LANGUAGES.includes(lang)) return null;
+    return shiki
+      // promql is not bundled but is registered on the highlighter above.
+      .codeToTokensBase(code, {
+        lang: lang as BundledLanguage,
+        theme: CODE_THEME,
+      })
+      .map((line) =>
+        line.map((token) => ({
+          content: token.content,
+          color: token.color,
+          ...(token.fontStyle && token.fontStyle > 0
+            ? { fontStyle: token.fontStyle }
+            : {}),
+        }))
+      );
+  });
+}
@@ -0,0 +1,352 @@
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+import { ROOT_DIR } from "./docs";
+import { LOCALES_DIR } from "./locales";
+
+export const SOURCE_DIR = path.join(ROOT_DIR, "src");
+export const NAMESPACE = "translation";
+
+/** i18next plural suffixes, stripped to find the key a form belongs to. */
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+
+/** `t()` options that are not interpolation values. */
+const I18NEXT_OPTIONS = new Set([
+  "defaultValue",
+  "lng",
+  "lngs",
+  "ns",
+  "context",
+  "returnObjects",
+  "interpolation",
+]);
+
+/** Props naming a translation key, e.g. `titleKey` or `i18nKey`. */
+const KEY_PROP = /^(?:i18n|title|description|label)Key$/;
+
+/** A key prop passed on to `t()`, e.g. `link.i18nKey`, checked where set. */
+const FORWARDED_KEY = /(?:^|\.)(?:i18n|title|description|label)Key$/;
+
+export type KeyUsage = {
+  /** The key, or a template such as `callout.*` for `` `callout.${type}` ``. */
+  key: string;
+  /** Set for templates: matches the keys the template can produce. */
+  pattern?: RegExp;
+  defaultValue?: string;
+  /** Interpolation values passed, or undefined when spread in. */
+  params?: string[];
+  file: string;
+  line: number;
+};
+
+export type DynamicUsage = {
+  expression: string;
+  file: string;
+  line: number;
+};
+
+export type Extraction = {
+  usages: KeyUsage[];
+  /** Keys computed at runtime, which the report cannot check. */
+  dynamic: DynamicUsage[];
+};
+
+/**
+ * Flat view of a translation bundle: `"landing.hero.title" → "..."`. Arrays,
+ * read with `returnObjects`, stay whole.
+ */
+export type FlatResources = Map<string, string | string[]>;
+
+export function listSourceFiles(dir = SOURCE_DIR): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const filePath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listSourceFiles(filePath);
+    }
+    return /\.tsx?$/.test(entry.name) && !entry.name.endsWith(".d.ts")
+      ? [filePath]
+      : [];
+  });
+}
+
+export function readResources(language: string): Record<string, unknown> {
+  const file = path.join(LOCALES_DIR, language, `${NAMESPACE}.json`);
+  return JSON.parse(fs.readFileSync(file, "utf8")) as Record<string, unknown>;
+}
+
+export function flattenResources(
+  resources: Record<string, unknown>,
+  prefix = ""
+): FlatResources {
+  const flat: FlatResources = new Map();
+  for (const [name, value] of Object.entries(resources)) {
+    const key = prefix ? `${prefix}.${name}` : name;
+    if (Array.isArray(value)) {
+      flat.set(key, value.map(String));
+    } else if (value && typeof value === "object") {
+      for (const entry of flattenResources(
+        value as Record<string, unknown>,
+        key
+      )) {
+        flat.set(...entry);
+      }
+    } else {
+      flat.set(key, String(value));
+    }
+  }
+  return flat;
+}
+
+/** The key a plural form belongs to: `blog.posts_other` → `blog.posts`. */
+export const stripPluralSuffix = (key: string) =>
+  key.replace(PLURAL_SUFFIX, "");
+
+/** Interpolation names in a value: `"{{count}} posts"` → `["count"]`. */
+export function readPlaceholders(value: string | string[]): string[] {
+  const text = Array.isArray(value) ? value.join("\n") : value;
+  const names = [...text.matchAll(/\{\{\s*([\w.]+)[^}]*\}\}/g)].map(
+    (match) => match[1]
+  );
+  return [...new Set(names)].sort();
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const stringValue = (node: ts.Node): string | undefined =>
+  ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)
+    ? node.text
+    : undefined;
+
+/**
+ * Keys an expression can evaluate to: literals, templates, and both branches
+ * of a conditional. Returns undefined for anything computed at runtime.
+ */
+function resolveKeys(
+  node: ts.Expression
+): Pick<KeyUsage, "key" | "pattern">[] | undefined {
+  const literal = stringValue(node);
+  if (literal !== undefined) {
+    return [{ key: literal }];
+  }
+  if (ts.isParenthesizedExpression(node)) {
+    return resolveKeys(node.expression);
+  }
+  if (ts.isConditionalExpression(node)) {
+    const whenTrue = resolveKeys(node.whenTrue);
+    const whenFalse = resolveKeys(node.whenFalse);
+    return whenTrue && whenFalse ? [...whenTrue, ...whenFalse] : undefined;
+  }
+  if (ts.isTemplateExpression(node)) {
+    const parts = [
+      node.head.text,
+      ...node.templateSpans.map((span) => span.literal.text),
+    ];
+    return [
+      {
+        key: parts.join("*"),
+        pattern: new RegExp(`^${parts.map(escapeRegExp).join(".+")}$`),
+      },
+    ];
+  }
+  return undefined;
+}
+
+/** Interpolation values passed in an options object literal. */
+function readParams(node: ts.Node | undefined): string[] | undefined {
+  if (!node) {
+    return [];
+  }
+  if (!ts.isObjectLiteralExpression(node)) {
+    return undefined;
+  }
+  const params: string[] = [];
+  for (const property of node.properties) {
+    if (ts.isSpreadAssignment(property) || !property.name) {
+      return undefined;
+    }
+    const name = property.name.getText();
+    if (!I18NEXT_OPTIONS.has(name)) {
+      params.push(name);
+    }
+  }
+  return params;
+}
+
+function readDefaultValue(node: ts.Node | undefined): string | undefined {
+  if (!node || !ts.isObjectLiteralExpression(node)) {
+    return undefined;
+  }
+  for (const property of node.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      property.name.getText() === "defaultValue"
+    ) {
+      return stringValue(property.initializer);
+    }
+  }
+  return undefined;
+}
+
+/** Value of a sibling property, e.g. `titleDefault` next to `titleKey`. */
+function findProperty(object: ts.ObjectLiteralExpression, name: string) {
+  for (const property of object.properties) {
+    if (ts.isPropertyAssignment(property) && property.name.getText() === name) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+/** Value of a sibling JSX attribute, e.g. `titleDefault` next to `titleKey`. */
+function findAttribute(attributes: ts.JsxAttributes, name: string) {
+  for (const attribute of attributes.properties) {
+    if (
+      ts.isJsxAttribute(attribute) &&
+      attribute.name.getText() === name &&
+      attribute.initializer
+    ) {
+      return ts.isJsxExpression(attribute.initializer)
+        ? attribute.initializer.expression
+        : attribute.initializer;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collects the translation keys used by the given source files: the first
+ * argument of every `t()` / `i18n.t()` call, and literal values of key props
+ * such as `titleKey="seo.home.title"` or `i18nKey: "navbar.home"`.
+ */
+export function extractKeys(files: string[]): Extraction {
+  const usages: KeyUsage[] = [];
+  const dynamic: DynamicUsage[] = [];
+
+  for (const filePath of files) {
+    const source = ts.createSourceFile(
+      filePath,
+      fs.readFileSync(filePath, "utf8"),
+      ts.ScriptTarget.Latest,
+      true,
+      filePath.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+    );
+    const file = path.relative(ROOT_DIR, filePath);
+    const lineOf = (node: ts.Node) =>
+      source.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+
+    const record = (
+      node: ts.Expression,
+      details: Pick<KeyUsage, "defaultValue" | "params">,
+      required: boolean
+    ) => {
+      const keys = resolveKeys(node);
+      if (keys) {
+        for (const key of keys) {
+          usages.push({ ...key, ...details, file, line: lineOf(node) });
+        }
+      } else if (required && !FORWARDED_KEY.test(node.getText())) {
+        dynamic.push({ expression: node.getText(), file, line: lineOf(node) });
+      }
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) && node.arguments.length > 0) {
+        const callee = node.expression;
+        const isT =
+          (ts.isIdentifier(callee) && callee.text === "t") ||
+          (ts.isPropertyAccessExpression(callee) && callee.name.text === "t");
+        if (isT) {
+          const [key, options] = node.arguments;
+          record(
+            key,
+            {
+              defaultValue: readDefaultValue(options),
+              params: readParams(options),
+            },
+            true
+          );
+        }
+      } else if (
+        ts.isJsxAttribute(node) &&
+        KEY_PROP.test(node.name.getText()) &&
+        node.initializer
+      ) {
+        const prefix = node.name.getText().slice(0, -"Key".length);
+        const value = ts.isJsxExpression(node.initializer)
+          ? node.initializer.expression
+          : node.initializer;
+        const attributes = node.parent;
+        const defaultValue = findAttribute(attributes, `${prefix}Default`);
+        if (value) {
+          record(
+            value,
+            {
+              defaultValue: defaultValue && stringValue(defaultValue),
+              params: readParams(findAttribute(attributes, `${prefix}Params`)),
+            },
+            false
+          );
+        }
+      } else if (
+        ts.isPropertyAssignment(node) &&
+        KEY_PROP.test(node.name.getText())
+      ) {
+        // Params of keys passed around in objects are only known where the
+        // key is finally translated.
+        const prefix = node.name.getText().slice(0, -"Key".length);
+        const defaultValue = ts.isObjectLiteralExpression(node.parent)
+          ? findProperty(node.parent, `${prefix}Default`)
+          : undefined;
+        record(
+          node.initializer,
+          { defaultValue: defaultValue && stringValue(defaultValue) },
+          false
+        );
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+  }
+
+  return { usages, dynamic };
+}
+
+const typeLiteral = (resources: Record<string, unknown>, depth = 1): string => {
+  const indent = "  ".repeat(depth);
+  const members = Object.entries(resources).map(([name, value]) => {
+    const property = /^[A-Za-z_$][\w$]*$/.test(name)
+      ? name
+      : JSON.stringify(name);
+    const type = Array.isArray(value)
+      ? "string[]"
+      : value && typeof value === "object"
+        ? typeLiteral(value as Record<string, unknown>, depth + 1)
+        : "string";
+    return `${indent}${property}: ${type};`;
+  });
+  return `{\n${members.join("\n")}\n${"  ".repeat(depth - 1)}}`;
+};
+
+/**
+ * Source of the generated `i18next` type augmentation: the shape of the
+ * default language's bundle, so `t()` only accepts keys that exist in it.
+ */
+export function buildResourcesModule(
+  language: string,
+  resources: Record<string, unknown>
+): string {
+  return `// Generated by \`npm run i18n:keys -- --write\` from
+// src/i18n/locales/${language}/${NAMESPACE}.json. Do not edit by hand.
+import "i18next";
+
+export type TranslationResources = ${typeLiteral(resources)};
+
+declare module "i18next" {
+  interface CustomTypeOptions {
+    defaultNS: "${NAMESPACE}";
+    resources: { ${NAMESPACE}: TranslationResources };
+  }
+}
+`;
+}
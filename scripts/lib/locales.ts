@@ -0,0 +1,15 @@
+import fs from "node:fs";
+import path from "node:path";
+import { ROOT_DIR } from "./docs";
+
+/** One folder per site language, named after its language code. */
+export const LOCALES_DIR = path.join(ROOT_DIR, "src/i18n/locales");
+
+/** Lists the site languages, from the translation bundle folders. */
+export function listLocales(): string[] {
+  return fs
+    .readdirSync(LOCALES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
@@ -0,0 +1,162 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import { Resvg } from "@resvg/resvg-js";
+import { createElement as h } from "react";
+import satori, { type Font } from "satori";
+
+export type OgImageOptions = {
+  /** The page's `og:title`. */
+  title: string;
+  /** Localized section label, e.g. `Docs`; empty on the home page. */
+  section: string;
+  language: string;
+  /** Host shown in the footer, e.g. `rustcost.dev`. */
+  host: string;
+  width: number;
+  height: number;
+};
+
+const BRAND_COLOR = "#facc15";
+
+const require = createRequire(import.meta.url);
+
+// Pretendard covers Latin and Hangul with the same metrics, so Korean titles
+// render without a fallback font.
+const loadFont = (file: string, weight: Font["weight"]): Font => ({
+  name: "Pretendard",
+  data: fs.readFileSync(
+    require.resolve(`pretendard/dist/public/static/${file}`)
+  ),
+  weight,
+  style: "normal",
+});
+
+let fonts: Font[] | undefined;
+
+/**
+ * Removes the site name from a page title for the image headline, since the
+ * image already carries the brand: `RustCost Blog · v1 Launch` → `v1 Launch`.
+ *
+ * @param title - The page title.
+ * @returns The headline.
+ */
+export function toHeadline(title: string) {
+  const parts = title.split(" · ");
+  if (parts.length > 1 && parts[0].startsWith("RustCost")) {
+    parts.shift();
+  } else if (parts.length > 1 && parts.at(-1)!.startsWith("RustCost")) {
+    parts.pop();
+  }
+  return parts.join(" · ");
+}
+
+const headlineSize = (headline: string) =>
+  headline.length <= 24 ? 76 : headline.length <= 48 ? 64 : 52;
+
+/**
+ * Renders the branded Open Graph image of a page.
+ *
+ * @param options - Page text and image size.
+ * @returns The PNG image.
+ */
+export async function renderOgImage({
+  title,
+  section,
+  language,
+  host,
+  width,
+  height,
+}: OgImageOptions) {
+  fonts ??= [
+    loadFont("Pretendard-Regular.otf", 400),
+    loadFont("Pretendard-Bold.otf", 700),
+  ];
+  const headline = toHeadline(title);
+
+  const image = h(
+    "div",
+    {
+      style: {
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: "72px 80px",
+        backgroundColor: "#030712",
+        backgroundImage:
+          "radial-gradient(circle at 100% 0%, rgba(250, 204, 21, 0.22), transparent 55%)",
+        color: "#f9fafb",
+        fontFamily: "Pretendard",
+      },
+    },
+    h(
+      "div",
+      { style: { display: "flex", alignItems: "center", gap: 20 } },
+      h("div", {
+        style: {
+          width: 44,
+          height: 44,
+          borderRadius: 12,
+          backgroundColor: BRAND_COLOR,
+        },
+      }),
+      h(
+        "div",
+        { style: { fontSize: 40, fontWeight: 700, letterSpacing: -0.5 } },
+        "RustCost"
+      ),
+      section
+        ? h(
+            "div",
+            {
+              style: {
+                marginLeft: 12,
+                padding: "6px 18px",
+                borderRadius: 999,
+                border: `2px solid ${BRAND_COLOR}`,
+                color: BRAND_COLOR,
+                fontSize: 26,
+                fontWeight: 700,
+              },
+            },
+            section
+          )
+        : null
+    ),
+    h(
+      "div",
+      {
+        lang: language,
+        style: {
+          display: "flex",
+          fontSize: headlineSize(headline),
+          fontWeight: 700,
+          lineHeight: 1.2,
+          letterSpacing: -1,
+          wordBreak: language === "ko" ? "keep-all" : "normal",
+        },
+      },
+      headline
+    ),
+    h(
+      "div",
+      {
+        style: {
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          fontSize: 26,
+          color: "#9ca3af",
+        },
+      },
+      h("div", {}, host),
+      h("div", { style: { width: 120, height: 6, backgroundColor: BRAND_COLOR } })
+    )
+  );
+
+  const svg = await satori(image, { width, height, fonts });
+  return new Resvg(svg, { fitTo: { mode: "width", value: width } })
+    .render()
+    .asPng();
+}
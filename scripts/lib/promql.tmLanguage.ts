@@ -0,0 +1,94 @@
+import type { LanguageRegistration } from "shiki";
+
+/**
+ * Minimal TextMate grammar for PromQL, which Shiki does not bundle.
+ * Covers what our metric docs use: selectors with label matchers, range
+ * durations, functions, aggregations with modifiers, and operators.
+ */
+const promql: LanguageRegistration = {
+  name: "promql",
+  scopeName: "source.promql",
+  aliases: ["prometheus"],
+  patterns: [
+    { include: "#comment" },
+    { include: "#string" },
+    { include: "#labels" },
+    { include: "#range" },
+    { include: "#keyword" },
+    { include: "#function" },
+    { include: "#number" },
+    { include: "#operator" },
+    { include: "#metric" },
+  ],
+  repository: {
+    comment: {
+      name: "comment.line.number-sign.promql",
+      match: "#.*$",
+    },
+    string: {
+      patterns: [
+        { name: "string.quoted.double.promql", match: '"(?:[^"\\\\]|\\\\.)*"' },
+        { name: "string.quoted.single.promql", match: "'(?:[^'\\\\]|\\\\.)*'" },
+        { name: "string.quoted.other.promql", match: "`[^`]*`" },
+      ],
+    },
+    labels: {
+      begin: "\\{",
+      end: "\\}",
+      beginCaptures: { 0: { name: "punctuation.section.braces.promql" } },
+      endCaptures: { 0: { name: "punctuation.section.braces.promql" } },
+      patterns: [
+        { include: "#string" },
+        {
+          name: "entity.name.tag.label.promql",
+          match: "[a-zA-Z_][a-zA-Z0-9_]*(?=\\s*(?:=~|!~|!=|=))",
+        },
+        { name: "keyword.operator.comparison.promql", match: "=~|!~|!=|=" },
+      ],
+    },
+    range: {
+      match: "(\\[)([^\\]]*)(\\])",
+      captures: {
+        1: { name: "punctuation.section.brackets.promql" },
+        2: { name: "constant.numeric.duration.promql" },
+        3: { name: "punctuation.section.brackets.promql" },
+      },
+    },
+    keyword: {
+      patterns: [
+        {
+          name: "keyword.operator.logical.promql",
+          match: "\\b(?:and|or|unless|atan2)\\b",
+        },
+        {
+          name: "keyword.other.modifier.promql",
+          match:
+            "\\b(?:by|without|on|ignoring|group_left|group_right|offset|bool)\\b",
+        },
+        {
+          name: "support.function.aggregation.promql",
+          match:
+            "\\b(?:sum|min|max|avg|group|stddev|stdvar|count|count_values|bottomk|topk|quantile)\\b(?=\\s*(?:\\(|by\\b|without\\b))",
+        },
+      ],
+    },
+    function: {
+      name: "support.function.promql",
+      match: "\\b[a-z_][a-z0-9_]*(?=\\s*\\()",
+    },
+    number: {
+      name: "constant.numeric.promql",
+      match: "\\b\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?(?:ms|[smhdwy])?\\b",
+    },
+    operator: {
+      name: "keyword.operator.promql",
+      match: "==|!=|>=|<=|[-+*/%^<>]",
+    },
+    metric: {
+      name: "variable.other.metric.promql",
+      match: "\\b[a-zA-Z_:][a-zA-Z0-9_:]*\\b",
+    },
+  },
+};
+
+export default promql;
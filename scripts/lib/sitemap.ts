@@ -0,0 +1,91 @@
+/** A pre-rendered page as described by `getSitePages()` in the app. */
+export type SitemapPage = {
+  path: string;
+  language: string;
+  lastmod?: string;
+  draft: boolean;
+  contentLanguage?: string;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+/** Drops the language segment: `/ko/docs/install` → `docs/install`. */
+const pageKey = (page: SitemapPage) => page.path.split("/").slice(2).join("/");
+
+/**
+ * Builds `sitemap.xml` with one entry per page and language. Every entry
+ * lists its translations as `xhtml:link` alternates, plus an `x-default`
+ * pointing at the default language, or the first translation when there is
+ * none. Draft pages and pages showing another language's content are left
+ * out.
+ *
+ * @param pages - The site pages.
+ * @param siteUrl - The public origin, without a trailing slash.
+ * @param defaultLanguage - The language used for `x-default`.
+ * @returns The XML document.
+ */
+export function buildSitemap(
+  pages: SitemapPage[],
+  siteUrl: string,
+  defaultLanguage: string
+) {
+  const published = pages.filter(
+    (page) =>
+      !page.draft &&
+      (!page.contentLanguage || page.contentLanguage === page.language)
+  );
+  const translations = new Map<string, SitemapPage[]>();
+  for (const page of published) {
+    const key = pageKey(page);
+    translations.set(key, [...(translations.get(key) ?? []), page]);
+  }
+
+  const link = (hreflang: string, path: string) =>
+    `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${escapeXml(
+      `${siteUrl}${path}`
+    )}"/>`;
+
+  const urls = published.map((page) => {
+    const alternates = translations.get(pageKey(page)) ?? [];
+    const fallback =
+      alternates.find((alt) => alt.language === defaultLanguage) ??
+      alternates[0];
+    return [
+      "  <url>",
+      `    <loc>${escapeXml(`${siteUrl}${page.path}`)}</loc>`,
+      ...(page.lastmod ? [`    <lastmod>${page.lastmod}</lastmod>`] : []),
+      ...alternates.map((alt) => link(alt.language, alt.path)),
+      ...(fallback ? [link("x-default", fallback.path)] : []),
+      "  </url>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds `robots.txt`, allowing everything and pointing at the sitemap.
+ *
+ * @param siteUrl - The public origin, without a trailing slash.
+ */
+export function buildRobotsTxt(siteUrl: string) {
+  return [
+    "User-agent: *",
+    "Allow: /",
+    "",
+    `Sitemap: ${siteUrl}/sitemap.xml`,
+    "",
+  ].join("\n");
+}
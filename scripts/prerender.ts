@@ -0,0 +1,168 @@
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { ROOT_DIR } from "./lib/docs";
+import { buildAtomFeed, buildJsonFeed, buildRssFeed } from "./lib/feeds";
+import { renderOgImage } from "./lib/ogImage";
+import { buildRobotsTxt, buildSitemap, type SitemapPage } from "./lib/sitemap";
+import type { BlogFeed } from "../src/types/blog";
+
+/**
+ * Writes every route as static HTML into `dist/` after `vite build`, using
+ * the server bundle of `src/entry-server.tsx` built into `dist-ssr/`.
+ * The client bundle then hydrates the pre-rendered markup. Each page also
+ * gets its Open Graph image under `dist/og/`, and `sitemap.xml` and
+ * `robots.txt` are generated from the same page list. The blog feeds of
+ * every language are written last.
+ *
+ * Usage: npm run build (runs this last)
+ */
+
+type RenderResult = {
+  html: string;
+  head: string;
+  htmlAttributes: string;
+  section: string;
+};
+
+type ServerEntry = {
+  render: (path: string) => Promise<RenderResult | null>;
+  getSitePages: () => SitemapPage[];
+  renderBlogFeed: (language: string) => Promise<BlogFeed>;
+  buildOgImagePath: (pathname: string) => string;
+  getOgImageLanguage: (language: string) => string;
+  DEFAULT_LANGUAGE: string;
+  SUPPORTED_LANGUAGES: readonly string[];
+  SITE_URL: string;
+  OG_IMAGE_WIDTH: number;
+  OG_IMAGE_HEIGHT: number;
+};
+
+const DIST_DIR = path.join(ROOT_DIR, "dist");
+const SERVER_ENTRY = path.join(ROOT_DIR, "dist-ssr", "entry-server.js");
+
+const ROOT_PLACEHOLDER = '<div id="root"></div>';
+
+/**
+ * Drops the static `<title>` and the meta tags of `index.html` that the page
+ * sets itself, so crawlers do not see two different values.
+ */
+const removeOverriddenTags = (template: string, head: string) => {
+  let result = template;
+  if (head.includes("<title")) {
+    result = result.replace(/\s*<title>[\s\S]*?<\/title>/, "");
+  }
+  for (const [, attr, key] of head.matchAll(
+    /<meta[^>]*\s(name|property)="([^"]+)"/g
+  )) {
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    result = result.replace(
+      new RegExp(`\\s*<meta\\s[^>]*${attr}="${escaped}"[^>]*>`, "g"),
+      ""
+    );
+  }
+  return result;
+};
+
+const renderPage = (template: string, page: RenderResult) =>
+  removeOverriddenTags(template, page.head)
+    .replace(/<html[^>]*>/, `<html ${page.htmlAttributes}>`)
+    .replace("</head>", `  ${page.head}\n  </head>`)
+    .replace(ROOT_PLACEHOLDER, `<div id="root">${page.html}</div>`);
+
+const distFile = (urlPath: string) =>
+  path.join(DIST_DIR, ...urlPath.split("/").map(decodeURIComponent));
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  "#x27": "'",
+  "#39": "'",
+};
+
+/** Reads a `<meta property>` value back out of the rendered head. */
+const readMetaProperty = (head: string, property: string) => {
+  const match = new RegExp(
+    `<meta[^>]*\\sproperty="${property}"[^>]*\\scontent="([^"]*)"`
+  ).exec(head);
+  return match?.[1].replace(
+    /&(amp|lt|gt|quot|#x27|#39);/g,
+    (_, entity: string) => HTML_ENTITIES[entity]
+  );
+};
+
+const writeFile = (file: string, data: string | Buffer) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, data);
+};
+
+async function main() {
+  const template = fs.readFileSync(path.join(DIST_DIR, "index.html"), "utf8");
+  if (!template.includes(ROOT_PLACEHOLDER)) {
+    throw new Error(`dist/index.html has no ${ROOT_PLACEHOLDER}`);
+  }
+
+  const server = (await import(
+    pathToFileURL(SERVER_ENTRY).href
+  )) as ServerEntry;
+  const { render, getSitePages, DEFAULT_LANGUAGE, SITE_URL } = server;
+
+  const pages = getSitePages();
+  let written = 0;
+  for (const { path: urlPath, language } of pages) {
+    const page = await render(urlPath);
+    if (!page) {
+      console.warn(`[prerender] skipped ${urlPath} (redirect)`);
+      continue;
+    }
+    writeFile(
+      path.join(distFile(urlPath), "index.html"),
+      renderPage(template, page)
+    );
+    // Pages in a language the image font cannot render link the default
+    // language's image, which that language's own page generates.
+    if (server.getOgImageLanguage(language) !== language) {
+      written++;
+      continue;
+    }
+    writeFile(
+      distFile(server.buildOgImagePath(urlPath)),
+      await renderOgImage({
+        title: readMetaProperty(page.head, "og:title") ?? "RustCost",
+        section: page.section,
+        language,
+        host: new URL(SITE_URL).host,
+        width: server.OG_IMAGE_WIDTH,
+        height: server.OG_IMAGE_HEIGHT,
+      })
+    );
+    written++;
+  }
+
+  console.log(`[prerender] wrote ${written} pages and OG images to dist/`);
+
+  fs.writeFileSync(
+    path.join(DIST_DIR, "sitemap.xml"),
+    buildSitemap(pages, SITE_URL, DEFAULT_LANGUAGE)
+  );
+  fs.writeFileSync(path.join(DIST_DIR, "robots.txt"), buildRobotsTxt(SITE_URL));
+  console.log(`[prerender] wrote sitemap.xml and robots.txt for ${SITE_URL}`);
+
+  for (const language of server.SUPPORTED_LANGUAGES) {
+    const feed = await server.renderBlogFeed(language);
+    const feedFile = (url: string) => distFile(new URL(url).pathname);
+    writeFile(feedFile(feed.feedUrls.rss), buildRssFeed(feed));
+    writeFile(feedFile(feed.feedUrls.atom), buildAtomFeed(feed));
+    writeFile(feedFile(feed.feedUrls.json), buildJsonFeed(feed));
+    console.log(
+      `[prerender] wrote ${language} blog feeds (${feed.items.length} posts)`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+import type { Plugin } from "vite";
+import type { BlogPostMeta } from "../../src/types/blog";
+import { shouldIncludeDrafts } from "../lib/docs";
+import {
+  BLOG_CONTENT_DIR,
+  listBlogLanguages,
+  loadBlogEntries,
+} from "../lib/blog";
+import { invalidateOnContentChange } from "./utils";
+
+const VIRTUAL_ID = "virtual:blog-manifest";
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+/**
+ * Exposes `virtual:blog-manifest`: the frontmatter of every blog post per
+ * language, newest first. Drafts are dropped when `VITE_APP_ENV` is `PROD`.
+ */
+export default function blogManifest(): Plugin {
+  let includeDrafts = true;
+
+  return {
+    name: "rustcost:blog-manifest",
+    configResolved(config) {
+      includeDrafts = shouldIncludeDrafts(config.env);
+    },
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) return;
+
+      const manifest: Record<string, BlogPostMeta[]> = {};
+      for (const language of listBlogLanguages()) {
+        const entries = loadBlogEntries(language, { includeDrafts });
+        for (const entry of entries) {
+          this.addWatchFile(entry.filePath);
+        }
+        manifest[language] = entries.map((entry) => entry.meta);
+      }
+      return `export const blogManifest = ${JSON.stringify(manifest)};`;
+    },
+    configureServer(server) {
+      invalidateOnContentChange(server, BLOG_CONTENT_DIR, RESOLVED_ID);
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { Plugin } from "vite";
+import type { DocMeta } from "../../src/types/docs";
+import {
+  DOCS_CONTENT_DIR,
+  listDocLanguages,
+  listDocVersions,
+  loadDocEntries,
+  shouldIncludeDrafts,
+} from "../lib/docs";
+import { getLastModified } from "../lib/git";
+import { invalidateOnContentChange } from "./utils";
+
+const VIRTUAL_ID = "virtual:docs-manifest";
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+/**
+ * Exposes `virtual:docs-manifest`: the frontmatter-derived metadata of every
+ * doc per version and language, parsed once at build time, plus each file's
+ * last commit date. Drafts are dropped when `VITE_APP_ENV` is `PROD`.
+ */
+export default function docsManifest(): Plugin {
+  let includeDrafts = true;
+
+  return {
+    name: "rustcost:docs-manifest",
+    configResolved(config) {
+      includeDrafts = shouldIncludeDrafts(config.env);
+    },
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) return;
+
+      const manifest: Record<string, Record<string, DocMeta[]>> = {};
+      for (const version of listDocVersions()) {
+        manifest[version] = {};
+        for (const language of listDocLanguages(version)) {
+          const entries = loadDocEntries(language, { includeDrafts, version });
+          for (const entry of entries) {
+            this.addWatchFile(entry.filePath);
+          }
+          manifest[version][language] = entries.map((entry) => ({
+            ...entry.meta,
+            lastUpdated: getLastModified(entry.filePath)
+              .toISOString()
+              .slice(0, 10),
+          }));
+        }
+      }
+      return `export const docsManifest = ${JSON.stringify(manifest)};`;
+    },
+    configureServer(server) {
+      invalidateOnContentChange(server, DOCS_CONTENT_DIR, RESOLVED_ID);
+    },
+  };
+}
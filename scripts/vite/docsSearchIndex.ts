@@ -0,0 +1,128 @@
+import type { Plugin } from "vite";
+import { tokenize } from "../../src/features/docs/lib/tokenize";
+import type {
+  SearchIndex,
+  SearchPosting,
+  SearchSection,
+} from "../../src/types/search";
+import {
+  DOCS_CONTENT_DIR,
+  listDocFiles,
+  listDocLanguages,
+  loadDocEntries,
+  shouldIncludeDrafts,
+  splitDocSections,
+} from "../lib/docs";
+import { listLocales } from "../lib/locales";
+import { invalidateOnContentChange } from "./utils";
+
+const VIRTUAL_ID = "virtual:docs-search-index";
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+/** `DEFAULT_LANGUAGE` of the site, tried first for untranslated docs. */
+const FALLBACK_LANGUAGE = "en";
+
+/** The languages untranslated docs of a language are taken from, in order. */
+const fallbackLanguages = (language: string) => [
+  FALLBACK_LANGUAGE,
+  ...listDocLanguages().filter((lng) => lng !== language),
+];
+
+const countTerms = (text: string) => {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Builds the inverted index for one language. Docs that are not translated
+ * yet are indexed from the fallback languages, as the docs pages show them.
+ */
+export function buildSearchIndex(
+  language: string,
+  includeDrafts: boolean
+): SearchIndex {
+  const sections: SearchSection[] = [];
+  const postings: Record<string, SearchPosting[]> = {};
+  const indexed = new Set<string>();
+
+  for (const lng of [language, ...fallbackLanguages(language)]) {
+    for (const { meta, body } of loadDocEntries(lng, { includeDrafts })) {
+      if (indexed.has(meta.slug)) continue;
+      indexed.add(meta.slug);
+      const pageTitle = meta.title;
+
+      for (const section of splitDocSections(body, pageTitle)) {
+        const index = sections.length;
+        sections.push({
+          topic: meta.slug,
+          pageTitle,
+          ...(lng !== language && { language: lng }),
+          ...section,
+        });
+
+        const headingCounts = countTerms(section.heading);
+        const bodyCounts = countTerms(section.text);
+        const terms = new Set([...headingCounts.keys(), ...bodyCounts.keys()]);
+        for (const term of terms) {
+          (postings[term] ??= []).push([
+            index,
+            headingCounts.get(term) ?? 0,
+            bodyCounts.get(term) ?? 0,
+          ]);
+        }
+      }
+    }
+  }
+
+  return { sections, postings };
+}
+
+/**
+ * Exposes a search index of the latest docs per site language as lazy
+ * virtual modules; older release snapshots are not searchable.
+ * `virtual:docs-search-index` exports `searchIndexLoaders`, and each loader
+ * imports `virtual:docs-search-index/<lng>` so indexes are split into their
+ * own chunks and only fetched when the search palette opens.
+ */
+export default function docsSearchIndex(): Plugin {
+  let includeDrafts = true;
+
+  return {
+    name: "rustcost:docs-search-index",
+    configResolved(config) {
+      includeDrafts = shouldIncludeDrafts(config.env);
+    },
+    resolveId(id) {
+      if (id === VIRTUAL_ID || id.startsWith(`${VIRTUAL_ID}/`)) {
+        return `\0${id}`;
+      }
+    },
+    load(id) {
+      if (id === RESOLVED_ID) {
+        const loaders = listLocales().map(
+          (lng) =>
+            `${JSON.stringify(lng)}: () => import(${JSON.stringify(
+              `${VIRTUAL_ID}/${lng}`
+            )})`
+        );
+        return `export const searchIndexLoaders = {${loaders.join(",")}};`;
+      }
+      if (id.startsWith(`${RESOLVED_ID}/`)) {
+        const language = id.slice(RESOLVED_ID.length + 1);
+        const index = buildSearchIndex(language, includeDrafts);
+        for (const lng of [language, ...fallbackLanguages(language)]) {
+          for (const file of listDocFiles(lng)) {
+            this.addWatchFile(file.filePath);
+          }
+        }
+        return `export default ${JSON.stringify(index)};`;
+      }
+    },
+    configureServer(server) {
+      invalidateOnContentChange(server, DOCS_CONTENT_DIR, RESOLVED_ID);
+    },
+  };
+}
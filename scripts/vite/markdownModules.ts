@@ -0,0 +1,35 @@
+import fs from "node:fs/promises";
+import type { Plugin } from "vite";
+import {
+  normalizeMd,
+  splitFrontmatter,
+} from "../../src/features/docs/lib/content";
+import type { MarkdownModule } from "../../src/types/markdown";
+import { highlightCodeBlocks } from "../lib/highlight";
+
+const MARKDOWN_QUERY = "?markdown";
+
+/**
+ * Compiles `*.md?markdown` imports into a `MarkdownModule`: the body without
+ * frontmatter, with `<br>` tags normalized, plus Shiki tokens for each
+ * fenced code block so the browser never ships a highlighter.
+ */
+export default function markdownModules(): Plugin {
+  return {
+    name: "rustcost:markdown",
+    enforce: "pre",
+    async load(id) {
+      if (!id.endsWith(`.md${MARKDOWN_QUERY}`)) return;
+
+      const filePath = id.slice(0, -MARKDOWN_QUERY.length);
+      this.addWatchFile(filePath);
+      const source = await fs.readFile(filePath, "utf8");
+      const body = normalizeMd(splitFrontmatter(source).body);
+      const compiled: MarkdownModule = {
+        body,
+        codeBlocks: await highlightCodeBlocks(body),
+      };
+      return `export default ${JSON.stringify(compiled)};`;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import type { ViteDevServer } from "vite";
+
+/**
+ * Invalidates virtual modules whose resolved id starts with `resolvedPrefix`
+ * when a file is added to or removed from `dir`. Edits to existing files are
+ * already tracked through `addWatchFile`.
+ */
+export function invalidateOnContentChange(
+  server: ViteDevServer,
+  dir: string,
+  resolvedPrefix: string
+) {
+  const invalidate = (file: string) => {
+    if (!file.startsWith(dir)) return;
+    for (const mod of server.moduleGraph.idToModuleMap.values()) {
+      if (mod.id?.startsWith(resolvedPrefix)) {
+        server.moduleGraph.invalidateModule(mod);
+      }
+    }
+  };
+  server.watcher.on("add", invalidate);
+  server.watcher.on("unlink", invalidate);
+}
@@ -0,0 +1,19 @@
+import { redirect, type LoaderFunctionArgs } from "react-router-dom";
+import { buildLanguagePrefix, isLanguageCode } from "@/constants/language";
+import { getPreferredLanguage } from "@/i18n/languagePreference";
+
+/**
+ * Sends paths without a language prefix (`/`, `/docs/install`) to the same
+ * path under the visitor's preferred language. A first segment that is not
+ * a supported language, e.g. `docs` in `/docs`, is part of the path.
+ *
+ * @returns A redirect, or null when the path already has a language.
+ */
+export function languageRedirectLoader({ request }: LoaderFunctionArgs) {
+  const { pathname, search } = new URL(request.url);
+  if (isLanguageCode(pathname.split("/")[1])) {
+    return null;
+  }
+  const prefix = buildLanguagePrefix(getPreferredLanguage());
+  return redirect(`${prefix}${pathname === "/" ? "" : pathname}${search}`);
+}
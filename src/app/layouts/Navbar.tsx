@@ -1,10 +1,15 @@
 import { NavLink, useLocation, useNavigate, useParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { useEffect, useState } from "react";
-import { Bars3Icon, XMarkIcon } from "@heroicons/react/24/outline";
+import {
+  Bars3Icon,
+  MagnifyingGlassIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
 import ThemeToggle from "@/shared/components/ThemeToggle";
 import BrandLogo from "@/shared/components/BrandLogo";
 import LangSelect from "@/app/layouts/components/LangSelect";
+import DocsSearchPalette from "@/features/docs/components/DocsSearchPalette";
 import {
   buildLanguagePrefix,
   normalizeLanguageCode,
@@ -14,6 +19,8 @@ import { NAVIGATION_LINKS } from "@/constants/routes";
 import type { LanguageCode } from "@/types/i18n";
 import { Link } from "react-router-dom";
 
+const navigationLinks = NAVIGATION_LINKS.filter((link) => !link.hidden);
+
 export default function Navbar() {
   const { t } = useTranslation();
   type LanguageParams = { ["lng"]?: LanguageCode };
@@ -23,6 +30,13 @@ export default function Navbar() {
   const activeLanguage = normalizeLanguageCode(params["lng"]);
   const prefix = buildLanguagePrefix(activeLanguage);
   const [open, setOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  // Detected after mount: pre-rendered markup has no platform to look at.
+  const [isMac, setIsMac] = useState(false);
+
+  useEffect(() => {
+    setIsMac(/Mac|iP(hone|ad)/.test(navigator.platform));
+  }, []);
 
   const navLinkClass =
     "hover:text-yellow-400 transition-colors px-4 py-2 text-lg font-semibold";
@@ -38,6 +52,20 @@ export default function Navbar() {
     navigate(fullPath, { replace: true });
   };
 
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen(false);
+        setSearchOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  const searchLabel = t("search.title", { defaultValue: "Search docs" });
+
   useEffect(() => {
     if (open) {
       const prev = document.body.style.overflow;
@@ -63,7 +91,7 @@ export default function Navbar() {
 
         {/* Desktop nav */}
         <nav className="hidden lg:flex gap-2 xl:gap-6 text-gray-700 dark:text-gray-300">
-          {NAVIGATION_LINKS.map((link) => (
+          {navigationLinks.map((link) => (
             <NavLink
               key={`desktop-${link.key}`}
               to={buildLinkPath(link.segment)}
@@ -77,19 +105,40 @@ export default function Navbar() {
 
         {/* Desktop actions */}
         <div className="hidden lg:flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setSearchOpen(true)}
+            aria-label={searchLabel}
+            className="inline-flex items-center gap-2 rounded-md border border-gray-300 bg-gray-100 px-3 py-1.5 text-sm text-gray-500 transition-colors hover:bg-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          >
+            <MagnifyingGlassIcon className="h-4 w-4" />
+            <span>{searchLabel}</span>
+            <kbd className="rounded border border-gray-300 px-1 text-[11px] font-semibold dark:border-gray-500">
+              {isMac ? "⌘K" : "Ctrl K"}
+            </kbd>
+          </button>
           <ThemeToggle />
           {/* Language Toggle */}
           <LangSelect value={activeLanguage} onChange={handleLangChange} />
         </div>
 
-        {/* Mobile hamburger */}
-        <button
-          className="lg:hidden inline-flex items-center justify-center p-2 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none"
-          aria-label="Open menu"
-          onClick={() => setOpen(true)}
-        >
-          <Bars3Icon className="h-7 w-7" />
-        </button>
+        {/* Mobile search + hamburger */}
+        <div className="lg:hidden flex items-center gap-1">
+          <button
+            className="inline-flex items-center justify-center p-2 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none"
+            aria-label={searchLabel}
+            onClick={() => setSearchOpen(true)}
+          >
+            <MagnifyingGlassIcon className="h-6 w-6" />
+          </button>
+          <button
+            className="inline-flex items-center justify-center p-2 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none"
+            aria-label="Open menu"
+            onClick={() => setOpen(true)}
+          >
+            <Bars3Icon className="h-7 w-7" />
+          </button>
+        </div>
       </div>
 
       {/* Mobile full-screen menu */}
@@ -129,7 +178,7 @@ export default function Navbar() {
             </div>
 
             <nav className="mt-6 flex flex-col items-stretch gap-2 px-4">
-              {NAVIGATION_LINKS.map((link) => (
+              {navigationLinks.map((link) => (
                 <NavLink
                   key={`mobile-${link.key}`}
                   to={buildLinkPath(link.segment)}
@@ -150,6 +199,13 @@ export default function Navbar() {
           </div>
         </div>
       )}
+
+      {searchOpen && (
+        <DocsSearchPalette
+          language={activeLanguage}
+          onClose={() => setSearchOpen(false)}
+        />
+      )}
     </header>
   );
 }
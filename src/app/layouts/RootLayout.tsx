@@ -4,12 +4,14 @@ import Navbar from "@/app/layouts/Navbar";
 import TopBar from "@/app/layouts/TopBar";
 import i18n from "@/i18n/i18n";
 import { normalizeLanguageCode } from "@/constants/language";
+import { useFormatters } from "@/shared/hooks/useFormatters";
 import type { LanguageCode } from "@/types/i18n";
 
 export default function RootLayout() {
   type LanguageParams = { ["lng"]?: LanguageCode };
   const params = useParams<LanguageParams>();
   const language = normalizeLanguageCode(params["lng"]);
+  const { formatDate } = useFormatters();
 
   useEffect(() => {
     if (i18n.language !== language) {
@@ -27,7 +29,8 @@ export default function RootLayout() {
         <Outlet />
       </main>
       <footer className="bg-gray-100 dark:bg-gray-800 text-gray-500 text-center py-4 text-sm">
-        © {new Date().getFullYear()} RustCost · Open FinOps for Kubernetes
+        © {formatDate(new Date(), { year: "numeric" })} RustCost · Open FinOps
+        for Kubernetes
       </footer>
     </div>
   );
@@ -2,6 +2,7 @@ import { GlobeAltIcon } from "@heroicons/react/24/outline";
 import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS } from "@/constants/language";
 import type { LanguageCode } from "@/types/i18n";
 import CommonSelect from "@/shared/components/CommonSelect";
+import { storeLanguage } from "@/i18n/languagePreference";
 
 export default function LangSelect({
   value = DEFAULT_LANGUAGE,
@@ -17,7 +18,10 @@ export default function LangSelect({
   return (
     <CommonSelect
       value={value}
-      onChange={(val) => onChange?.(val as LanguageCode)}
+      onChange={(val) => {
+        storeLanguage(val as LanguageCode);
+        onChange?.(val as LanguageCode);
+      }}
       options={LANGUAGE_OPTIONS.map((opt) => ({
         label: opt.label,
         value: opt.code,
@@ -0,0 +1,82 @@
+import type { RouteObject } from "react-router-dom";
+import RootLayout from "@/app/layouts/RootLayout";
+import { languageRedirectLoader } from "@/app/languageRedirect";
+import DocsPage from "@/features/docs/pages/DocsPage";
+import DocsTagsPage from "@/features/docs/pages/DocsTagsPage";
+import { docsPageLoader } from "@/features/docs/lib/loaders";
+import LandingPage from "@/features/marketing/pages/LandingPage";
+import DownloadPage from "@/features/marketing/pages/DownloadPage";
+import SupportPage from "@/features/marketing/pages/SupportPage";
+import CommunityPage from "@/features/marketing/pages/CommunityPage";
+import BlogPage from "@/features/blog/pages/BlogPage";
+import BlogPost from "@/features/blog/pages/BlogPost";
+import BlogCollectionPage from "@/features/blog/pages/BlogCollectionPage";
+import { blogPostLoader } from "@/features/blog/lib/loaders";
+import ChangelogPage from "@/features/changelog/pages/ChangelogPage";
+import NotFoundPage from "@/features/errors/pages/NotFoundPage";
+import RouteErrorBoundary from "@/features/errors/components/RouteErrorBoundary";
+
+/**
+ * Route table shared by the browser router and the pre-renderer
+ * (`src/entry-server.tsx`).
+ */
+export const routes: RouteObject[] = [
+  {
+    path: "/",
+    loader: languageRedirectLoader,
+  },
+  {
+    path: "/:lng",
+    loader: languageRedirectLoader,
+    element: <RootLayout />,
+    errorElement: <RouteErrorBoundary />,
+    children: [
+      {
+        // Errors of the pages render inside RootLayout, keeping the navbar
+        // and footer.
+        errorElement: <RouteErrorBoundary />,
+        children: [
+          { index: true, element: <LandingPage /> },
+          {
+            path: "docs",
+            element: <DocsPage />,
+            loader: docsPageLoader,
+          },
+          {
+            path: `docs/:topic`,
+            element: <DocsPage />,
+            loader: docsPageLoader,
+          },
+          {
+            path: `docs/:version/:topic`,
+            element: <DocsPage />,
+            loader: docsPageLoader,
+          },
+          { path: "docs/tags", element: <DocsTagsPage /> },
+          { path: "docs/tags/:tag", element: <DocsTagsPage /> },
+          { path: "download", element: <DownloadPage /> },
+          { path: "changelog", element: <ChangelogPage /> },
+          { path: "community", element: <CommunityPage /> },
+          { path: "support", element: <SupportPage /> },
+          { path: "blog", element: <BlogPage /> },
+          { path: "blog/page/:page", element: <BlogPage /> },
+          { path: "blog/tag/:tag", element: <BlogCollectionPage kind="tag" /> },
+          {
+            path: "blog/author/:author",
+            element: <BlogCollectionPage kind="author" />,
+          },
+          {
+            path: "blog/archive/:year",
+            element: <BlogCollectionPage kind="archive" />,
+          },
+          {
+            path: `blog/:slug`,
+            element: <BlogPost />,
+            loader: blogPostLoader,
+          },
+          { path: "*", element: <NotFoundPage /> },
+        ],
+      },
+    ],
+  },
+];
@@ -0,0 +1,199 @@
+import {
+  buildLanguagePrefix,
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+} from "@/constants/language";
+import { NAVIGATION_LINKS } from "@/constants/routes";
+import {
+  collectBlogTags,
+  collectBlogYears,
+  getBlogPosts,
+  paginateBlogPosts,
+  type ResolvedBlogPost,
+} from "@/features/blog/lib/manifest";
+import {
+  buildBlogArchivePath,
+  buildBlogAuthorPath,
+  buildBlogPagePath,
+  buildBlogPath,
+  buildBlogTagPath,
+} from "@/features/blog/lib/paths";
+import { LATEST_DOCS_VERSION } from "@/features/docs/lib/content";
+import {
+  collectDocTags,
+  getDocsVersions,
+  getDocTopics,
+  resolveDoc,
+} from "@/features/docs/lib/manifest";
+import { buildDocsPath } from "@/features/docs/lib/paths";
+import type { DocMeta } from "@/types/docs";
+import type { LanguageCode } from "@/types/i18n";
+
+export type SitePage = {
+  /** URL path such as `/ko/docs/install`. */
+  path: string;
+  language: LanguageCode;
+  /** Last content change (YYYY-MM-DD), when the page is backed by content. */
+  lastmod?: string;
+  /**
+   * Drafts and hidden sections are pre-rendered for previews but kept out of
+   * the sitemap.
+   */
+  draft: boolean;
+  /**
+   * Language the content is written in, when it falls back from `language`.
+   * Such pages repeat the original and are kept out of the sitemap.
+   */
+  contentLanguage?: string;
+};
+
+const latestDate = (docs: DocMeta[]) =>
+  docs
+    .map((doc) => doc.lastUpdated)
+    .filter((date): date is string => Boolean(date))
+    .sort()
+    .at(-1);
+
+/**
+ * Every docs page of a language. Topics missing in that language are still
+ * listed because DocsPage falls back to another language's version.
+ */
+const getDocsPages = (language: LanguageCode): SitePage[] => {
+  const pages: SitePage[] = [];
+  for (const version of getDocsVersions()) {
+    const slugs = new Set(
+      SUPPORTED_LANGUAGES.flatMap((lng) =>
+        getDocTopics(version, lng).map((doc) => doc.slug)
+      )
+    );
+    for (const slug of slugs) {
+      const resolved = resolveDoc(version, language, slug, [
+        DEFAULT_LANGUAGE,
+        ...SUPPORTED_LANGUAGES,
+      ]);
+      pages.push({
+        path: buildDocsPath(language, version, slug),
+        language,
+        lastmod: resolved?.doc.lastUpdated,
+        draft: Boolean(resolved?.doc.draft),
+        contentLanguage: resolved?.language,
+      });
+    }
+  }
+
+  const tagsPath = `${buildDocsPath(language)}/tags`;
+  const tagGroups = collectDocTags(LATEST_DOCS_VERSION, language, [
+    DEFAULT_LANGUAGE,
+    ...SUPPORTED_LANGUAGES,
+  ]);
+  pages.push({
+    path: tagsPath,
+    language,
+    lastmod: latestDate(
+      tagGroups.flatMap((group) => group.docs.map(({ doc }) => doc))
+    ),
+    draft: false,
+  });
+  for (const { tag, docs } of tagGroups) {
+    const published = docs.map(({ doc }) => doc).filter((doc) => !doc.draft);
+    pages.push({
+      path: `${tagsPath}/${encodeURIComponent(tag)}`,
+      language,
+      lastmod: latestDate(published),
+      draft: published.length === 0,
+    });
+  }
+  return pages;
+};
+
+/**
+ * The blog index pages and every post of a language, including posts that
+ * are only written in another language.
+ */
+const getBlogPages = (language: LanguageCode): SitePage[] => {
+  const posts = getBlogPosts(language, [
+    DEFAULT_LANGUAGE,
+    ...SUPPORTED_LANGUAGES,
+  ]);
+  const pages: SitePage[] = [];
+  const pageCount = paginateBlogPosts(posts, 1)?.pageCount ?? 1;
+  for (let page = 1; page <= pageCount; page++) {
+    pages.push({
+      path: buildBlogPagePath(language, page),
+      language,
+      lastmod: paginateBlogPosts(posts, page)?.posts[0]?.post.date,
+      draft: false,
+    });
+  }
+  for (const { post, language: contentLanguage } of posts) {
+    pages.push({
+      path: buildBlogPath(language, post.slug),
+      language,
+      lastmod: post.date,
+      draft: post.draft,
+      contentLanguage,
+    });
+  }
+
+  // Posts are newest first, so the first match is the collection's lastmod.
+  const addCollection = (
+    path: string,
+    matches: (entry: ResolvedBlogPost) => boolean
+  ) => {
+    const published = posts.filter(
+      (entry) => !entry.post.draft && matches(entry)
+    );
+    pages.push({
+      path,
+      language,
+      lastmod: published[0]?.post.date,
+      draft: published.length === 0,
+    });
+  };
+  for (const { tag } of collectBlogTags(posts)) {
+    addCollection(buildBlogTagPath(language, tag), ({ post }) =>
+      post.tags.includes(tag)
+    );
+  }
+  const authors = new Set(posts.flatMap(({ post }) => post.author ?? []));
+  for (const author of authors) {
+    addCollection(
+      buildBlogAuthorPath(language, author),
+      ({ post }) => post.author === author
+    );
+  }
+  for (const year of collectBlogYears(posts)) {
+    addCollection(buildBlogArchivePath(language, year), ({ post }) =>
+      post.date.startsWith(`${year}-`)
+    );
+  }
+  return pages;
+};
+
+/**
+ * Lists every page of `routes.tsx` for every supported language. The build
+ * pre-renders each of them and lists the non-draft ones in `sitemap.xml`.
+ *
+ * @returns Pages with unique paths, grouped by language.
+ */
+export function getSitePages(): SitePage[] {
+  const pages = new Map<string, SitePage>();
+  const add = (page: SitePage) => {
+    if (!pages.has(page.path)) pages.set(page.path, page);
+  };
+
+  for (const language of SUPPORTED_LANGUAGES) {
+    const prefix = buildLanguagePrefix(language);
+    for (const link of NAVIGATION_LINKS) {
+      if (link.segment === "docs" || link.segment === "blog") continue;
+      add({
+        path: link.segment ? `${prefix}/${link.segment}` : prefix,
+        language,
+        draft: Boolean(link.hidden),
+      });
+    }
+    getDocsPages(language).forEach(add);
+    getBlogPages(language).forEach(add);
+  }
+  return [...pages.values()];
+}
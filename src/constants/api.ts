@@ -1,6 +1,10 @@
 export const API_TIMEOUT_MS = 20000;
 export const API_BASE_URL = import.meta.env?.VITE_API_BASE_URL ?? "/api";
-export const DOCKER_HUB_BASE_URL = "https://hub.docker.com/v2/";
-export const DOCKER_DASHBOARD_PATH =
-  "repositories/kimc1992/rustcost-dashboard/tags";
+/** Docker Hub's API has no CORS headers; requests go through the `/docker-hub` proxy. */
+export const DOCKER_HUB_BASE_URL = "/docker-hub/v2/";
+export const DOCKER_HUB_API_URL = "https://hub.docker.com/v2/";
 export const DEFAULT_DOCKER_TAG_PAGE_SIZE = 100;
+/** Upper bound on followed `next` links, so a runaway repository can't loop. */
+export const MAX_DOCKER_TAG_PAGES = 10;
+export const DOCKER_TAGS_CACHE_KEY_PREFIX = "rustcost:docker-tags:";
+export const DOCKER_TAGS_CACHE_TTL_MS = 60 * 60 * 1000;
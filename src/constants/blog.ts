@@ -0,0 +1,34 @@
+import type { BlogAuthor, BlogFeedFormat, BlogSeries } from "@/types/blog";
+
+/** Number of posts per page of the blog index. */
+export const BLOG_PAGE_SIZE = 6;
+
+/** File name and media type of each blog feed, served under `/:lng/blog/`. */
+export const BLOG_FEEDS: Record<
+  BlogFeedFormat,
+  { file: string; type: string; label: string }
+> = {
+  rss: { file: "rss.xml", type: "application/rss+xml", label: "RSS" },
+  atom: { file: "atom.xml", type: "application/atom+xml", label: "Atom" },
+  json: { file: "feed.json", type: "application/feed+json", label: "JSON Feed" },
+};
+
+/** Number of related posts shown under a post. */
+export const BLOG_RELATED_POSTS = 3;
+
+export const BLOG_AUTHORS: BlogAuthor[] = [
+  {
+    id: "rustcost-team",
+    name: "RustCost Team",
+    avatar: "/logo.webp",
+    bio: "The maintainers of RustCost, building lightweight FinOps observability for Kubernetes.",
+    links: [
+      { label: "GitHub", href: "https://github.com/rustcost/rustcost" },
+      { label: "Website", href: "https://rustcost.com" },
+    ],
+  },
+];
+
+export const BLOG_SERIES: BlogSeries[] = [
+  { id: "finops-on-kubernetes", title: "FinOps on Kubernetes" },
+];
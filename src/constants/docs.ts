@@ -0,0 +1,5 @@
+export const SITE_REPOSITORY_URL = "https://github.com/rustcost/rustcost-site";
+
+/** Base of the "Edit this page" links, followed by `<version>/<lng>/<file>.md`. */
+export const DOCS_EDIT_BASE_URL =
+  `${SITE_REPOSITORY_URL}/edit/main/src/features/docs/content`;
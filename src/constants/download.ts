@@ -1,8 +1,13 @@
+import helmChartVersions from "@/constants/helmChartVersions.json";
 import type { DownloadProduct } from "@/types/download";
 
-export const HELM_INSTALL_COMMAND = `helm repo add rustcost https://rustcost.github.io/rustcost-helmchart/
-helm repo update
-helm upgrade --install rustcost rustcost/rustcost -n rustcost --create-namespace --version 1.0.0-dev.14`;
+/** Published chart versions, newest first. Refreshed by `npm run helm:versions`. */
+export const HELM_CHART_VERSIONS: string[] = helmChartVersions.versions;
+export const HELM_CHART_VERSION = HELM_CHART_VERSIONS[0];
+export const HELM_REPOSITORY_NAME = "rustcost";
+export const HELM_REPOSITORY_URL =
+  "https://rustcost.github.io/rustcost-helmchart/";
+export const HELM_CHART_NAME = `${HELM_REPOSITORY_NAME}/rustcost`;
 
 export const CORE_IMAGE_NAME = "kimc1992/rustcost-core";
 export const DASHBOARD_IMAGE_NAME = "kimc1992/rustcost-dashboard";
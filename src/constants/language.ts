@@ -1,4 +1,20 @@
-import type { LanguageCode, LanguageOption } from "@/types/i18n";
+import type {
+  LanguageCode,
+  LanguageOption,
+  LocaleDefinition,
+} from "@/types/i18n";
+
+/**
+ * Registry of every supported locale, keyed by language code. The code is
+ * also the URL prefix, the `src/i18n/locales/<code>/` bundle folder and the
+ * docs and blog content folder, so adding a language starts here.
+ */
+export const LOCALES = {
+  en: { label: "English", ogLocale: "en_US", ogImage: true },
+  ko: { label: "한국어", ogLocale: "ko_KR", ogImage: true },
+  ja: { label: "日本語", ogLocale: "ja_JP", ogImage: false },
+  "zh-CN": { label: "简体中文", ogLocale: "zh_CN", ogImage: false },
+} as const satisfies Record<string, LocaleDefinition>;
 
 /**
  * The default language used when no valid language code is provided.
@@ -7,14 +23,17 @@ import type { LanguageCode, LanguageOption } from "@/types/i18n";
 export const DEFAULT_LANGUAGE: LanguageCode = "en";
 
 /**
- * Display-ready language options used by UI components.
- * Contains both the internal language code and the label shown to users.
- * Acts as the single source of truth for language selection UIs.
+ * localStorage key of the language the visitor picked in the language menu.
+ * Also read by the i18next language detector.
+ */
+export const LANGUAGE_STORAGE_KEY = "rustcost:language";
+
+/**
+ * Display-ready language options used by UI components, in registry order.
  */
-export const LANGUAGE_OPTIONS: LanguageOption[] = [
-  { code: "en", label: "English" },
-  { code: "ko", label: "한국어" },
-];
+export const LANGUAGE_OPTIONS: LanguageOption[] = (
+  Object.keys(LOCALES) as LanguageCode[]
+).map((code) => ({ code, label: LOCALES[code].label }));
 
 /**
  * A derived list of supported languages extracted from LANGUAGE_OPTIONS.
@@ -43,6 +62,37 @@ export const isLanguageCode = (value?: string | null): value is LanguageCode =>
 export const normalizeLanguageCode = (value?: string | null): LanguageCode =>
   isLanguageCode(value) ? value : DEFAULT_LANGUAGE;
 
+/**
+ * Picks the first supported language from a list of BCP 47 tags, in order
+ * of preference, such as `navigator.languages`. Tags match case-insensitively
+ * by full code first, then by base language (`ja-JP` → `ja`, `zh` → `zh-CN`).
+ *
+ * @param tags - Language tags, most preferred first.
+ * @returns The matched LanguageCode, or undefined when none is supported.
+ */
+export const matchLanguageCode = (
+  tags: readonly string[]
+): LanguageCode | undefined => {
+  const baseOf = (tag: string) => tag.toLowerCase().split("-")[0];
+  for (const tag of tags) {
+    const match =
+      SUPPORTED_LANGUAGES.find(
+        (code) => code.toLowerCase() === tag.toLowerCase()
+      ) ?? SUPPORTED_LANGUAGES.find((code) => baseOf(code) === baseOf(tag));
+    if (match) return match;
+  }
+  return undefined;
+};
+
+/**
+ * Returns the display label of a language, e.g. "한국어" for "ko".
+ *
+ * @param value - The language code.
+ * @returns The label from LANGUAGE_OPTIONS, or the code itself when unknown.
+ */
+export const getLanguageLabel = (value: string): string =>
+  isLanguageCode(value) ? LOCALES[value].label : value;
+
 /**
  * Builds a URL prefix (e.g., "/en", "/ko") from the given language.
  * Ensures the resulting value always contains a valid language code.
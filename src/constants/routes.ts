@@ -1,3 +1,4 @@
+import { hasReleaseNotes } from "@/features/changelog/lib/changelog";
 import type { DocSidebarLink, NavLinkConfig } from "@/types/routes";
 
 export const NAVIGATION_LINKS: NavLinkConfig[] = [
@@ -13,6 +14,13 @@ export const NAVIGATION_LINKS: NavLinkConfig[] = [
     i18nKey: "navbar.download",
     segment: "download",
   },
+  {
+    key: "changelog",
+    i18nKey: "navbar.changelog",
+    segment: "changelog",
+    // Until `npm run changelog:releases` has committed a snapshot.
+    hidden: !hasReleaseNotes(),
+  },
   {
     key: "community",
     i18nKey: "navbar.community",
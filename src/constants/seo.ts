@@ -0,0 +1,48 @@
+import {
+  DEFAULT_LANGUAGE,
+  isLanguageCode,
+  LOCALES,
+  replaceLanguageInPath,
+} from "@/constants/language";
+
+/**
+ * Public origin of the site without a trailing slash, from `VITE_SITE_URL`.
+ * Used for canonical and hreflang links and for the generated sitemap.
+ */
+export const SITE_URL =
+  import.meta.env.VITE_SITE_URL?.replace(/\/$/, "") || "https://rustcost.dev";
+
+/** Size of the generated Open Graph images. */
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+/**
+ * Language whose Open Graph images a language's pages use: its own, or the
+ * default language's when the image font cannot render it (see
+ * `LocaleDefinition.ogImage`).
+ *
+ * @param language - The page language.
+ * @returns The language the page's image is generated for.
+ */
+export const getOgImageLanguage = (language: string): string =>
+  isLanguageCode(language) && !LOCALES[language].ogImage
+    ? DEFAULT_LANGUAGE
+    : language;
+
+/**
+ * Path of the Open Graph image generated for a page at build time
+ * (`scripts/prerender.ts`): `/ko/docs/install` → `/og/ko/docs/install.png`,
+ * and `/ja/docs/install` → `/og/en/docs/install.png`.
+ *
+ * @param pathname - The page path, without query string.
+ * @returns The image path relative to the site root.
+ */
+export const buildOgImagePath = (pathname: string) => {
+  const language = pathname.split("/")[1];
+  const imageLanguage = getOgImageLanguage(language);
+  const source =
+    imageLanguage === language || !isLanguageCode(imageLanguage)
+      ? pathname
+      : replaceLanguageInPath(pathname, imageLanguage);
+  return `/og${source.replace(/\/+$/, "") || "/index"}.png`;
+};
@@ -0,0 +1,96 @@
+import React from "react";
+import { renderToString } from "react-dom/server";
+import {
+  createStaticHandler,
+  createStaticRouter,
+  StaticRouterProvider,
+} from "react-router-dom";
+import { HelmetProvider, type HelmetServerState } from "react-helmet-async";
+import i18n from "@/i18n/i18n";
+import { routes } from "@/app/routes";
+import { normalizeLanguageCode } from "@/constants/language";
+import { NAVIGATION_LINKS } from "@/constants/routes";
+import { getBlogFeed } from "@/features/blog/lib/feed";
+import type { BlogFeed } from "@/types/blog";
+
+export { getSitePages } from "@/app/sitePages";
+export { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from "@/constants/language";
+export {
+  buildOgImagePath,
+  getOgImageLanguage,
+  OG_IMAGE_HEIGHT,
+  OG_IMAGE_WIDTH,
+  SITE_URL,
+} from "@/constants/seo";
+
+export type RenderResult = {
+  /** Markup for `#root`, including the router hydration data script. */
+  html: string;
+  /** Tags collected by react-helmet-async, ready to go into `<head>`. */
+  head: string;
+  htmlAttributes: string;
+  /** Localized navbar label of the page's section; empty on the home page. */
+  section: string;
+};
+
+const { query, dataRoutes } = createStaticHandler(routes);
+
+/**
+ * Renders one route to HTML for the build-time pre-renderer
+ * (`scripts/prerender.ts`). Route loaders run first, so the page is
+ * rendered with its content instead of a loading state.
+ *
+ * @param path - The URL path, e.g. `/ko/docs/install`.
+ * @returns The rendered page, or null when the route redirects.
+ */
+export async function render(path: string): Promise<RenderResult | null> {
+  const context = await query(new Request(`http://localhost${path}`));
+  if (context instanceof Response) {
+    return null;
+  }
+
+  const [, lng, segment = ""] = path.split("/");
+  await i18n.changeLanguage(normalizeLanguageCode(lng));
+  const sectionLink = NAVIGATION_LINKS.find(
+    (link) => link.segment && link.segment === segment
+  );
+
+  const helmetContext: { helmet?: HelmetServerState } = {};
+  const html = renderToString(
+    <React.StrictMode>
+      <HelmetProvider context={helmetContext}>
+        <StaticRouterProvider
+          router={createStaticRouter(dataRoutes, context)}
+          context={context}
+        />
+      </HelmetProvider>
+    </React.StrictMode>
+  );
+
+  const helmet = helmetContext.helmet;
+  return {
+    html,
+    head: helmet
+      ? [helmet.title, helmet.priority, helmet.meta, helmet.link, helmet.script]
+          .map((tags) => tags.toString())
+          .filter(Boolean)
+          .join("\n    ")
+      : "",
+    htmlAttributes: helmet?.htmlAttributes.toString() ?? "",
+    section: sectionLink ? i18n.t(sectionLink.i18nKey) : "",
+  };
+}
+
+/**
+ * Collects the blog feed of a language with its localized title, for the
+ * feed files written by the pre-renderer.
+ *
+ * @param language - The feed language.
+ */
+export async function renderBlogFeed(language: string): Promise<BlogFeed> {
+  await i18n.changeLanguage(language);
+  return getBlogFeed(language, {
+    title: i18n.t("seo.blog.title", { defaultValue: "RustCost Blog" }),
+    description: i18n.t("seo.blog.description"),
+  });
+}
@@ -0,0 +1,35 @@
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+
+type BlogNotFoundProps = {
+  /** Route of the blog index. */
+  backTo: string;
+  title: string;
+  message: string;
+};
+
+export default function BlogNotFound({
+  backTo,
+  title,
+  message,
+}: BlogNotFoundProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="mx-auto max-w-xl py-16 text-center">
+      <p className="text-sm font-semibold uppercase tracking-[0.2em] text-blue-600 dark:text-amber-400">
+        404
+      </p>
+      <h1 className="mt-3 text-3xl font-extrabold text-gray-900 dark:text-white">
+        {title}
+      </h1>
+      <p className="mt-3 text-gray-600 dark:text-gray-300">{message}</p>
+      <Link
+        to={backTo}
+        className="mt-6 inline-flex items-center rounded-md border border-gray-200 px-4 py-2 text-sm font-medium text-gray-800 shadow-sm transition hover:border-blue-300 hover:bg-blue-50 dark:border-gray-700 dark:text-gray-100 dark:hover:border-amber-500/60 dark:hover:bg-amber-900/30"
+      >
+        ‹ {t("blog.notFound.back", { defaultValue: "Back to the blog" })}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+import { buildBlogPagePath } from "@/features/blog/lib/paths";
+
+type BlogPaginationProps = {
+  language: string;
+  /** 1-based current page. */
+  page: number;
+  pageCount: number;
+};
+
+const BASE_PAGINATION_STYLES = {
+  item: "inline-flex min-w-9 items-center justify-center rounded-md border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-700 transition hover:border-blue-300 hover:bg-blue-50 dark:border-gray-700 dark:text-gray-200 dark:hover:border-amber-500/60 dark:hover:bg-amber-900/30",
+  current:
+    "border-blue-600 bg-blue-50 text-blue-800 dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-100",
+};
+
+export default function BlogPagination({
+  language,
+  page,
+  pageCount,
+}: BlogPaginationProps) {
+  const { t } = useTranslation();
+  if (pageCount <= 1) return null;
+
+  const pages = Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  return (
+    <nav
+      aria-label={t("blog.pagination.label", { defaultValue: "Blog pages" })}
+      className="mt-10 flex flex-wrap items-center justify-center gap-2 select-none"
+    >
+      {page > 1 && (
+        <Link
+          to={buildBlogPagePath(language, page - 1)}
+          rel="prev"
+          className={BASE_PAGINATION_STYLES.item}
+        >
+          ‹ {t("blog.pagination.newer", { defaultValue: "Newer posts" })}
+        </Link>
+      )}
+      <ol className="flex flex-wrap items-center gap-2">
+        {pages.map((n) => (
+          <li key={n}>
+            <Link
+              to={buildBlogPagePath(language, n)}
+              aria-current={n === page ? "page" : undefined}
+              aria-label={t("blog.pagination.page", {
+                defaultValue: "Page {{page}}",
+                page: n,
+              })}
+              className={twMerge(
+                BASE_PAGINATION_STYLES.item,
+                n === page && BASE_PAGINATION_STYLES.current
+              )}
+            >
+              {n}
+            </Link>
+          </li>
+        ))}
+      </ol>
+      {page < pageCount && (
+        <Link
+          to={buildBlogPagePath(language, page + 1)}
+          rel="next"
+          className={BASE_PAGINATION_STYLES.item}
+        >
+          {t("blog.pagination.older", { defaultValue: "Older posts" })} ›
+        </Link>
+      )}
+    </nav>
+  );
+}
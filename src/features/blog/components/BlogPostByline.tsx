@@ -0,0 +1,84 @@
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+import { useFormatters } from "@/shared/hooks/useFormatters";
+import { localizeBlogAuthor } from "@/features/blog/lib/authors";
+import { getBlogAuthor } from "@/features/blog/lib/manifest";
+import {
+  buildBlogArchivePath,
+  buildBlogAuthorPath,
+} from "@/features/blog/lib/paths";
+import type { BlogPostMeta } from "@/types/blog";
+
+type BlogPostBylineProps = {
+  post: BlogPostMeta;
+  /** Route language. */
+  language: string;
+  className?: string;
+};
+
+const BASE_BYLINE_STYLES = {
+  wrapper:
+    "flex flex-wrap items-center gap-x-2 text-xs text-gray-500 dark:text-gray-400",
+  link: "transition hover:text-blue-700 dark:hover:text-amber-200",
+};
+
+export default function BlogPostByline({
+  post,
+  language,
+  className,
+}: BlogPostBylineProps) {
+  const { t } = useTranslation();
+  const { formatDate } = useFormatters();
+  const author = post.author ? getBlogAuthor(post.author) : undefined;
+  const authorName = author ? localizeBlogAuthor(author, t).name : post.author;
+
+  return (
+    <div className={twMerge(BASE_BYLINE_STYLES.wrapper, className)}>
+      <Link
+        to={buildBlogArchivePath(language, post.date.slice(0, 4))}
+        className={BASE_BYLINE_STYLES.link}
+      >
+        <time dateTime={post.date}>{formatDate(post.date)}</time>
+      </Link>
+      <span aria-hidden="true">·</span>
+      <span>
+        {t("blog.readingTime", {
+          defaultValue: "{{count}} min read",
+          count: post.readingMinutes,
+        })}
+      </span>
+      {authorName && (
+        <>
+          <span aria-hidden="true">·</span>
+          {author ? (
+            <Link
+              to={buildBlogAuthorPath(language, author.id)}
+              className={twMerge(
+                BASE_BYLINE_STYLES.link,
+                "inline-flex items-center gap-1.5"
+              )}
+            >
+              <img
+                src={author.avatar}
+                alt=""
+                className="h-5 w-5 rounded-full border border-gray-200 object-cover dark:border-gray-700"
+              />
+              {t("blog.byAuthor", {
+                defaultValue: "By {{author}}",
+                author: authorName,
+              })}
+            </Link>
+          ) : (
+            <span>
+              {t("blog.byAuthor", {
+                defaultValue: "By {{author}}",
+                author: authorName,
+              })}
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Link } from "react-router-dom";
+import BlogPostByline from "@/features/blog/components/BlogPostByline";
+import BlogTagList from "@/features/blog/components/BlogTagList";
+import { buildBlogPath } from "@/features/blog/lib/paths";
+import type { BlogPostMeta } from "@/types/blog";
+
+type BlogPostCardProps = {
+  post: BlogPostMeta;
+  /** Route language. */
+  language: string;
+  /** Language the post is written in, when it differs from the route. */
+  contentLanguage?: string;
+};
+
+export default function BlogPostCard({
+  post,
+  language,
+  contentLanguage,
+}: BlogPostCardProps) {
+  const to = buildBlogPath(language, post.slug);
+
+  return (
+    <article
+      lang={contentLanguage}
+      className="group flex flex-col overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm transition hover:border-blue-400 hover:shadow-md dark:border-gray-800 dark:bg-gray-900 dark:hover:border-amber-500/60"
+    >
+      {post.cover && (
+        <Link to={to} tabIndex={-1} aria-hidden="true">
+          <img
+            src={post.cover}
+            alt=""
+            loading="lazy"
+            className="aspect-[1200/630] w-full object-cover"
+          />
+        </Link>
+      )}
+      <div className="flex flex-1 flex-col gap-2 p-5">
+        <BlogPostByline post={post} language={language} />
+        <h2 className="text-lg font-bold leading-snug text-gray-900 dark:text-gray-50">
+          <Link
+            to={to}
+            className="transition group-hover:text-blue-700 dark:group-hover:text-amber-200"
+          >
+            {post.title}
+          </Link>
+        </h2>
+        {post.summary && (
+          <p className="text-sm leading-relaxed text-gray-600 dark:text-gray-300">
+            {post.summary}
+          </p>
+        )}
+        <BlogTagList
+          tags={post.tags}
+          language={language}
+          className="mt-auto pt-2"
+        />
+      </div>
+    </article>
+  );
+}
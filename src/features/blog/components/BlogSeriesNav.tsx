@@ -0,0 +1,107 @@
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+import type { ResolvedBlogPost } from "@/features/blog/lib/manifest";
+import { buildBlogPath } from "@/features/blog/lib/paths";
+import type { BlogPostMeta, BlogSeries } from "@/types/blog";
+
+type BlogSeriesNavProps = {
+  series: BlogSeries;
+  /** Every part of the series in reading order. */
+  parts: ResolvedBlogPost[];
+  /** The post being read. */
+  current: BlogPostMeta;
+  /** Route language. */
+  language: string;
+  className?: string;
+};
+
+const BASE_SERIES_STYLES = {
+  wrapper:
+    "rounded-xl border border-gray-200 bg-gray-50/70 p-5 dark:border-gray-800 dark:bg-gray-900/60",
+  part: "block rounded-md px-2 py-1 transition",
+  pager:
+    "text-sm font-medium text-blue-600 hover:underline dark:text-amber-400",
+};
+
+export default function BlogSeriesNav({
+  series,
+  parts,
+  current,
+  language,
+  className,
+}: BlogSeriesNavProps) {
+  const { t } = useTranslation();
+  const index = parts.findIndex(({ post }) => post.slug === current.slug);
+  const prev = index > 0 ? parts[index - 1] : undefined;
+  const next = index >= 0 ? parts[index + 1] : undefined;
+
+  return (
+    <nav
+      lang={language}
+      aria-label={t("blog.seriesNav.label", { defaultValue: "Series" })}
+      className={twMerge(BASE_SERIES_STYLES.wrapper, className)}
+    >
+      <div className="text-xs font-semibold uppercase tracking-[0.2em] text-gray-500 dark:text-gray-400">
+        {t("blog.seriesNav.part", {
+          defaultValue: "Part {{part}} of {{count}}",
+          part: index + 1,
+          count: parts.length,
+        })}
+      </div>
+      <div className="mt-1 text-lg font-bold text-gray-900 dark:text-gray-50">
+        {t(`blog.series.${series.id}.title`, { defaultValue: series.title })}
+      </div>
+      <ol className="mt-3 space-y-1 text-sm">
+        {parts.map(({ post }, i) => (
+          <li key={post.slug}>
+            {post.slug === current.slug ? (
+              <span
+                aria-current="page"
+                className={twMerge(
+                  BASE_SERIES_STYLES.part,
+                  "bg-blue-50 font-semibold text-blue-800 dark:bg-amber-900/30 dark:text-amber-100"
+                )}
+              >
+                {i + 1}. {post.title}
+              </span>
+            ) : (
+              <Link
+                to={buildBlogPath(language, post.slug)}
+                className={twMerge(
+                  BASE_SERIES_STYLES.part,
+                  "text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800/60"
+                )}
+              >
+                {i + 1}. {post.title}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+      {(prev || next) && (
+        <div className="mt-4 flex flex-wrap justify-between gap-3 border-t border-gray-200 pt-3 dark:border-gray-800">
+          {prev ? (
+            <Link
+              to={buildBlogPath(language, prev.post.slug)}
+              className={BASE_SERIES_STYLES.pager}
+            >
+              ‹{" "}
+              {t("blog.seriesNav.previous", { defaultValue: "Previous part" })}
+            </Link>
+          ) : (
+            <span />
+          )}
+          {next && (
+            <Link
+              to={buildBlogPath(language, next.post.slug)}
+              className={BASE_SERIES_STYLES.pager}
+            >
+              {t("blog.seriesNav.next", { defaultValue: "Next part" })} ›
+            </Link>
+          )}
+        </div>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,33 @@
+import { Link } from "react-router-dom";
+import { twMerge } from "tailwind-merge";
+import { buildBlogTagPath } from "@/features/blog/lib/paths";
+
+type BlogTagListProps = {
+  tags: string[];
+  /** Route language. */
+  language: string;
+  className?: string;
+};
+
+export default function BlogTagList({
+  tags,
+  language,
+  className,
+}: BlogTagListProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <ul className={twMerge("flex flex-wrap gap-1.5 text-xs", className)}>
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Link
+            to={buildBlogTagPath(language, tag)}
+            className="inline-block rounded-full border border-gray-200 px-2.5 py-0.5 font-medium text-gray-600 transition hover:border-blue-400 hover:text-blue-700 dark:border-gray-700 dark:text-gray-300 dark:hover:border-amber-500/60 dark:hover:text-amber-200"
+          >
+            #{tag}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
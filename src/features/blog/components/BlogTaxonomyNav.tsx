@@ -0,0 +1,93 @@
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+import { useFormatters } from "@/shared/hooks/useFormatters";
+import {
+  collectBlogTags,
+  collectBlogYears,
+  type ResolvedBlogPost,
+} from "@/features/blog/lib/manifest";
+import {
+  buildBlogArchivePath,
+  buildBlogTagPath,
+} from "@/features/blog/lib/paths";
+
+type BlogTaxonomyNavProps = {
+  /** Every post of the route language. */
+  posts: ResolvedBlogPost[];
+  language: string;
+  activeTag?: string;
+  activeYear?: string;
+};
+
+const BASE_TAXONOMY_STYLES = {
+  label:
+    "mr-1 text-xs font-semibold uppercase tracking-[0.2em] text-gray-500 dark:text-gray-400",
+  chip: "rounded-full border px-3 py-1 text-sm font-medium transition border-gray-200 text-gray-700 hover:border-blue-300 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-300 dark:hover:border-amber-500/60 dark:hover:bg-gray-800/70",
+  active:
+    "border-blue-600 bg-blue-50 text-blue-800 dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-100",
+};
+
+export default function BlogTaxonomyNav({
+  posts,
+  language,
+  activeTag,
+  activeYear,
+}: BlogTaxonomyNavProps) {
+  const { t } = useTranslation();
+  const { formatCompactNumber } = useFormatters();
+  const tags = collectBlogTags(posts);
+  const years = collectBlogYears(posts);
+  if (tags.length === 0 && years.length === 0) return null;
+
+  return (
+    <nav
+      aria-label={t("blog.taxonomy.label", { defaultValue: "Browse posts" })}
+      className="mb-8 flex flex-col gap-3 select-none"
+    >
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={BASE_TAXONOMY_STYLES.label}>
+            {t("blog.taxonomy.tags", { defaultValue: "Tags" })}
+          </span>
+          {tags.map(({ tag, count }) => (
+            <Link
+              key={tag}
+              to={buildBlogTagPath(language, tag)}
+              aria-current={tag === activeTag ? "page" : undefined}
+              className={twMerge(
+                BASE_TAXONOMY_STYLES.chip,
+                tag === activeTag && BASE_TAXONOMY_STYLES.active
+              )}
+            >
+              #{tag}{" "}
+              <span className="text-xs opacity-70">
+                {formatCompactNumber(count)}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+      {years.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={BASE_TAXONOMY_STYLES.label}>
+            {t("blog.taxonomy.archive", { defaultValue: "Archive" })}
+          </span>
+          {years.map((year) => (
+            <Link
+              key={year}
+              to={buildBlogArchivePath(language, year)}
+              aria-current={year === activeYear ? "page" : undefined}
+              className={twMerge(
+                BASE_TAXONOMY_STYLES.chip,
+                year === activeYear && BASE_TAXONOMY_STYLES.active
+              )}
+            >
+              {year}
+            </Link>
+          ))}
+        </div>
+      )}
+    </nav>
+  );
+}
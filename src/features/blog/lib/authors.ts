@@ -0,0 +1,16 @@
+import type { TFunction } from "i18next";
+import type { BlogAuthor } from "@/types/blog";
+
+/**
+ * Returns the translated name and bio of an author. The English text in
+ * `BLOG_AUTHORS` is the fallback.
+ *
+ * @param author - The author profile.
+ * @param t - The translation function of the current language.
+ */
+export function localizeBlogAuthor(author: BlogAuthor, t: TFunction) {
+  return {
+    name: t(`blog.authors.${author.id}.name`, { defaultValue: author.name }),
+    bio: t(`blog.authors.${author.id}.bio`, { defaultValue: author.bio }),
+  };
+}
@@ -0,0 +1,104 @@
+import { createElement, type ReactNode } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown, { defaultUrlTransform } from "react-markdown";
+import remarkDirective from "remark-directive";
+import remarkGfm from "remark-gfm";
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from "@/constants/language";
+import { SITE_URL } from "@/constants/seo";
+import i18n from "@/i18n/i18n";
+import type { CalloutType } from "@/shared/components/Callout";
+import { BLOG_FEEDS } from "@/constants/blog";
+import { loadBlogPostMarkdown } from "@/features/blog/lib/loaders";
+import { localizeBlogAuthor } from "@/features/blog/lib/authors";
+import { getBlogAuthor, getBlogPosts } from "@/features/blog/lib/manifest";
+import { buildBlogFeedPath, buildBlogPath } from "@/features/blog/lib/paths";
+import remarkDocBlocks from "@/features/docs/lib/remarkDocBlocks";
+import type { BlogFeed, BlogFeedFormat } from "@/types/blog";
+
+/**
+ * Renders a post body to plain HTML for feed readers: no site styles,
+ * absolute URLs, and callouts as titled block quotes.
+ */
+const renderFeedHtml = (markdown: string, baseUrl: string) =>
+  renderToStaticMarkup(
+    createElement(ReactMarkdown, {
+      remarkPlugins: [remarkGfm, remarkDirective, remarkDocBlocks],
+      urlTransform: (url) => {
+        const safe = defaultUrlTransform(url);
+        return safe ? new URL(safe, baseUrl).href : safe;
+      },
+      components: {
+        aside({ node, children }) {
+          const type = node?.properties?.["dataCallout"];
+          const title =
+            node?.properties?.["dataTitle"] ??
+            (type
+              ? i18n.t(`callout.${String(type) as CalloutType}`)
+              : undefined);
+          return createElement(
+            "blockquote",
+            null,
+            title
+              ? createElement(
+                  "p",
+                  null,
+                  createElement("strong", null, String(title))
+                )
+              : null,
+            children as ReactNode
+          );
+        },
+      },
+      children: markdown,
+    })
+  );
+
+/**
+ * Collects the feed of one language with every post rendered to HTML,
+ * newest first. Used by the pre-renderer to write the feed files.
+ *
+ * @param language - The feed language.
+ * @param text - Localized feed title and description.
+ */
+export async function getBlogFeed(
+  language: string,
+  text: { title: string; description: string }
+): Promise<BlogFeed> {
+  const posts = getBlogPosts(language, [
+    DEFAULT_LANGUAGE,
+    ...SUPPORTED_LANGUAGES,
+  ]).filter(({ post }) => !post.draft);
+
+  const items = await Promise.all(
+    posts.map(async (resolved) => {
+      const { post } = resolved;
+      const url = `${SITE_URL}${buildBlogPath(language, post.slug)}`;
+      const markdown = await loadBlogPostMarkdown(resolved);
+      const author = post.author ? getBlogAuthor(post.author) : undefined;
+      return {
+        url,
+        title: post.title,
+        date: post.date,
+        author: author ? localizeBlogAuthor(author, i18n.t).name : post.author,
+        tags: post.tags,
+        summary: post.summary,
+        contentHtml: renderFeedHtml(markdown.body, url),
+        language: resolved.language,
+      };
+    })
+  );
+
+  const formats = Object.keys(BLOG_FEEDS) as BlogFeedFormat[];
+  return {
+    ...text,
+    language,
+    homeUrl: `${SITE_URL}${buildBlogPath(language)}`,
+    feedUrls: Object.fromEntries(
+      formats.map((format) => [
+        format,
+        `${SITE_URL}${buildBlogFeedPath(language, format)}`,
+      ])
+    ) as Record<BlogFeedFormat, string>,
+    items,
+  };
+}
@@ -0,0 +1,71 @@
+import { data, type LoaderFunctionArgs } from "react-router-dom";
+import {
+  DEFAULT_LANGUAGE,
+  normalizeLanguageCode,
+  SUPPORTED_LANGUAGES,
+} from "@/constants/language";
+import {
+  resolveBlogPost,
+  type ResolvedBlogPost,
+} from "@/features/blog/lib/manifest";
+import type { MarkdownModule } from "@/types/markdown";
+
+const postFiles = import.meta.glob<MarkdownModule>("../content/*/*.md", {
+  query: "?markdown",
+  import: "default",
+});
+
+const postCache = new Map<string, Promise<MarkdownModule>>();
+
+function loadPost(fileKey: string): Promise<MarkdownModule> {
+  const loader = postFiles[fileKey];
+  if (!loader) {
+    return Promise.reject(new Error("Blog post not found for key: " + fileKey));
+  }
+
+  if (!postCache.has(fileKey)) {
+    const pending = loader();
+    pending.catch(() => postCache.delete(fileKey));
+    postCache.set(fileKey, pending);
+  }
+
+  return postCache.get(fileKey)!;
+}
+
+/**
+ * Loads the compiled markdown of a resolved post.
+ *
+ * @param resolved - The post and the language folder it was found in.
+ */
+export function loadBlogPostMarkdown({
+  post,
+  language,
+}: ResolvedBlogPost): Promise<MarkdownModule> {
+  return loadPost(`../content/${language}/${post.slug}.md`);
+}
+
+export type BlogPostPageData = {
+  resolved: ResolvedBlogPost;
+  markdown: MarkdownModule;
+};
+
+/**
+ * Route loader of a blog post, so that posts are pre-rendered with their
+ * content like the docs pages. Unknown slugs throw a 404 for the route error
+ * boundary.
+ */
+export async function blogPostLoader({
+  params,
+}: LoaderFunctionArgs): Promise<BlogPostPageData> {
+  const language = normalizeLanguageCode(params["lng"]);
+  const resolved = resolveBlogPost(language, params["slug"] ?? "", [
+    DEFAULT_LANGUAGE,
+    ...SUPPORTED_LANGUAGES,
+  ]);
+  if (!resolved) {
+    throw data(null, { status: 404, statusText: "Not Found" });
+  }
+
+  const markdown = await loadBlogPostMarkdown(resolved);
+  return { resolved, markdown };
+}
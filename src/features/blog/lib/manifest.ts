@@ -0,0 +1,190 @@
+import { blogManifest } from "virtual:blog-manifest";
+import { BLOG_AUTHORS, BLOG_PAGE_SIZE, BLOG_SERIES } from "@/constants/blog";
+import type { BlogAuthor, BlogPostMeta, BlogSeries } from "@/types/blog";
+
+export type ResolvedBlogPost = {
+  post: BlogPostMeta;
+  /** Language folder the post was found in. */
+  language: string;
+};
+
+export type BlogIndexPage = {
+  posts: ResolvedBlogPost[];
+  /** 1-based page number. */
+  page: number;
+  pageCount: number;
+};
+
+/**
+ * Finds a post in the requested language, falling back to the first other
+ * language that has it when the post is not translated yet.
+ *
+ * @param language - The requested language folder.
+ * @param slug - The post slug.
+ * @param fallbackLanguages - Languages to try next, in order.
+ */
+export function resolveBlogPost(
+  language: string,
+  slug: string,
+  fallbackLanguages: readonly string[]
+): ResolvedBlogPost | undefined {
+  for (const candidate of [language, ...fallbackLanguages]) {
+    const post = blogManifest[candidate]?.find((entry) => entry.slug === slug);
+    if (post) {
+      return { post, language: candidate };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists the languages a post is written in.
+ *
+ * @param slug - The post slug.
+ * @param languages - The languages to check.
+ */
+export function getBlogPostTranslations<T extends string>(
+  slug: string,
+  languages: readonly T[]
+): T[] {
+  return languages.filter((lng) =>
+    blogManifest[lng]?.some((post) => post.slug === slug)
+  );
+}
+
+/**
+ * Lists every post for a language, newest first. Posts that only exist in
+ * another language are included in that language.
+ *
+ * @param language - The requested language folder.
+ * @param fallbackLanguages - Languages to take untranslated posts from.
+ */
+export function getBlogPosts(
+  language: string,
+  fallbackLanguages: readonly string[]
+): ResolvedBlogPost[] {
+  const slugs = new Set(
+    [language, ...fallbackLanguages].flatMap((lng) =>
+      (blogManifest[lng] ?? []).map((post) => post.slug)
+    )
+  );
+  return [...slugs]
+    .map((slug) => resolveBlogPost(language, slug, fallbackLanguages)!)
+    .sort(
+      (a, b) =>
+        b.post.date.localeCompare(a.post.date) ||
+        a.post.slug.localeCompare(b.post.slug)
+    );
+}
+
+/**
+ * Returns one page of the blog index.
+ *
+ * @param posts - All posts, newest first.
+ * @param page - The 1-based page number.
+ * @returns The page, or undefined when it is out of range.
+ */
+export function paginateBlogPosts(
+  posts: ResolvedBlogPost[],
+  page: number
+): BlogIndexPage | undefined {
+  const pageCount = Math.max(1, Math.ceil(posts.length / BLOG_PAGE_SIZE));
+  if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+    return undefined;
+  }
+  const start = (page - 1) * BLOG_PAGE_SIZE;
+  return {
+    posts: posts.slice(start, start + BLOG_PAGE_SIZE),
+    page,
+    pageCount,
+  };
+}
+
+/**
+ * Finds an author profile by the id used in post frontmatter.
+ *
+ * @param id - The author id.
+ */
+export function getBlogAuthor(id: string): BlogAuthor | undefined {
+  return BLOG_AUTHORS.find((author) => author.id === id);
+}
+
+/**
+ * Counts how many posts use each tag, most used first.
+ *
+ * @param posts - The posts to count.
+ */
+export function collectBlogTags(
+  posts: ResolvedBlogPost[]
+): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const { post } of posts) {
+    for (const tag of post.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Lists the years that have posts, newest first.
+ *
+ * @param posts - The posts to scan.
+ */
+export function collectBlogYears(posts: ResolvedBlogPost[]): string[] {
+  return [...new Set(posts.map(({ post }) => post.date.slice(0, 4)))].sort(
+    (a, b) => b.localeCompare(a)
+  );
+}
+
+/**
+ * Picks the posts sharing the most tags with a post; ties go to the newest.
+ * Posts without a shared tag are never suggested.
+ *
+ * @param posts - All posts, newest first.
+ * @param current - The post being read.
+ * @param limit - Maximum number of posts to return.
+ */
+export function getRelatedBlogPosts(
+  posts: ResolvedBlogPost[],
+  current: BlogPostMeta,
+  limit: number
+): ResolvedBlogPost[] {
+  const tags = new Set(current.tags);
+  return posts
+    .filter(({ post }) => post.slug !== current.slug)
+    .map((entry) => ({
+      entry,
+      shared: entry.post.tags.filter((tag) => tags.has(tag)).length,
+    }))
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Finds a series by the id used in post frontmatter.
+ *
+ * @param id - The series id.
+ */
+export function getBlogSeries(id: string): BlogSeries | undefined {
+  return BLOG_SERIES.find((series) => series.id === id);
+}
+
+/**
+ * Lists the parts of a series in reading order.
+ *
+ * @param posts - All posts of the route language.
+ * @param seriesId - The series id.
+ */
+export function getBlogSeriesParts(
+  posts: ResolvedBlogPost[],
+  seriesId: string
+): ResolvedBlogPost[] {
+  return posts
+    .filter(({ post }) => post.series?.id === seriesId)
+    .sort((a, b) => a.post.series!.part - b.post.series!.part);
+}
@@ -0,0 +1,72 @@
+import { BLOG_FEEDS } from "@/constants/blog";
+import { buildLanguagePrefix } from "@/constants/language";
+import type { BlogFeedFormat } from "@/types/blog";
+
+/**
+ * Builds the route of the blog index or of a post.
+ *
+ * @param language - The route language.
+ * @param slug - The post slug; omitted for the blog index.
+ * @returns The path including the language prefix.
+ */
+export function buildBlogPath(language: string, slug?: string): string {
+  const blogBasePath = `${buildLanguagePrefix(language)}/blog`;
+  return slug ? `${blogBasePath}/${slug}` : blogBasePath;
+}
+
+/**
+ * Builds the route of a page of the blog index. The first page is the blog
+ * index itself.
+ *
+ * @param language - The route language.
+ * @param page - The 1-based page number.
+ * @returns The path including the language prefix.
+ */
+export function buildBlogPagePath(language: string, page: number): string {
+  const blogBasePath = buildBlogPath(language);
+  return page > 1 ? `${blogBasePath}/page/${page}` : blogBasePath;
+}
+
+/**
+ * Builds the route listing the posts with a tag.
+ *
+ * @param language - The route language.
+ * @param tag - The tag as written in frontmatter.
+ */
+export function buildBlogTagPath(language: string, tag: string): string {
+  return `${buildBlogPath(language)}/tag/${encodeURIComponent(tag)}`;
+}
+
+/**
+ * Builds the profile route of an author.
+ *
+ * @param language - The route language.
+ * @param author - The author id.
+ */
+export function buildBlogAuthorPath(language: string, author: string): string {
+  return `${buildBlogPath(language)}/author/${encodeURIComponent(author)}`;
+}
+
+/**
+ * Builds the route listing the posts of a year.
+ *
+ * @param language - The route language.
+ * @param year - The four-digit year.
+ */
+export function buildBlogArchivePath(language: string, year: string): string {
+  return `${buildBlogPath(language)}/archive/${year}`;
+}
+
+/**
+ * Builds the path of a generated blog feed, e.g. `/ko/blog/rss.xml`.
+ *
+ * @param language - The feed language.
+ * @param format - The feed format.
+ * @returns The path including the language prefix.
+ */
+export function buildBlogFeedPath(
+  language: string,
+  format: BlogFeedFormat
+): string {
+  return `${buildBlogPath(language)}/${BLOG_FEEDS[format].file}`;
+}
@@ -0,0 +1,38 @@
+/**
+ * Reading time estimate for blog posts, computed at build time.
+ * Used by the blog manifest plugin, so this module must not import anything
+ * through the `@/` alias or touch the DOM.
+ */
+
+/** Words per minute for space-separated scripts such as English. */
+const WORDS_PER_MINUTE = 230;
+/** Characters per minute for Korean and other CJK text. */
+const CJK_CHARS_PER_MINUTE = 500;
+
+const CJK_CHAR =
+  /[\p{Script=Hangul}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+
+/**
+ * Estimates how long a markdown body takes to read. Latin text is counted
+ * in words and Korean (or other CJK) text in characters, so mixed posts
+ * such as Korean prose with English terms get a fair estimate. Link and
+ * image targets, HTML tags and directive fences are not counted.
+ *
+ * @param markdown - The markdown body, without frontmatter.
+ * @returns Whole minutes, at least 1.
+ */
+export function estimateReadingMinutes(markdown: string) {
+  const text = markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/^\s*:{3,}[\w-]*/gm, " ");
+
+  const cjkChars = text.match(CJK_CHAR)?.length ?? 0;
+  const words =
+    text.replace(CJK_CHAR, " ").match(/[\p{L}\p{N}]+/gu)?.length ?? 0;
+
+  return Math.max(
+    1,
+    Math.round(words / WORDS_PER_MINUTE + cjkChars / CJK_CHARS_PER_MINUTE)
+  );
+}
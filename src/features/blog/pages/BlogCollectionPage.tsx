@@ -0,0 +1,188 @@
+import { Link, useParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import {
+  DEFAULT_LANGUAGE,
+  normalizeLanguageCode,
+  SUPPORTED_LANGUAGES,
+} from "@/constants/language";
+import type { LanguageCode } from "@/types/i18n";
+import PageSEO from "@/shared/components/PageSEO";
+import BlogNotFound from "@/features/blog/components/BlogNotFound";
+import BlogPostCard from "@/features/blog/components/BlogPostCard";
+import BlogTaxonomyNav from "@/features/blog/components/BlogTaxonomyNav";
+import { localizeBlogAuthor } from "@/features/blog/lib/authors";
+import { getBlogAuthor, getBlogPosts } from "@/features/blog/lib/manifest";
+import { buildBlogPath } from "@/features/blog/lib/paths";
+
+/** Which route param filters the posts. */
+type BlogCollectionKind = "tag" | "author" | "archive";
+
+export default function BlogCollectionPage({
+  kind,
+}: {
+  kind: BlogCollectionKind;
+}) {
+  type BlogCollectionParams = {
+    ["lng"]?: LanguageCode;
+    ["tag"]?: string;
+    ["author"]?: string;
+    ["year"]?: string;
+  };
+  const params = useParams<BlogCollectionParams>();
+  const language = normalizeLanguageCode(params["lng"]);
+  const { t } = useTranslation();
+  const blogPath = buildBlogPath(language);
+
+  const allPosts = getBlogPosts(language, [
+    DEFAULT_LANGUAGE,
+    ...SUPPORTED_LANGUAGES,
+  ]);
+  const tag = params["tag"] ?? "";
+  const year = params["year"] ?? "";
+  const author = getBlogAuthor(params["author"] ?? "");
+  const authorText = author ? localizeBlogAuthor(author, t) : undefined;
+
+  const posts = allPosts.filter(({ post }) => {
+    if (kind === "tag") return post.tags.includes(tag);
+    if (kind === "author") return !!author && post.author === author.id;
+    return post.date.startsWith(`${year}-`);
+  });
+
+  const seo = (
+    {
+      tag: {
+        titleKey: "seo.blog.tagTitle",
+        titleDefault: `Posts tagged “${tag}” · RustCost Blog`,
+        descriptionKey: "seo.blog.tagDescription",
+        descriptionDefault: `RustCost blog posts tagged “${tag}”.`,
+      },
+      author: {
+        titleKey: "seo.blog.authorTitle",
+        titleDefault: `${authorText?.name} · RustCost Blog`,
+        descriptionKey: "seo.blog.authorDescription",
+        descriptionDefault: authorText?.bio ?? "",
+      },
+      archive: {
+        titleKey: "seo.blog.archiveTitle",
+        titleDefault: `Posts from ${year} · RustCost Blog`,
+        descriptionKey: "seo.blog.archiveDescription",
+        descriptionDefault: `RustCost blog posts published in ${year}.`,
+      },
+    } as const
+  )[kind];
+  const seoParams = {
+    tag,
+    year,
+    author: authorText?.name,
+    bio: authorText?.bio,
+  };
+
+  const heading = {
+    tag: t("blog.tagTitle", { defaultValue: "Tagged “{{tag}}”", tag }),
+    author: authorText?.name,
+    archive: t("blog.archiveTitle", {
+      defaultValue: "Posts from {{year}}",
+      year,
+    }),
+  }[kind];
+
+  if (posts.length === 0) {
+    return (
+      <section className="container mx-auto px-4 md:px-6 py-10 md:py-14">
+        <PageSEO
+          titleKey="seo.blog.notFoundTitle"
+          titleDefault="Post not found · RustCost Blog"
+          descriptionKey="seo.blog.description"
+          descriptionDefault="News and engineering stories from the RustCost team."
+          noindex
+        />
+        <BlogNotFound
+          backTo={blogPath}
+          title={t("blog.notFound.pageTitle", {
+            defaultValue: "Page not found",
+          })}
+          message={t("blog.notFound.collection", {
+            defaultValue: "There are no posts here.",
+          })}
+        />
+      </section>
+    );
+  }
+
+  return (
+    <section className="container mx-auto px-4 md:px-6 py-10 md:py-14">
+      <PageSEO {...seo} titleParams={seoParams} descriptionParams={seoParams} />
+      <header className="mb-8">
+        <Link
+          to={blogPath}
+          className="text-sm text-blue-600 hover:underline dark:text-amber-400"
+        >
+          ‹ {t("blog.title", { defaultValue: "RustCost Blog" })}
+        </Link>
+        {kind === "author" && author && authorText ? (
+          <div className="mt-4 flex flex-col gap-4 sm:flex-row sm:items-center">
+            <img
+              src={author.avatar}
+              alt=""
+              className="h-20 w-20 rounded-full border border-gray-200 object-cover dark:border-gray-700"
+            />
+            <div>
+              <h1 className="text-3xl font-extrabold text-gray-900 dark:text-white">
+                {heading}
+              </h1>
+              <p className="mt-1 text-gray-600 dark:text-gray-300">
+                {authorText.bio}
+              </p>
+              <ul className="mt-2 flex flex-wrap gap-3 text-sm">
+                {author.links.map((link) => (
+                  <li key={link.href}>
+                    <a
+                      href={link.href}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-medium text-blue-600 hover:underline dark:text-amber-400"
+                    >
+                      {link.label}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ) : (
+          <h1 className="mt-2 text-3xl md:text-4xl font-extrabold text-gray-900 dark:text-white">
+            {heading}
+          </h1>
+        )}
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+          {t("blog.postCount", {
+            defaultValue: "{{count}} posts",
+            count: posts.length,
+          })}
+        </p>
+      </header>
+
+      {kind !== "author" && (
+        <BlogTaxonomyNav
+          posts={allPosts}
+          language={language}
+          activeTag={kind === "tag" ? tag : undefined}
+          activeYear={kind === "archive" ? year : undefined}
+        />
+      )}
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {posts.map(({ post, language: postLanguage }) => (
+          <BlogPostCard
+            key={post.slug}
+            post={post}
+            language={language}
+            contentLanguage={
+              postLanguage !== language ? postLanguage : undefined
+            }
+          />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -1,51 +1,128 @@
-import { Link, useParams } from "react-router-dom";
+import { useParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
-import { buildLanguagePrefix } from "@/constants/language";
+import { Helmet } from "react-helmet-async";
+import { RssIcon } from "@heroicons/react/24/outline";
+import { BLOG_FEEDS } from "@/constants/blog";
+import {
+  DEFAULT_LANGUAGE,
+  normalizeLanguageCode,
+  SUPPORTED_LANGUAGES,
+} from "@/constants/language";
+import { SITE_URL } from "@/constants/seo";
 import type { LanguageCode } from "@/types/i18n";
 import PageSEO from "@/shared/components/PageSEO";
+import BlogNotFound from "@/features/blog/components/BlogNotFound";
+import BlogPagination from "@/features/blog/components/BlogPagination";
+import BlogPostCard from "@/features/blog/components/BlogPostCard";
+import BlogTaxonomyNav from "@/features/blog/components/BlogTaxonomyNav";
+import { getBlogPosts, paginateBlogPosts } from "@/features/blog/lib/manifest";
+import { buildBlogFeedPath, buildBlogPath } from "@/features/blog/lib/paths";
+import type { BlogFeedFormat } from "@/types/blog";
 
 export default function BlogPage() {
-  type LanguageParams = { ["lng"]?: LanguageCode };
-  const params = useParams<LanguageParams>();
-  const prefix = buildLanguagePrefix(params["lng"]);
+  type BlogParams = { ["lng"]?: LanguageCode; ["page"]?: string };
+  const params = useParams<BlogParams>();
+  const language = normalizeLanguageCode(params["lng"]);
+  const page = params["page"] ? Number(params["page"]) : 1;
   const { t } = useTranslation();
-  const posts = [
-    { slug: "v1-launch", title: "RustCost v1 Launch" },
-    { slug: "lightweight-finops", title: "How RustCost Optimizes FinOps" },
-  ];
+
+  const posts = getBlogPosts(language, [
+    DEFAULT_LANGUAGE,
+    ...SUPPORTED_LANGUAGES,
+  ]);
+  const current = paginateBlogPosts(posts, page);
 
   return (
     <section className="container mx-auto px-4 md:px-6 py-10 md:py-14">
       <PageSEO
-        titleKey="seo.blog.title"
-        titleDefault="RustCost Blog"
+        titleKey={page > 1 ? "seo.blog.pageTitle" : "seo.blog.title"}
+        titleDefault={
+          page > 1 ? `RustCost Blog · Page ${page}` : "RustCost Blog"
+        }
+        titleParams={{ page }}
         descriptionKey="seo.blog.description"
         descriptionDefault="News and engineering stories from the RustCost team."
+        noindex={!current}
       />
-      <header className="mb-6">
-        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900 dark:text-white">
-          {t("blog.title", { defaultValue: "RustCost Blog" })}
-        </h1>
-        <p className="mt-2 text-gray-600 dark:text-gray-300">
-          {t("blog.subtitle", {
-            defaultValue:
-              "News and articles from the RustCost team (API integration coming soon).",
-          })}
-        </p>
-      </header>
-
-      <ul className="space-y-2">
-        {posts.map((p) => (
-          <li key={p.slug}>
-            <Link
-              to={`${prefix}/blog/${p.slug}`}
-              className="text-blue-600 hover:underline dark:text-amber-400 dark:hover:text-amber-300"
-            >
-              {p.title}
-            </Link>
-          </li>
+      <Helmet>
+        {(Object.keys(BLOG_FEEDS) as BlogFeedFormat[]).map((format) => (
+          <link
+            key={format}
+            rel="alternate"
+            type={BLOG_FEEDS[format].type}
+            title={`${t("blog.title", { defaultValue: "RustCost Blog" })} (${
+              BLOG_FEEDS[format].label
+            })`}
+            href={`${SITE_URL}${buildBlogFeedPath(language, format)}`}
+          />
         ))}
-      </ul>
+      </Helmet>
+      {current ? (
+        <>
+          <header className="mb-8">
+            <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900 dark:text-white">
+              {t("blog.title", { defaultValue: "RustCost Blog" })}
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              {t("blog.subtitle", {
+                defaultValue:
+                  "Release notes, FinOps guides and engineering stories from the RustCost team.",
+              })}
+            </p>
+            <p className="mt-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-500 dark:text-gray-400">
+              <RssIcon className="h-4 w-4" aria-hidden="true" />
+              <span>{t("blog.subscribe", { defaultValue: "Subscribe" })}</span>
+              {(Object.keys(BLOG_FEEDS) as BlogFeedFormat[]).map((format) => (
+                <a
+                  key={format}
+                  href={buildBlogFeedPath(language, format)}
+                  type={BLOG_FEEDS[format].type}
+                  className="font-medium text-blue-600 hover:underline dark:text-amber-400"
+                >
+                  {BLOG_FEEDS[format].label}
+                </a>
+              ))}
+            </p>
+          </header>
+
+          <BlogTaxonomyNav posts={posts} language={language} />
+
+          {current.posts.length > 0 ? (
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+              {current.posts.map(({ post, language: postLanguage }) => (
+                <BlogPostCard
+                  key={post.slug}
+                  post={post}
+                  language={language}
+                  contentLanguage={
+                    postLanguage !== language ? postLanguage : undefined
+                  }
+                />
+              ))}
+            </div>
+          ) : (
+            <p className="rounded-lg border border-dashed border-gray-300 p-8 text-center text-gray-500 dark:border-gray-700 dark:text-gray-400">
+              {t("blog.empty", { defaultValue: "No posts yet." })}
+            </p>
+          )}
+
+          <BlogPagination
+            language={language}
+            page={current.page}
+            pageCount={current.pageCount}
+          />
+        </>
+      ) : (
+        <BlogNotFound
+          backTo={buildBlogPath(language)}
+          title={t("blog.notFound.pageTitle", {
+            defaultValue: "Page not found",
+          })}
+          message={t("blog.notFound.pageMessage", {
+            defaultValue: "This page of the blog does not exist.",
+          })}
+        />
+      )}
     </section>
   );
 }
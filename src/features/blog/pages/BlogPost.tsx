@@ -1,44 +1,181 @@
-import { useMemo } from "react";
-import { useParams } from "react-router-dom";
+import { useRef } from "react";
+import { Link, useLoaderData, useParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { BLOG_RELATED_POSTS } from "@/constants/blog";
+import {
+  DEFAULT_LANGUAGE,
+  getLanguageLabel,
+  normalizeLanguageCode,
+  SUPPORTED_LANGUAGES,
+} from "@/constants/language";
+import type { LanguageCode } from "@/types/i18n";
 import PageSEO from "@/shared/components/PageSEO";
+import MarkdownContent from "@/features/docs/components/MarkdownContent";
+import TableOfContents from "@/features/docs/components/TableOfContents";
+import { useTableOfContents } from "@/features/docs/hooks/useTableOfContents";
+import BlogPostByline from "@/features/blog/components/BlogPostByline";
+import BlogPostCard from "@/features/blog/components/BlogPostCard";
+import BlogSeriesNav from "@/features/blog/components/BlogSeriesNav";
+import BlogTagList from "@/features/blog/components/BlogTagList";
+import type { BlogPostPageData } from "@/features/blog/lib/loaders";
+import {
+  getBlogPosts,
+  getBlogPostTranslations,
+  getBlogSeries,
+  getBlogSeriesParts,
+  getRelatedBlogPosts,
+} from "@/features/blog/lib/manifest";
+import { buildBlogPath } from "@/features/blog/lib/paths";
 
 export default function BlogPost() {
-  type BlogParams = { ["slug"]?: string };
+  type BlogParams = { ["lng"]?: LanguageCode; ["slug"]?: string };
   const params = useParams<BlogParams>();
-  const slug = params["slug"];
-  const humanTitle = useMemo(() => {
-    if (!slug) return "RustCost Blog";
-    return slug
-      .split("-")
-      .map((segment) =>
-        segment.length > 0
-          ? segment[0].toUpperCase() + segment.slice(1).toLowerCase()
-          : segment
-      )
-      .join(" ");
-  }, [slug]);
-
-  const fallbackTitle = slug
-    ? `RustCost Blog · ${humanTitle}`
-    : "RustCost Blog";
-  const fallbackDescription = slug
-    ? `Read "${humanTitle}" from the RustCost engineering team.`
-    : "RustCost engineering article.";
+  const language = normalizeLanguageCode(params["lng"]);
+  const { t } = useTranslation();
+  const { resolved, markdown } = useLoaderData() as BlogPostPageData;
+  const blogPath = buildBlogPath(language);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const { toc, activeId } = useTableOfContents(bodyRef, markdown.body);
+
+  const { post, language: contentLanguage } = resolved;
+  const isFallback = contentLanguage !== language;
+  const posts = getBlogPosts(language, [
+    DEFAULT_LANGUAGE,
+    ...SUPPORTED_LANGUAGES,
+  ]);
+  const related = getRelatedBlogPosts(posts, post, BLOG_RELATED_POSTS);
+  const series = post.series ? getBlogSeries(post.series.id) : undefined;
+  const seriesParts = series ? getBlogSeriesParts(posts, series.id) : [];
 
   return (
-    <article className="prose mx-auto">
-      <PageSEO
-        titleKey="seo.blog.postTitle"
-        titleDefault={fallbackTitle}
-        descriptionKey="seo.blog.postDescription"
-        descriptionDefault={fallbackDescription}
-        titleParams={{ title: humanTitle }}
-        descriptionParams={{ title: humanTitle }}
-      />
-      <h1>{humanTitle}</h1>
-      <p>
-        Blog post content for "<span>{slug}</span>".
-      </p>
-    </article>
+    <div className="container mx-auto max-w-6xl px-4 md:px-6 py-10 md:py-14 lg:grid lg:grid-cols-[minmax(0,1fr)_220px] lg:gap-12">
+      <article lang={contentLanguage} className="mx-auto w-full max-w-3xl">
+        <PageSEO
+          titleKey="seo.blog.postTitle"
+          titleDefault={`RustCost Blog · ${post.title}`}
+          titleParams={{ title: post.title }}
+          descriptionKey={
+            post.summary ? "seo.blog.postSummary" : "seo.blog.postDescription"
+          }
+          descriptionDefault={
+            post.summary ??
+            `Read "${post.title}" from the RustCost engineering team.`
+          }
+          descriptionParams={{ title: post.title, summary: post.summary }}
+          translations={getBlogPostTranslations(post.slug, SUPPORTED_LANGUAGES)}
+        />
+        <header className="mb-8 border-b border-gray-200 pb-8 dark:border-gray-800">
+          <Link
+            to={blogPath}
+            className="text-sm text-blue-600 hover:underline dark:text-amber-400"
+          >
+            ‹ {t("blog.title", { defaultValue: "RustCost Blog" })}
+          </Link>
+          <h1 className="mt-4 text-3xl md:text-4xl font-extrabold leading-tight text-gray-900 dark:text-white">
+            {post.title}
+          </h1>
+          {post.summary && (
+            <p className="mt-3 text-lg text-gray-600 dark:text-gray-300">
+              {post.summary}
+            </p>
+          )}
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <BlogPostByline
+              post={post}
+              language={language}
+              className="text-sm"
+            />
+            <BlogTagList
+              tags={post.tags}
+              language={language}
+              className="sm:ml-auto"
+            />
+          </div>
+        </header>
+
+        {isFallback && (
+          <div
+            role="note"
+            lang={language}
+            className="mb-6 rounded-lg border border-amber-300/40 bg-amber-50/50 p-4 text-sm text-amber-800 dark:border-amber-300/20 dark:bg-amber-400/10 dark:text-amber-200"
+          >
+            {t("blog.untranslated", {
+              defaultValue:
+                "This post is not yet translated into {{language}}. You are reading the {{source}} version.",
+              language: getLanguageLabel(language),
+              source: getLanguageLabel(contentLanguage),
+            })}
+          </div>
+        )}
+
+        {post.cover && (
+          <img
+            src={post.cover}
+            alt=""
+            className="mb-8 aspect-[1200/630] w-full rounded-xl border border-gray-200 object-cover dark:border-gray-800"
+          />
+        )}
+
+        {series && seriesParts.length > 1 && (
+          <BlogSeriesNav
+            series={series}
+            parts={seriesParts}
+            current={post}
+            language={language}
+            className="mb-8"
+          />
+        )}
+
+        <div
+          ref={bodyRef}
+          className="text-[15px] leading-[1.75] text-gray-800 antialiased dark:text-gray-100"
+        >
+          <MarkdownContent
+            content={markdown.body}
+            codeBlocks={markdown.codeBlocks}
+            resolveLink={(url) =>
+              url.startsWith("./")
+                ? buildBlogPath(
+                    language,
+                    url.replace(/^\.\//, "").replace(/\.md$/, "")
+                  )
+                : undefined
+            }
+          />
+        </div>
+
+        {related.length > 0 && (
+          <aside
+            lang={language}
+            className="mt-16 border-t border-gray-200 pt-8 dark:border-gray-800"
+          >
+            <h2 className="mb-4 text-xl font-bold text-gray-900 dark:text-gray-50">
+              {t("blog.related", { defaultValue: "Related posts" })}
+            </h2>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              {related.map(({ post: relatedPost, language: postLanguage }) => (
+                <BlogPostCard
+                  key={relatedPost.slug}
+                  post={relatedPost}
+                  language={language}
+                  contentLanguage={
+                    postLanguage !== language ? postLanguage : undefined
+                  }
+                />
+              ))}
+            </div>
+          </aside>
+        )}
+      </article>
+
+      {toc.length > 0 && (
+        <aside
+          lang={language}
+          className="sticky top-24 hidden max-h-[calc(100vh-7rem)] select-none self-start overflow-y-auto pl-3 lg:block"
+        >
+          <TableOfContents items={toc} activeId={activeId} />
+        </aside>
+      )}
+    </div>
   );
 }
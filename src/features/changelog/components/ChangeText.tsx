@@ -0,0 +1,31 @@
+import ReactMarkdown from "react-markdown";
+
+/** Renders one line of release-note markdown: links, code and emphasis. */
+export default function ChangeText({ text }: { text: string }) {
+  return (
+    <ReactMarkdown
+      allowedElements={["p", "a", "code", "strong", "em"]}
+      unwrapDisallowed
+      components={{
+        p: ({ children }) => <>{children}</>,
+        a: ({ href, children }) => (
+          <a
+            href={href}
+            target="_blank"
+            rel="noreferrer"
+            className="text-blue-600 underline dark:text-amber-400"
+          >
+            {children}
+          </a>
+        ),
+        code: ({ children }) => (
+          <code className="rounded bg-gray-100 px-1 py-0.5 font-mono text-[0.9em] text-gray-800 dark:bg-gray-800 dark:text-gray-200">
+            {children}
+          </code>
+        ),
+      }}
+    >
+      {text}
+    </ReactMarkdown>
+  );
+}
@@ -0,0 +1,30 @@
+import { useTranslation } from "react-i18next";
+import Badge from "@/shared/components/Badge";
+import type { ChangeType } from "@/types/changelog";
+
+const VARIANTS = {
+  breaking: "red",
+  feature: "green",
+  fix: "blue",
+  other: "gray",
+} as const;
+
+const DEFAULT_LABELS: Record<ChangeType, string> = {
+  breaking: "Breaking",
+  feature: "Feature",
+  fix: "Fix",
+  other: "Other",
+};
+
+export default function ChangeTypeBadge({ type }: { type: ChangeType }) {
+  const { t } = useTranslation();
+
+  return (
+    <Badge
+      text={t(`changelog.types.${type}`, {
+        defaultValue: DEFAULT_LABELS[type],
+      })}
+      variant={VARIANTS[type]}
+    />
+  );
+}
@@ -0,0 +1,92 @@
+import { useTranslation } from "react-i18next";
+import { LinkIcon } from "@heroicons/react/24/outline";
+import Badge from "@/shared/components/Badge";
+import { useFormatters } from "@/shared/hooks/useFormatters";
+import ChangeText from "@/features/changelog/components/ChangeText";
+import ChangeTypeBadge from "@/features/changelog/components/ChangeTypeBadge";
+import {
+  buildReleaseAnchor,
+  CHANGE_TYPES,
+} from "@/features/changelog/lib/changelog";
+import type { ReleaseNote } from "@/types/changelog";
+
+type ReleaseNoteCardProps = {
+  release: ReleaseNote;
+  productTitle: string;
+};
+
+export default function ReleaseNoteCard({
+  release,
+  productTitle,
+}: ReleaseNoteCardProps) {
+  const { t } = useTranslation();
+  const { formatDate } = useFormatters();
+  const anchor = buildReleaseAnchor(release);
+  const changes = [...release.changes].sort(
+    (a, b) => CHANGE_TYPES.indexOf(a.type) - CHANGE_TYPES.indexOf(b.type)
+  );
+
+  return (
+    <article
+      id={anchor}
+      className="scroll-mt-24 rounded-xl border border-gray-200 bg-white p-5 shadow-sm dark:border-gray-800 dark:bg-gray-900"
+    >
+      <header className="flex flex-wrap items-center gap-2">
+        <h2 className="group flex items-center gap-2 text-lg font-bold text-gray-900 dark:text-white">
+          <span>
+            {productTitle} <span className="font-mono">v{release.version}</span>
+          </span>
+          <a
+            href={`#${anchor}`}
+            aria-label={t("changelog.permalink", {
+              defaultValue: "Link to this release",
+            })}
+            className="text-gray-400 opacity-0 transition group-hover:opacity-100 focus:opacity-100 hover:text-blue-600 dark:hover:text-amber-400"
+          >
+            <LinkIcon className="h-4 w-4" aria-hidden="true" />
+          </a>
+        </h2>
+        {release.prerelease && (
+          <Badge
+            text={t("changelog.prerelease", { defaultValue: "Pre-release" })}
+            variant="yellow"
+          />
+        )}
+        <time
+          dateTime={release.date}
+          className="text-sm text-gray-500 dark:text-gray-400"
+        >
+          {formatDate(release.date)}
+        </time>
+        <a
+          href={release.url}
+          target="_blank"
+          rel="noreferrer"
+          className="ml-auto text-sm text-blue-600 underline dark:text-amber-400"
+        >
+          {t("changelog.onGitHub", { defaultValue: "View on GitHub" })}
+        </a>
+      </header>
+      {changes.length > 0 ? (
+        <ul className="mt-4 space-y-2 text-sm text-gray-700 dark:text-gray-300">
+          {changes.map((change, i) => (
+            <li key={i} className="flex items-start gap-2">
+              <span className="mt-0.5 shrink-0">
+                <ChangeTypeBadge type={change.type} />
+              </span>
+              <span>
+                <ChangeText text={change.text} />
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+          {t("changelog.noNotes", {
+            defaultValue: "No notes for this release.",
+          })}
+        </p>
+      )}
+    </article>
+  );
+}
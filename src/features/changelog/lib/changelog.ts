@@ -0,0 +1,138 @@
+import snapshot from "@/features/changelog/data/releases.json";
+import { compareSemver, parseSemver } from "@/lib/semver";
+import type {
+  ChangelogSnapshot,
+  ChangeType,
+  ReleaseChange,
+  ReleaseNote,
+} from "@/types/changelog";
+
+/** Display order of change types, most important first. */
+export const CHANGE_TYPES: ChangeType[] = [
+  "breaking",
+  "feature",
+  "fix",
+  "other",
+];
+
+export type ChangelogFilters = {
+  /** Product id; all products when omitted. */
+  product?: string;
+  /** Change types to show; never empty. */
+  types: ChangeType[];
+  /** Only releases newer than this version of `product`. */
+  since?: string;
+};
+
+export type ReleaseChangeRef = ReleaseChange & { release: ReleaseNote };
+
+const RELEASES = (snapshot as ChangelogSnapshot).releases;
+
+const isChangeType = (value: string): value is ChangeType =>
+  (CHANGE_TYPES as string[]).includes(value);
+
+const compareVersions = (a: string, b: string) => {
+  const left = parseSemver(a);
+  const right = parseSemver(b);
+  if (!left || !right) return a.localeCompare(b);
+  return compareSemver(left, right);
+};
+
+/** Whether the committed snapshot has any release notes. */
+export const hasReleaseNotes = () => RELEASES.length > 0;
+
+/**
+ * Lists the releases of one product, or of every product, newest first.
+ *
+ * @param product - Product id; all products when omitted.
+ */
+export function getReleases(product?: string): ReleaseNote[] {
+  return RELEASES.filter(
+    (release) => !product || release.product === product
+  ).sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) || compareVersions(b.version, a.version)
+  );
+}
+
+/** Anchor id of a release, e.g. `core-v1.2.0`. */
+export function buildReleaseAnchor(release: ReleaseNote) {
+  return `${release.product}-v${release.version}`;
+}
+
+/**
+ * Reads the filters from the page's query string, e.g.
+ * `?product=core&type=feature,fix&since=1.0.0`. Unknown values are ignored.
+ */
+export function readChangelogFilters(
+  params: URLSearchParams
+): ChangelogFilters {
+  const product = params.get("product") ?? undefined;
+  const known = product && getReleases(product).length > 0;
+  const types = (params.get("type") ?? "").split(",").filter(isChangeType);
+  const since = params.get("since") ?? undefined;
+  return {
+    product: known ? product : undefined,
+    types: types.length > 0 ? types : CHANGE_TYPES,
+    since:
+      known &&
+      since &&
+      getReleases(product).some((release) => release.version === since)
+        ? since
+        : undefined,
+  };
+}
+
+/** Encodes the filters as query parameters, leaving out defaults. */
+export function toChangelogParams({
+  product,
+  types,
+  since,
+}: ChangelogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (product) params.set("product", product);
+  if (types.length < CHANGE_TYPES.length) params.set("type", types.join(","));
+  if (product && since) params.set("since", since);
+  return params;
+}
+
+/**
+ * Applies the filters. Releases keep only the changes of the selected types
+ * and are dropped when none is left, unless every type is selected.
+ *
+ * @param filters - The active filters.
+ * @returns The matching releases, newest first.
+ */
+export function filterReleases(filters: ChangelogFilters): ReleaseNote[] {
+  const allTypes = filters.types.length === CHANGE_TYPES.length;
+  return getReleases(filters.product)
+    .filter(
+      (release) =>
+        !filters.since || compareVersions(release.version, filters.since) > 0
+    )
+    .map((release) => ({
+      ...release,
+      changes: release.changes.filter((change) =>
+        filters.types.includes(change.type)
+      ),
+    }))
+    .filter((release) => allTypes || release.changes.length > 0);
+}
+
+/**
+ * Groups the changes of several releases by type, for the "what's new
+ * since" view.
+ *
+ * @param releases - Filtered releases, newest first.
+ * @returns Non-empty groups in `CHANGE_TYPES` order.
+ */
+export function groupChanges(releases: ReleaseNote[]) {
+  return CHANGE_TYPES.map((type) => ({
+    type,
+    changes: releases.flatMap((release) =>
+      release.changes
+        .filter((change) => change.type === type)
+        .map((change): ReleaseChangeRef => ({ ...change, release }))
+    ),
+  })).filter((group) => group.changes.length > 0);
+}
@@ -0,0 +1,254 @@
+import { useEffect } from "react";
+import { useLocation, useSearchParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+import { DOWNLOAD_PRODUCTS } from "@/constants/download";
+import CommonSelect from "@/shared/components/CommonSelect";
+import PageSEO from "@/shared/components/PageSEO";
+import { useHydrated } from "@/shared/hooks/useHydrated";
+import ChangeText from "@/features/changelog/components/ChangeText";
+import ChangeTypeBadge from "@/features/changelog/components/ChangeTypeBadge";
+import ReleaseNoteCard from "@/features/changelog/components/ReleaseNoteCard";
+import {
+  buildReleaseAnchor,
+  CHANGE_TYPES,
+  filterReleases,
+  getReleases,
+  groupChanges,
+  readChangelogFilters,
+  toChangelogParams,
+  type ChangelogFilters,
+} from "@/features/changelog/lib/changelog";
+
+const BASE_CHANGELOG_STYLES = {
+  label:
+    "text-xs font-semibold uppercase tracking-[0.2em] text-gray-500 dark:text-gray-400",
+  chip: "rounded-full border px-3 py-1 text-sm font-medium transition-colors select-none",
+  chipOn:
+    "border-blue-600 bg-blue-50 text-blue-800 dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-100",
+  chipOff:
+    "border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800/70",
+};
+
+const productTitle = (id: string) =>
+  DOWNLOAD_PRODUCTS.find((product) => product.id === id)?.title ?? id;
+
+export default function ChangelogPage() {
+  const { t } = useTranslation();
+  const { hash } = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const hydrated = useHydrated();
+
+  const filters = readChangelogFilters(
+    hydrated ? searchParams : new URLSearchParams()
+  );
+  const releases = filterReleases(filters);
+  const sinceOptions = filters.product ? getReleases(filters.product) : [];
+
+  const update = (next: Partial<ChangelogFilters>) =>
+    setSearchParams(toChangelogParams({ ...filters, ...next }), {
+      replace: true,
+      preventScrollReset: true,
+    });
+
+  const toggleType = (type: (typeof CHANGE_TYPES)[number]) => {
+    const types = filters.types.includes(type)
+      ? filters.types.filter((value) => value !== type)
+      : CHANGE_TYPES.filter(
+          (value) => value === type || filters.types.includes(value)
+        );
+    if (types.length > 0) update({ types });
+  };
+
+  // Version anchors only exist after the filters of a shared link applied.
+  useEffect(() => {
+    if (!hydrated || !hash) return;
+    document
+      .getElementById(decodeURIComponent(hash.slice(1)))
+      ?.scrollIntoView({ block: "start" });
+  }, [hydrated, hash]);
+
+  return (
+    <div className="container mx-auto max-w-4xl px-4 md:px-6 py-10 md:py-14">
+      <PageSEO
+        titleKey="seo.changelog.title"
+        titleDefault="RustCost Changelog"
+        descriptionKey="seo.changelog.description"
+        descriptionDefault="Release notes for RustCost core and dashboard: new features, fixes and breaking changes."
+      />
+      <header className="mb-8 text-center">
+        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900 dark:text-white">
+          {t("changelog.title", { defaultValue: "Changelog" })}
+        </h1>
+        <p className="mt-2 text-gray-600 dark:text-gray-300">
+          {t("changelog.subtitle", {
+            defaultValue:
+              "What changed in each release of RustCost core and dashboard.",
+          })}
+        </p>
+      </header>
+
+      <section
+        aria-label={t("changelog.filters", { defaultValue: "Filters" })}
+        className="mb-8 space-y-4 rounded-xl border border-gray-200 bg-white p-4 shadow-sm dark:border-gray-800 dark:bg-gray-900"
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={twMerge(BASE_CHANGELOG_STYLES.label, "mr-2")}>
+            {t("changelog.product", { defaultValue: "Product" })}
+          </span>
+          {[undefined, ...DOWNLOAD_PRODUCTS.map((product) => product.id)].map(
+            (product) => (
+              <button
+                key={product ?? "all"}
+                type="button"
+                aria-pressed={filters.product === product}
+                onClick={() => update({ product, since: undefined })}
+                className={twMerge(
+                  BASE_CHANGELOG_STYLES.chip,
+                  filters.product === product
+                    ? BASE_CHANGELOG_STYLES.chipOn
+                    : BASE_CHANGELOG_STYLES.chipOff
+                )}
+              >
+                {product
+                  ? productTitle(product)
+                  : t("changelog.allProducts", { defaultValue: "All" })}
+              </button>
+            )
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={twMerge(BASE_CHANGELOG_STYLES.label, "mr-2")}>
+            {t("changelog.changeType", { defaultValue: "Changes" })}
+          </span>
+          {CHANGE_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              aria-pressed={filters.types.includes(type)}
+              onClick={() => toggleType(type)}
+              className={twMerge(
+                BASE_CHANGELOG_STYLES.chip,
+                filters.types.includes(type)
+                  ? BASE_CHANGELOG_STYLES.chipOn
+                  : BASE_CHANGELOG_STYLES.chipOff
+              )}
+            >
+              {t(`changelog.types.${type}`, {
+                defaultValue: type[0].toUpperCase() + type.slice(1),
+              })}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={twMerge(BASE_CHANGELOG_STYLES.label, "mr-2")}>
+            {t("changelog.since", { defaultValue: "What's new since" })}
+          </span>
+          {filters.product ? (
+            <CommonSelect
+              value={filters.since ?? ""}
+              onChange={(since) => update({ since: since || undefined })}
+              options={[
+                {
+                  label: t("changelog.sinceAny", {
+                    defaultValue: "All versions",
+                  }),
+                  value: "",
+                },
+                ...sinceOptions.map((release) => ({
+                  label: `v${release.version}`,
+                  value: release.version,
+                })),
+              ]}
+              ariaLabel={t("changelog.since", {
+                defaultValue: "What's new since",
+              })}
+            />
+          ) : (
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {t("changelog.sinceHint", {
+                defaultValue: "Pick a product to compare versions.",
+              })}
+            </span>
+          )}
+        </div>
+      </section>
+
+      {filters.since && filters.product && (
+        <section className="mb-10 rounded-xl border border-blue-200 bg-blue-50/60 p-5 dark:border-amber-500/30 dark:bg-amber-900/10">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            {t("changelog.sinceTitle", {
+              defaultValue: "What's new in {{product}} since v{{version}}",
+              product: productTitle(filters.product),
+              version: filters.since,
+            })}
+          </h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+            {t("changelog.releaseCount", {
+              defaultValue: "{{count}} newer releases",
+              count: releases.length,
+            })}
+          </p>
+          {groupChanges(releases).map(({ type, changes }) => (
+            <div key={type} className="mt-4">
+              <ChangeTypeBadge type={type} />
+              <ul className="mt-2 space-y-1.5 text-sm text-gray-700 dark:text-gray-300">
+                {changes.map((change, i) => (
+                  <li key={i} className="flex items-start gap-2">
+                    <a
+                      href={`#${buildReleaseAnchor(change.release)}`}
+                      className="shrink-0 font-mono text-xs text-blue-600 underline dark:text-amber-400"
+                    >
+                      v{change.release.version}
+                    </a>
+                    <span>
+                      <ChangeText text={change.text} />
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {releases.length > 0 ? (
+        <div className="space-y-6">
+          {releases.map((release) => (
+            <ReleaseNoteCard
+              key={buildReleaseAnchor(release)}
+              release={release}
+              productTitle={productTitle(release.product)}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="rounded-xl border border-dashed border-gray-300 p-8 text-center text-gray-600 dark:border-gray-700 dark:text-gray-300">
+          <p>
+            {getReleases().length > 0
+              ? t("changelog.noMatches", {
+                  defaultValue: "No release matches these filters.",
+                })
+              : t("changelog.empty", {
+                  defaultValue:
+                    "No release notes have been published yet. Follow the repositories on GitHub for updates.",
+                })}
+          </p>
+          <div className="mt-3 flex justify-center gap-4 text-sm">
+            {DOWNLOAD_PRODUCTS.map((product) => (
+              <a
+                key={product.id}
+                href={`${product.repo}/releases`}
+                target="_blank"
+                rel="noreferrer"
+                className="text-blue-600 underline dark:text-amber-400"
+              >
+                {product.title}
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
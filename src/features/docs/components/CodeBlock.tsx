@@ -0,0 +1,132 @@
+import { useMemo, useState, type CSSProperties } from "react";
+import { twMerge } from "tailwind-merge";
+import {
+  getCopyText,
+  parseCodeMeta,
+  splitCodeLines,
+} from "@/features/docs/lib/code";
+import type { CodeToken } from "@/types/markdown";
+
+type CodeBlockProps = {
+  code: string;
+  lang?: string;
+  /** The fence info string after the language. */
+  meta?: string | null;
+  /** Build-time highlighting; plain text is rendered when missing. */
+  tokens?: CodeToken[][] | null;
+};
+
+const tokenStyle = ({ color, fontStyle = 0 }: CodeToken): CSSProperties => ({
+  color,
+  fontStyle: fontStyle & 1 ? "italic" : undefined,
+  fontWeight: fontStyle & 2 ? 600 : undefined,
+  textDecoration: fontStyle & 4 ? "underline" : undefined,
+});
+
+const lineClassName = (
+  change: "add" | "remove" | undefined,
+  emphasized: boolean
+) =>
+  twMerge(
+    "block border-l-2 border-transparent px-4",
+    emphasized && "border-amber-400 bg-white/10",
+    change === "add" && "border-emerald-400 bg-emerald-500/15",
+    change === "remove" && "border-red-400 bg-red-500/15"
+  );
+
+export default function CodeBlock({
+  code,
+  lang,
+  meta,
+  tokens,
+}: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+  const options = useMemo(() => parseCodeMeta(meta), [meta]);
+  const lines = useMemo(
+    () => splitCodeLines(code, options.diff),
+    [code, options.diff]
+  );
+  // Tokens from a different revision of the block are ignored.
+  const lineTokens = tokens?.length === lines.length ? tokens : null;
+  const gutterWidth = `${String(lines.length).length + 1}ch`;
+
+  const onCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        getCopyText(code, lang, options.diff)
+      );
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1200);
+    } catch {
+      // ignore
+    }
+  };
+
+  return (
+    <div className="not-prose relative my-6 overflow-hidden rounded-lg border border-gray-200 bg-gray-950 text-gray-100 shadow-sm dark:border-gray-700 dark:bg-gray-900">
+      {options.title && (
+        <div className="border-b border-gray-800 px-4 py-2 pr-24 font-mono text-xs text-gray-300 dark:border-gray-700">
+          {options.title}
+        </div>
+      )}
+      <pre className="overflow-x-auto py-4 text-[13px] leading-[1.65]">
+        <code
+          className={twMerge(
+            "inline-block min-w-full",
+            lang && `language-${lang}`
+          )}
+        >
+          {lines.map((line, i) => (
+            <span
+              key={i}
+              className={lineClassName(
+                line.change,
+                options.highlightLines.includes(i + 1)
+              )}
+            >
+              {options.showLineNumbers && (
+                <span
+                  className="mr-4 inline-block select-none text-right text-gray-500"
+                  style={{ width: gutterWidth }}
+                  aria-hidden="true"
+                >
+                  {i + 1}
+                </span>
+              )}
+              {options.diff && (
+                <span
+                  className="mr-2 inline-block w-[1ch] select-none text-gray-500"
+                  aria-hidden="true"
+                >
+                  {line.change === "add"
+                    ? "+"
+                    : line.change === "remove"
+                      ? "-"
+                      : " "}
+                </span>
+              )}
+              {lineTokens
+                ? lineTokens[i].map((token, j) => (
+                    <span key={j} style={tokenStyle(token)}>
+                      {token.content}
+                    </span>
+                  ))
+                : line.text}
+              {line.text === "" && " "}
+            </span>
+          ))}
+        </code>
+      </pre>
+      <button
+        type="button"
+        onClick={onCopy}
+        className={twMerge(
+          "absolute right-3 top-3 inline-flex items-center rounded-md border border-gray-500/40 bg-gray-900/80 px-2.5 py-1 text-[11px] font-semibold uppercase tracking-[0.04em] text-gray-100 shadow-sm transition hover:border-blue-400 hover:text-blue-100 dark:hover:border-amber-400 dark:hover:text-amber-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 dark:focus-visible:ring-amber-400",
+          options.title && "top-1.5"
+        )}
+      >
+        {copied ? "Copied" : "Copy"}
+      </button>
+    </div>
+  );
+}
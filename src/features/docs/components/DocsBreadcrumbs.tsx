@@ -0,0 +1,51 @@
+import { Link } from "react-router-dom";
+import { ChevronRightIcon } from "@heroicons/react/24/outline";
+
+export type DocsBreadcrumb = {
+  label: string;
+  /** Omitted for the current page. */
+  to?: string;
+};
+
+export default function DocsBreadcrumbs({
+  items,
+  ariaLabel = "Breadcrumb",
+}: {
+  items: DocsBreadcrumb[];
+  ariaLabel?: string;
+}) {
+  return (
+    <nav aria-label={ariaLabel} className="mb-4 max-w-4xl select-none">
+      <ol className="flex flex-wrap items-center gap-1.5 text-sm text-gray-500 dark:text-gray-400">
+        {items.map((item, i) => (
+          <li
+            key={`${item.label}-${i}`}
+            className="flex items-center gap-1.5"
+          >
+            {i > 0 && (
+              <ChevronRightIcon
+                className="h-3.5 w-3.5 shrink-0"
+                aria-hidden="true"
+              />
+            )}
+            {item.to ? (
+              <Link
+                to={item.to}
+                className="transition hover:text-blue-700 dark:hover:text-amber-200"
+              >
+                {item.label}
+              </Link>
+            ) : (
+              <span
+                aria-current="page"
+                className="font-medium text-gray-800 dark:text-gray-100"
+              >
+                {item.label}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
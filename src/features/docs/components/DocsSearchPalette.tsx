@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+import { getLanguageLabel } from "@/constants/language";
+import { buildDocsPath } from "@/features/docs/lib/paths";
+import { loadSearchIndex, searchDocs } from "@/features/docs/lib/search";
+import type { LanguageCode } from "@/types/i18n";
+import type { HighlightPart, SearchIndex } from "@/types/search";
+
+type DocsSearchPaletteProps = {
+  language: LanguageCode;
+  onClose: () => void;
+};
+
+function Highlighted({ parts }: { parts: HighlightPart[] }) {
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.match ? (
+          <mark
+            key={i}
+            className="rounded-sm bg-amber-200/80 px-0.5 text-gray-900 dark:bg-amber-500/40 dark:text-amber-50"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function DocsSearchPalette({
+  language,
+  onClose,
+}: DocsSearchPaletteProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const [query, setQuery] = useState("");
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSearchIndex(language)
+      .then((loaded) => {
+        if (!cancelled) setIndex(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [language]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = prev;
+    };
+  }, []);
+
+  const results = useMemo(
+    () => (index ? searchDocs(index, query) : []),
+    [index, query]
+  );
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${selected}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  const open = (i: number) => {
+    const result = results[i];
+    if (!result) return;
+    const { topic, anchor } = result.section;
+    const path = buildDocsPath(language, undefined, topic);
+    navigate(anchor ? `${path}#${encodeURIComponent(anchor)}` : path);
+    onClose();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelected((i) => Math.min(i + 1, Math.max(results.length - 1, 0)));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelected((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      open(selected);
+    }
+  };
+
+  let status: string | null = null;
+  if (failed) {
+    status = t("search.failed", {
+      defaultValue: "The search index could not be loaded.",
+    });
+  } else if (!index) {
+    status = t("search.loading", { defaultValue: "Loading search index…" });
+  } else if (!query.trim()) {
+    status = t("search.hint", {
+      defaultValue: "Search every page and section of the docs.",
+    });
+  } else if (results.length === 0) {
+    status = t("search.empty", {
+      defaultValue: "No results for “{{query}}”",
+      query: query.trim(),
+    });
+  }
+
+  // Portal out of the sticky navbar: its backdrop-filter would otherwise
+  // become the containing block of this fixed overlay.
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[70] flex items-start justify-center bg-black/50 px-4 pt-[10vh]"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t("search.title", { defaultValue: "Search docs" })}
+        className="w-full max-w-2xl overflow-hidden rounded-xl border border-gray-200 bg-white shadow-2xl dark:border-gray-700 dark:bg-gray-900"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={onKeyDown}
+      >
+        <div className="flex items-center gap-3 border-b border-gray-200 px-4 py-3 dark:border-gray-800">
+          <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+          <input
+            ref={inputRef}
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t("search.placeholder", {
+              defaultValue: "Search documentation…",
+            })}
+            aria-label={t("search.title", { defaultValue: "Search docs" })}
+            className="w-full bg-transparent text-base text-gray-900 placeholder:text-gray-400 focus:outline-none dark:text-gray-100"
+          />
+          <kbd className="rounded border border-gray-300 px-1.5 py-0.5 text-[11px] font-semibold text-gray-500 dark:border-gray-700 dark:text-gray-400">
+            Esc
+          </kbd>
+        </div>
+
+        {status ? (
+          <p className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            {status}
+          </p>
+        ) : (
+          <ul
+            ref={listRef}
+            role="listbox"
+            className="max-h-[60vh] overflow-y-auto p-2"
+          >
+            {results.map((result, i) => (
+              <li
+                key={`${result.section.topic}-${result.section.anchor}-${i}`}
+                data-index={i}
+                role="option"
+                aria-selected={i === selected}
+                onMouseEnter={() => setSelected(i)}
+                onClick={() => open(i)}
+                className={`cursor-pointer rounded-lg border-l-2 px-3 py-2.5 transition ${
+                  i === selected
+                    ? "border-blue-600 bg-blue-50 dark:border-amber-500 dark:bg-amber-900/30"
+                    : "border-transparent"
+                }`}
+              >
+                <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                  {result.section.pageTitle}
+                  {result.section.language &&
+                    ` · ${getLanguageLabel(result.section.language)}`}
+                </div>
+                <div className="text-sm font-semibold text-gray-900 dark:text-gray-50">
+                  <Highlighted parts={result.heading} />
+                </div>
+                {result.section.text && (
+                  <p className="mt-1 line-clamp-2 text-[13px] leading-[1.6] text-gray-600 dark:text-gray-300">
+                    <Highlighted parts={result.snippet} />
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="border-t border-gray-200 px-4 py-2 text-[11px] text-gray-500 dark:border-gray-800 dark:text-gray-400">
+          {t("search.keys", {
+            defaultValue: "↑↓ to navigate · Enter to open · Esc to close",
+          })}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
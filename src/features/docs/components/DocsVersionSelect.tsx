@@ -0,0 +1,34 @@
+import { useTranslation } from "react-i18next";
+import { TagIcon } from "@heroicons/react/24/outline";
+import CommonSelect from "@/shared/components/CommonSelect";
+import {
+  getDocsVersionLabel,
+  getDocsVersions,
+} from "@/features/docs/lib/manifest";
+
+export default function DocsVersionSelect({
+  value,
+  onChange,
+  className = "",
+  ariaLabel = "Select docs version",
+}: {
+  value: string;
+  onChange?: (next: string) => void;
+  className?: string;
+  ariaLabel?: string;
+}) {
+  const { t } = useTranslation();
+  return (
+    <CommonSelect
+      value={value}
+      onChange={onChange}
+      options={getDocsVersions().map((version) => ({
+        label: getDocsVersionLabel(version, t),
+        value: version,
+      }))}
+      className={className}
+      ariaLabel={ariaLabel}
+      icon={<TagIcon className="w-4 h-4 text-gray-500 dark:text-gray-400" />}
+    />
+  );
+}
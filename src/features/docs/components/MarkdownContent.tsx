@@ -0,0 +1,300 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Link } from "react-router-dom";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkDirective from "remark-directive";
+import { Children, isValidElement } from "react";
+import { HashtagIcon } from "@heroicons/react/24/outline";
+import type { JSX } from "react/jsx-runtime";
+import Callout, { type CalloutType } from "@/shared/components/Callout";
+import CodeTabs from "@/shared/components/CodeTabs";
+import CodeBlock from "@/features/docs/components/CodeBlock";
+import { slugify } from "@/features/docs/lib/content";
+import remarkDocBlocks from "@/features/docs/lib/remarkDocBlocks";
+import { scrollToHeading } from "@/features/docs/lib/toc";
+import type { CodeToken } from "@/types/markdown";
+
+type MarkdownContentProps = {
+  /** Markdown body from a `?markdown` module. */
+  content: string;
+  /** Build-time tokens of each fenced block, in document order. */
+  codeBlocks: (CodeToken[][] | null)[];
+  /**
+   * Maps a relative link such as `./install.md` onto a route. Links it
+   * returns undefined for are rendered as plain anchors.
+   */
+  resolveLink?: (href: string) => string | undefined;
+  onImageClick?: (src: string) => void;
+};
+
+const headingStyles: Record<string, string> = {
+  h1: "mt-12 mb-4 text-[32px] leading-[1.2] font-semibold text-gray-900 dark:text-gray-50",
+  h2: "mt-10 mb-3 text-[26px] leading-[1.3] font-semibold text-gray-900 dark:text-gray-50",
+  h3: "mt-8 mb-2.5 text-[21px] leading-[1.35] font-semibold text-gray-900 dark:text-gray-50",
+  h4: "mt-7 mb-2 text-[18px] leading-[1.4] font-semibold text-gray-900 dark:text-gray-50",
+};
+
+const Heading =
+  (tag: keyof JSX.IntrinsicElements) =>
+  ({ children, className = "", ...props }: any) => {
+    const text = String(children).replace(/<[^>]+>/g, "");
+    const id = slugify(text);
+    const T = tag as any;
+    return (
+      <T
+        id={id}
+        className={`group scroll-mt-28 ${headingStyles[tag]} ${className}`}
+        {...props}
+      >
+        {children}
+        <a
+          href={`#${id}`}
+          onClick={(e) => {
+            e.preventDefault();
+            scrollToHeading(id);
+          }}
+          aria-label={`Link to ${text}`}
+          className="ml-2 inline-flex align-middle text-gray-400 transition hover:text-blue-600 dark:hover:text-amber-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 dark:focus-visible:ring-amber-400 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:focus-visible:ring-offset-gray-900 opacity-0 group-hover:opacity-100"
+        >
+          <HashtagIcon className="h-4 w-4" />
+        </a>
+      </T>
+    );
+  };
+
+/**
+ * Renders a compiled markdown module with the site's markdown styles:
+ * heading anchors, callouts, code groups, highlighted code blocks and tables.
+ * Used by the docs and the blog.
+ */
+export default function MarkdownContent({
+  content,
+  codeBlocks,
+  resolveLink,
+  onImageClick,
+}: MarkdownContentProps) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkDirective, remarkDocBlocks]}
+      components={{
+        aside({ node, children, ...rest }) {
+          const type = node?.properties?.["dataCallout"];
+          if (!type) return <aside {...rest}>{children}</aside>;
+          const title = node?.properties?.["dataTitle"];
+          return (
+            <Callout
+              type={String(type) as CalloutType}
+              title={title ? String(title) : undefined}
+            >
+              {children}
+            </Callout>
+          );
+        },
+        div({ node, children, ...rest }) {
+          if (!node?.properties?.["dataCodeGroup"]) {
+            return <div {...rest}>{children}</div>;
+          }
+          // Tab labels sit on each fenced block's <code> element.
+          const labels = node.children.flatMap((child) =>
+            child.type === "element" &&
+            child.children[0]?.type === "element"
+              ? [String(child.children[0].properties["dataTab"] ?? "")]
+              : []
+          );
+          const panels = Children.toArray(children).filter(
+            isValidElement
+          );
+          return (
+            <CodeTabs
+              tabs={panels.map((content, i) => ({
+                label: labels[i] || `Tab ${i + 1}`,
+                content,
+              }))}
+            />
+          );
+        },
+        h1: Heading("h1"),
+        h2: Heading("h2"),
+        h3: Heading("h3"),
+        h4: Heading("h4"),
+        p({ children, ...rest }) {
+          return (
+            <p className="my-4 text-[15px] leading-[1.75]" {...rest}>
+              {children}
+            </p>
+          );
+        },
+        ul({ children, ...rest }) {
+          return (
+            <ul
+              className="my-4 space-y-2 pl-6 text-[15px] leading-[1.7] marker:text-gray-500 dark:marker:text-gray-400 list-disc"
+              {...rest}
+            >
+              {children}
+            </ul>
+          );
+        },
+        ol({ children, ...rest }) {
+          return (
+            <ol
+              className="my-4 space-y-2 pl-6 text-[15px] leading-[1.7] marker:text-gray-500 dark:marker:text-gray-400 list-decimal"
+              {...rest}
+            >
+              {children}
+            </ol>
+          );
+        },
+        li({ children, ...rest }) {
+          return (
+            <li className="pl-1 text-[15px] leading-[1.7]" {...rest}>
+              {children}
+            </li>
+          );
+        },
+        blockquote({ children, ...rest }) {
+          return (
+            <blockquote
+              className="my-6 border-l-4 border-blue-400 bg-blue-50/80 px-4 py-3 text-[15px] leading-[1.75] text-gray-900 italic shadow-sm dark:border-amber-500 dark:bg-amber-900/30 dark:text-gray-50"
+              {...rest}
+            >
+              {children}
+            </blockquote>
+          );
+        },
+        hr() {
+          return (
+            <hr className="my-10 border-t border-gray-200 dark:border-gray-800" />
+          );
+        },
+        pre({ node, children, ...rest }) {
+          const codeEl = node?.children[0];
+          if (codeEl?.type !== "element" || codeEl.tagName !== "code") {
+            return <pre {...rest}>{children}</pre>;
+          }
+          const classes = codeEl.properties["className"];
+          const lang = (Array.isArray(classes) ? classes : [])
+            .map(String)
+            .find((c) => c.startsWith("language-"))
+            ?.slice("language-".length);
+          const code = codeEl.children
+            .map((child) => (child.type === "text" ? child.value : ""))
+            .join("");
+          const block = Number(codeEl.properties["dataBlock"]);
+          return (
+            <CodeBlock
+              code={code}
+              lang={lang}
+              meta={codeEl.data?.meta}
+              tokens={codeBlocks[block]}
+            />
+          );
+        },
+        code({ className, children, ...rest }) {
+          // Fenced blocks are rendered by `pre` above.
+          return (
+            <code
+              className={`rounded-sm bg-blue-50 px-1.5 py-0.5 text-[13px] font-medium text-blue-800 dark:bg-amber-900/50 dark:text-amber-100 ${
+                className || ""
+              }`}
+              {...rest}
+            >
+              {children}
+            </code>
+          );
+        },
+        table({ children }) {
+          return (
+            <div className="not-prose my-6 overflow-x-auto rounded-lg border border-gray-200 shadow-sm dark:border-gray-800">
+              <table className="w-full border-collapse text-left text-[14px] leading-[1.6] text-gray-800 dark:text-gray-100">
+                {children}
+              </table>
+            </div>
+          );
+        },
+        thead({ children, ...rest }) {
+          return (
+            <thead className="bg-gray-50 dark:bg-gray-800" {...rest}>
+              {children}
+            </thead>
+          );
+        },
+        tbody({ children, ...rest }) {
+          return <tbody {...rest}>{children}</tbody>;
+        },
+        tr({ children, ...rest }) {
+          return (
+            <tr
+              className="border-b border-gray-200 last:border-0 odd:bg-white even:bg-gray-50 dark:border-gray-800 dark:odd:bg-gray-900 dark:even:bg-gray-800/70"
+              {...rest}
+            >
+              {children}
+            </tr>
+          );
+        },
+        th({ children, ...rest }) {
+          return (
+            <th
+              className="px-4 py-3 text-sm font-semibold text-gray-900 dark:text-gray-50"
+              {...rest}
+            >
+              {children}
+            </th>
+          );
+        },
+        td({ children, ...rest }) {
+          return (
+            <td
+              className="px-4 py-3 align-top text-sm text-gray-800 dark:text-gray-100"
+              {...rest}
+            >
+              {children}
+            </td>
+          );
+        },
+        img: ({ src, alt, title }: any) => (
+          <img
+            src={src}
+            alt={alt}
+            title={title}
+            loading="lazy"
+            className="my-6 mx-auto rounded-lg border border-gray-200 shadow-md transition hover:shadow-lg dark:border-gray-700"
+            onClick={() => onImageClick?.(src)}
+          />
+        ),
+        a: ({ href, children, ...aProps }: any) => {
+          const url = String(href || "");
+          const classes =
+            "text-blue-600 underline decoration-[0.08em] underline-offset-[0.16em] transition hover:text-blue-700 dark:text-amber-300 dark:hover:text-amber-200";
+          if (/^https?:\/\//i.test(url)) {
+            return (
+              <a
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={classes}
+                {...aProps}
+              >
+                {children}
+              </a>
+            );
+          }
+          const to = resolveLink?.(url);
+          if (to) {
+            return (
+              <Link to={to} className={classes} {...(aProps as any)}>
+                {children}
+              </Link>
+            );
+          }
+          return (
+            <a href={url} className={classes} {...aProps}>
+              {children}
+            </a>
+          );
+        },
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
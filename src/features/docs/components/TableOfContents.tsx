@@ -0,0 +1,49 @@
+import { useTranslation } from "react-i18next";
+import { scrollToHeading, type TocItem } from "@/features/docs/lib/toc";
+
+type TableOfContentsProps = {
+  items: TocItem[];
+  /** Id of the heading being read. */
+  activeId: string;
+};
+
+/**
+ * "On this page" list of the h2/h3 headings of a markdown page. Used by the
+ * docs and blog posts together with `useTableOfContents`.
+ */
+export default function TableOfContents({
+  items,
+  activeId,
+}: TableOfContentsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <>
+      <div className="mb-3 text-xs font-semibold uppercase tracking-[0.2em] text-gray-500 dark:text-gray-400">
+        {t("toc.title", { defaultValue: "On this page" })}
+      </div>
+      <ul className="space-y-1.5 text-sm">
+        {items
+          .filter((i) => i.level <= 3)
+          .map((i, idx) => (
+            <li key={`${i.id}-${idx}`} className={i.level > 2 ? "ml-3" : ""}>
+              <a
+                href={`#${i.id}`}
+                onClick={(e) => {
+                  e.preventDefault();
+                  scrollToHeading(i.id);
+                }}
+                className={`block rounded-md border-l-2 px-2 py-1 transition ${
+                  activeId === i.id
+                    ? "border-blue-600 bg-blue-50 text-blue-800 shadow-sm dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-100"
+                    : "border-transparent text-gray-700 hover:border-blue-300 hover:bg-gray-50 dark:text-gray-300 dark:hover:border-amber-500/60 dark:hover:bg-gray-800/60"
+                }`}
+              >
+                {i.text}
+              </a>
+            </li>
+          ))}
+      </ul>
+    </>
+  );
+}
@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useState, type RefObject } from "react";
+import { useLocation } from "react-router-dom";
+import { extractToc, type TocItem } from "@/features/docs/lib/toc";
+
+/**
+ * Builds the table of contents of a markdown body and tracks which heading
+ * is being read (scroll-spy). Also jumps to the heading in the URL hash,
+ * e.g. from search, once the content has rendered.
+ *
+ * @param containerRef - The element the markdown is rendered into.
+ * @param content - The markdown body.
+ * @returns The headings and the id of the active one.
+ */
+export function useTableOfContents(
+  containerRef: RefObject<HTMLElement | null>,
+  content: string
+): { toc: TocItem[]; activeId: string } {
+  const { hash } = useLocation();
+  const [activeId, setActiveId] = useState("");
+  const toc = useMemo(() => extractToc(content), [content]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const headings = Array.from(container.querySelectorAll("h1, h2, h3"));
+    const obs = new IntersectionObserver(
+      (entries) => {
+        const visible = entries
+          .filter((e) => e.isIntersecting)
+          .sort((a, b) => b.intersectionRatio - a.intersectionRatio);
+        if (visible[0]?.target?.id) {
+          setActiveId(visible[0].target.id);
+        }
+      },
+      { rootMargin: "-120px 0px -60% 0px", threshold: [0, 1] }
+    );
+    headings.forEach((h) => obs.observe(h));
+    return () => obs.disconnect();
+  }, [containerRef, content]);
+
+  useEffect(() => {
+    if (!content || !hash) return;
+    const id = decodeURIComponent(hash.slice(1));
+    const frame = requestAnimationFrame(() => {
+      document.getElementById(id)?.scrollIntoView({ block: "start" });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [content, hash]);
+
+  return { toc, activeId };
+}
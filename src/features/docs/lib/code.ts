@@ -0,0 +1,129 @@
+/**
+ * Pure helpers for fenced code blocks in docs markdown.
+ * Shared by the build-time highlighter and the code block renderer, so this
+ * module must not import anything through the `@/` alias or touch the DOM.
+ */
+import type { CodeMeta } from "../../../types/markdown";
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  sh: "bash",
+  shell: "bash",
+  zsh: "bash",
+  console: "bash",
+  yml: "yaml",
+  rs: "rust",
+};
+
+const SHELL_LANGUAGES = new Set(["bash"]);
+const SHELL_PROMPT = /^\s*\$ /;
+
+export type CodeLine = {
+  text: string;
+  change?: "add" | "remove";
+};
+
+/**
+ * Maps fence language aliases onto the grammar names used for highlighting.
+ *
+ * @param lang - The fence language, e.g. `yml`.
+ * @returns The canonical language, e.g. `yaml`, or undefined when absent.
+ */
+export function normalizeCodeLanguage(lang?: string | null) {
+  if (!lang) return undefined;
+  const lower = lang.toLowerCase();
+  return LANGUAGE_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Parses the info string after the fence language.
+ * ```` ```yaml title="values.yaml" {3-5} showLineNumbers diff ````
+ *
+ * @param meta - The raw meta string, if any.
+ * @returns The parsed options.
+ */
+export function parseCodeMeta(meta?: string | null): CodeMeta {
+  const source = meta ?? "";
+  const title = /\btitle=(?:"([^"]*)"|'([^']*)'|(\S+))/.exec(source);
+  const tab = /\[([^\]]+)\]/.exec(source);
+  const ranges = /\{([\d,\s-]+)\}/.exec(source);
+
+  const highlightLines: number[] = [];
+  for (const part of ranges?.[1].split(",") ?? []) {
+    const [start, end = start] = part.trim().split("-").map(Number);
+    for (let n = start; n <= end; n++) {
+      if (Number.isInteger(n) && n > 0) highlightLines.push(n);
+    }
+  }
+
+  return {
+    title: title ? (title[1] ?? title[2] ?? title[3]).trim() : undefined,
+    tab: tab?.[1].trim() || undefined,
+    highlightLines,
+    showLineNumbers: /\bshowLineNumbers\b/.test(source),
+    diff: /(?:^|\s)diff(?:\s|$)/.test(source),
+  };
+}
+
+/**
+ * Splits a code block into display lines. In diff mode the leading `+` / `-`
+ * marker is removed from the text and kept as the line's change type.
+ *
+ * @param code - The code block content.
+ * @param diff - Whether the block uses diff markers.
+ * @returns One entry per line, without the trailing empty line.
+ */
+export function splitCodeLines(code: string, diff: boolean): CodeLine[] {
+  return code
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n$/, "")
+    .split("\n")
+    .map((line) => {
+      if (!diff) return { text: line };
+      const marker = line[0];
+      if (marker === "+") return { text: line.slice(1), change: "add" };
+      if (marker === "-") return { text: line.slice(1), change: "remove" };
+      return { text: marker === " " ? line.slice(1) : line };
+    });
+}
+
+/**
+ * Builds the text put on the clipboard for a code block: removed diff lines
+ * are dropped, and in shell blocks that use `$ ` prompts only the commands
+ * (and their `\` continuation lines) are kept, without the prompt.
+ *
+ * @param code - The code block content.
+ * @param lang - The fence language.
+ * @param diff - Whether the block uses diff markers.
+ * @returns The text to copy.
+ */
+export function getCopyText(
+  code: string,
+  lang: string | undefined,
+  diff: boolean
+) {
+  const lines = splitCodeLines(code, diff)
+    .filter((line) => line.change !== "remove")
+    .map((line) => line.text);
+
+  const language = normalizeCodeLanguage(lang);
+  if (!language || !SHELL_LANGUAGES.has(language)) {
+    return lines.join("\n");
+  }
+  if (!lines.some((line) => SHELL_PROMPT.test(line))) {
+    return lines.join("\n");
+  }
+
+  const commands: string[] = [];
+  let continued = false;
+  for (const line of lines) {
+    if (SHELL_PROMPT.test(line)) {
+      commands.push(line.replace(SHELL_PROMPT, ""));
+    } else if (continued) {
+      commands.push(line);
+    } else {
+      continue;
+    }
+    continued = line.trimEnd().endsWith("\\");
+  }
+  return commands.join("\n");
+}
@@ -0,0 +1,140 @@
+/**
+ * Pure helpers for docs markdown content.
+ * Shared by the docs pages at runtime and by the build-time scripts, so this
+ * module must not import anything through the `@/` alias or touch the DOM.
+ */
+
+/**
+ * Folder and route name of the docs for the newest Helm chart release.
+ * Older releases live next to it as `content/<chart version>/<lng>/`.
+ */
+export const LATEST_DOCS_VERSION = "latest";
+
+export type DocFileName = {
+  /** File name without the `.md` extension, e.g. `030_install`. */
+  slug: string;
+  /** Slug used in routes, e.g. `install`. */
+  displaySlug: string;
+  /** Sort position derived from the `NNN_` prefix. */
+  order: number;
+};
+
+/**
+ * Builds a heading anchor id from its text.
+ * Keeps letters and digits of every script so that Korean headings
+ * still produce a usable id.
+ *
+ * @param text - The heading text.
+ * @returns The anchor id.
+ */
+export function slugify(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
+const FRONTMATTER_PATTERN =
+  /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Separates a leading YAML frontmatter block from the markdown body.
+ * The YAML itself is parsed at build time; the browser only needs the body.
+ *
+ * @param source - The raw markdown file.
+ * @returns The raw frontmatter (or null when absent) and the body.
+ */
+export function splitFrontmatter(source: string): {
+  frontmatter: string | null;
+  body: string;
+} {
+  const m = FRONTMATTER_PATTERN.exec(source);
+  if (!m) {
+    return { frontmatter: null, body: source };
+  }
+  return { frontmatter: m[1], body: source.slice(m[0].length) };
+}
+
+/**
+ * Replaces <br>, <br/>, <br /> with actual line breaks in markdown.
+ * Skips fenced code blocks to avoid altering code examples.
+ *
+ * @param raw - The raw markdown source.
+ * @returns The normalized markdown.
+ */
+export function normalizeMd(raw: string): string {
+  const lines = raw.replace(/\r\n?/g, "\n").split("\n");
+  const out: string[] = [];
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    const t = lines[i];
+    const trimmed = t.trimStart();
+    if (trimmed.startsWith("```")) {
+      inFence = !inFence;
+      out.push(t);
+      continue;
+    }
+    if (inFence) {
+      out.push(t);
+    } else {
+      out.push(t.replace(/<br\s*\/?>(?=\s|$)/gi, "\n"));
+    }
+  }
+  return out.join("\n");
+}
+
+/**
+ * Derives the route slug and ordering from a docs file name.
+ * `030_install.md` becomes `install` with order 30; `index.md` always sorts first.
+ *
+ * @param filename - The file name, with or without the `.md` extension.
+ * @returns The parsed slug information.
+ */
+export function parseDocFileName(filename: string): DocFileName {
+  const slug = filename.replace(/\.md$/, "");
+  let order = Number.POSITIVE_INFINITY;
+  let displaySlug = slug;
+
+  const mOrder = /^(\d{2,3})[_-](.+)$/.exec(slug);
+  if (mOrder) {
+    order = parseInt(mOrder[1], 10);
+    displaySlug = mOrder[2];
+  } else if (slug === "index") {
+    order = Number.NEGATIVE_INFINITY; // keep index at very top
+    displaySlug = "index";
+  }
+
+  return { slug, displaySlug, order };
+}
+
+/**
+ * Turns a route slug into a readable title, used when a doc has no `# ` heading.
+ *
+ * @param displaySlug - The route slug, e.g. `observability-system`.
+ * @returns A title-cased label.
+ */
+export function titleFromSlug(displaySlug: string) {
+  return displaySlug
+    .replace(/[-_]/g, " ")
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/**
+ * Strips inline markdown syntax and keeps the readable text.
+ *
+ * @param line - A single markdown line.
+ * @returns The plain text of the line.
+ */
+export function stripInlineMarkdown(line: string) {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/[*_~`]+/g, "")
+    .replace(/^\s*(?:>\s*)+/, "")
+    .replace(/^\s*(?:[-+*]|\d+\.)\s+/, "")
+    .replace(/\|/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,78 @@
+import { data, redirect, type LoaderFunctionArgs } from "react-router-dom";
+import {
+  DEFAULT_LANGUAGE,
+  normalizeLanguageCode,
+  SUPPORTED_LANGUAGES,
+} from "@/constants/language";
+import { LATEST_DOCS_VERSION } from "@/features/docs/lib/content";
+import {
+  isDocsVersion,
+  resolveDoc,
+  type ResolvedDoc,
+} from "@/features/docs/lib/manifest";
+import { buildDocsPath } from "@/features/docs/lib/paths";
+import type { MarkdownModule } from "@/types/markdown";
+
+const docFiles = import.meta.glob<MarkdownModule>("../content/*/*/*.md", {
+  query: "?markdown",
+  import: "default",
+});
+
+const docCache = new Map<string, Promise<MarkdownModule>>();
+
+function loadDoc(fileKey: string): Promise<MarkdownModule> {
+  const loader = docFiles[fileKey];
+  if (!loader) {
+    return Promise.reject(new Error("Doc not found for key: " + fileKey));
+  }
+
+  if (!docCache.has(fileKey)) {
+    // Frontmatter, `<br>` normalization and highlighting happen at build time.
+    const pending = loader();
+    pending.catch(() => docCache.delete(fileKey));
+    docCache.set(fileKey, pending);
+  }
+
+  return docCache.get(fileKey)!;
+}
+
+export type DocsPageData = {
+  version: string;
+  resolved: ResolvedDoc;
+  markdown: MarkdownModule;
+};
+
+/**
+ * Route loader of the docs pages. Loading the markdown before rendering lets
+ * the pre-renderer output the full page and the client hydrate it as is.
+ * Unknown topics and versions throw a 404 for the route error boundary, and
+ * a bare version (`/en/docs/1.0.0`) redirects to that version's first topic.
+ */
+export async function docsPageLoader({
+  params,
+}: LoaderFunctionArgs): Promise<DocsPageData> {
+  const language = normalizeLanguageCode(params["lng"]);
+  // `docs/:topic` also matches a version without a topic.
+  if (!params["version"] && params["topic"] && isDocsVersion(params["topic"])) {
+    throw redirect(buildDocsPath(language, params["topic"]));
+  }
+  // Latest docs live at the short form only.
+  if (params["version"] === LATEST_DOCS_VERSION) {
+    throw redirect(
+      buildDocsPath(language, LATEST_DOCS_VERSION, params["topic"])
+    );
+  }
+  const version = params["version"] ?? LATEST_DOCS_VERSION;
+  // Untranslated topics fall back to another language's version.
+  const resolved = resolveDoc(version, language, params["topic"] ?? "index", [
+    DEFAULT_LANGUAGE,
+    ...SUPPORTED_LANGUAGES,
+  ]);
+  if (!resolved) {
+    throw data(null, { status: 404, statusText: "Not Found" });
+  }
+
+  const fileKey = `../content/${version}/${resolved.language}/${resolved.doc.fileSlug}.md`;
+  const markdown = await loadDoc(fileKey);
+  return { version, resolved, markdown };
+}
@@ -0,0 +1,168 @@
+import type { TFunction } from "i18next";
+import { docsManifest } from "virtual:docs-manifest";
+import { HELM_CHART_VERSION } from "@/constants/download";
+import { LATEST_DOCS_VERSION } from "@/features/docs/lib/content";
+import type { DocMeta } from "@/types/docs";
+
+export type ResolvedDoc = {
+  doc: DocMeta;
+  /** Language folder the doc was found in. */
+  language: string;
+};
+
+export type DocTagGroup = { tag: string; docs: ResolvedDoc[] };
+
+/**
+ * Lists the available docs versions, `latest` first.
+ */
+export function getDocsVersions(): string[] {
+  return Object.keys(docsManifest);
+}
+
+/**
+ * Checks whether a docs version folder exists.
+ *
+ * @param version - The version route segment.
+ */
+export function isDocsVersion(version: string): boolean {
+  return version in docsManifest;
+}
+
+/**
+ * Builds the label shown in the docs version switcher.
+ * The latest docs are labelled with the chart version they document.
+ *
+ * @param version - A docs version folder name.
+ * @param t - The translation function of the current language.
+ * @returns The label, e.g. "1.0.0-dev.14 (latest)".
+ */
+export function getDocsVersionLabel(version: string, t: TFunction): string {
+  return version === LATEST_DOCS_VERSION
+    ? t("docs.versions.latest", {
+        defaultValue: "{{version}} (latest)",
+        version: HELM_CHART_VERSION,
+      })
+    : version;
+}
+
+/**
+ * Returns the docs of a version and language in topic-list order.
+ *
+ * @param version - The docs version folder.
+ * @param language - The docs language folder.
+ */
+export function getDocTopics(version: string, language: string): DocMeta[] {
+  return docsManifest[version]?.[language] ?? [];
+}
+
+/**
+ * Finds a doc by its route slug, or by its file name for old `030_install` links.
+ *
+ * @param version - The docs version folder.
+ * @param language - The docs language folder.
+ * @param slug - The route or file slug.
+ */
+export function findDoc(
+  version: string,
+  language: string,
+  slug: string
+): DocMeta | undefined {
+  return getDocTopics(version, language).find(
+    (doc) => doc.slug === slug || doc.fileSlug === slug
+  );
+}
+
+/**
+ * Lists the languages a doc is written in.
+ *
+ * @param version - The docs version folder.
+ * @param slug - The route or file slug.
+ * @param languages - The languages to check.
+ */
+export function getDocTranslations<T extends string>(
+  version: string,
+  slug: string,
+  languages: readonly T[]
+): T[] {
+  return languages.filter((lng) => findDoc(version, lng, slug));
+}
+
+/**
+ * Finds a doc in the requested language, falling back to the first other
+ * language that has it when the page is not translated yet.
+ *
+ * @param version - The docs version folder.
+ * @param language - The requested language folder.
+ * @param slug - The route or file slug.
+ * @param fallbackLanguages - Languages to try next, in order.
+ */
+export function resolveDoc(
+  version: string,
+  language: string,
+  slug: string,
+  fallbackLanguages: readonly string[]
+): ResolvedDoc | undefined {
+  for (const candidate of [language, ...fallbackLanguages]) {
+    const doc = findDoc(version, candidate, slug);
+    if (doc) {
+      return { doc, language: candidate };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists the topics of a version for a language in topic-list order, with
+ * untranslated topics taken from the fallback languages like `resolveDoc`
+ * does. A fallback-only topic is placed after the topic it follows in its
+ * own language, so every page that resolves is also in the sidebar.
+ *
+ * @param version - The docs version folder.
+ * @param language - The requested language folder.
+ * @param fallbackLanguages - Languages to take untranslated topics from.
+ */
+export function resolveDocTopics(
+  version: string,
+  language: string,
+  fallbackLanguages: readonly string[]
+): ResolvedDoc[] {
+  const topics: ResolvedDoc[] = [];
+  for (const candidate of [language, ...fallbackLanguages]) {
+    let position = 0;
+    for (const doc of getDocTopics(version, candidate)) {
+      const existing = topics.findIndex(
+        ({ doc: { slug } }) => slug === doc.slug
+      );
+      if (existing >= 0) {
+        position = existing + 1;
+      } else {
+        topics.splice(position++, 0, { doc, language: candidate });
+      }
+    }
+  }
+  return topics;
+}
+
+/**
+ * Groups the docs of a version and language by frontmatter tag,
+ * sorted by tag name. Untranslated docs come from the fallback languages.
+ *
+ * @param version - The docs version folder.
+ * @param language - The requested language folder.
+ * @param fallbackLanguages - Languages to take untranslated docs from.
+ */
+export function collectDocTags(
+  version: string,
+  language: string,
+  fallbackLanguages: readonly string[]
+): DocTagGroup[] {
+  const groups = new Map<string, ResolvedDoc[]>();
+  for (const topic of resolveDocTopics(version, language, fallbackLanguages)) {
+    for (const tag of topic.doc.tags) {
+      groups.set(tag, [...(groups.get(tag) ?? []), topic]);
+    }
+  }
+  return [...groups.entries()]
+    .map(([tag, docs]) => ({ tag, docs }))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,26 @@
+import { buildLanguagePrefix } from "@/constants/language";
+import { LATEST_DOCS_VERSION } from "@/features/docs/lib/content";
+
+/**
+ * Builds the route of a docs page.
+ * Latest docs keep the short `/:lng/docs/:topic` form; older releases use
+ * `/:lng/docs/:version/:topic`.
+ *
+ * @param language - The route language.
+ * @param version - The docs version folder.
+ * @param slug - The topic slug; omitted or `index` for the docs home.
+ * @returns The path including the language prefix.
+ */
+export function buildDocsPath(
+  language: string,
+  version: string = LATEST_DOCS_VERSION,
+  slug?: string
+): string {
+  const docsBasePath = `${buildLanguagePrefix(language)}/${"docs"}`;
+  const page = slug && slug !== "index" ? slug : undefined;
+
+  if (version === LATEST_DOCS_VERSION) {
+    return page ? `${docsBasePath}/${page}` : docsBasePath;
+  }
+  return `${docsBasePath}/${version}/${page ?? "index"}`;
+}
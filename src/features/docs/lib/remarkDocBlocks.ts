@@ -0,0 +1,104 @@
+import type { Code, Paragraph, PhrasingContent, Root, Text } from "mdast";
+import type {} from "mdast-util-directive";
+import { toString } from "mdast-util-to-string";
+import { visit } from "unist-util-visit";
+import { parseCodeMeta } from "@/features/docs/lib/code";
+import type { CalloutType } from "@/shared/components/Callout";
+
+const CALLOUT_TYPES = new Set<string>(["note", "tip", "warning", "danger"]);
+
+const isLabel = (node: unknown): node is Paragraph =>
+  (node as Paragraph).type === "paragraph" &&
+  Boolean((node as Paragraph).data?.directiveLabel);
+
+/**
+ * Reads the tab label of a fenced block inside a code group:
+ * ```` ```bash [Helm] ```` → `Helm`, falling back to the language.
+ */
+const codeTabLabel = (code: Code, index: number) =>
+  parseCodeMeta(code.meta).tab || code.lang || `Tab ${index + 1}`;
+
+const setCodeProperty = (code: Code, key: string, value: string | number) => {
+  code.data = {
+    ...code.data,
+    hProperties: { ...code.data?.hProperties, [key]: value },
+  };
+};
+
+/**
+ * Remark plugin (used after `remark-directive`) for the docs block syntax.
+ *
+ * - `:::note`, `:::tip`, `:::warning`, `:::danger` (optionally `:::tip[Title]`)
+ *   become `<aside data-callout>` elements rendered by `Callout`.
+ * - `:::code-group` wrapping fenced blocks becomes `<div data-code-group>`;
+ *   each block is labelled from its `[Label]` meta and rendered by `CodeTabs`.
+ *
+ * Any other directive is turned back into its source text, so prose such as
+ * `image:tag` is not swallowed by the directive parser.
+ *
+ * Every fenced block also gets `data-block`, its position in the document,
+ * which matches the build-time highlighting in `MarkdownModule.codeBlocks`.
+ */
+export default function remarkDocBlocks() {
+  return (tree: Root) => {
+    let codeIndex = 0;
+    visit(tree, "code", (node) => {
+      setCodeProperty(node, "dataBlock", codeIndex++);
+    });
+
+    visit(tree, (node, index, parent) => {
+      if (node.type === "containerDirective") {
+        if (CALLOUT_TYPES.has(node.name)) {
+          const label = node.children[0];
+          const title = isLabel(label) ? toString(label) : undefined;
+          if (isLabel(label)) node.children.shift();
+          node.data = {
+            hName: "aside",
+            hProperties: {
+              dataCallout: node.name as CalloutType,
+              dataTitle: title,
+            },
+          };
+          return;
+        }
+        if (node.name === "code-group") {
+          node.children = node.children.filter((child) => !isLabel(child));
+          node.children.forEach((child, i) => {
+            if (child.type === "code") {
+              setCodeProperty(child, "dataTab", codeTabLabel(child, i));
+            }
+          });
+          node.data = { hName: "div", hProperties: { dataCodeGroup: true } };
+          return;
+        }
+      }
+
+      if (
+        (node.type === "textDirective" || node.type === "leafDirective") &&
+        parent &&
+        index !== undefined
+      ) {
+        const marker = node.type === "textDirective" ? ":" : "::";
+        const restored: PhrasingContent[] = [
+          { type: "text", value: `${marker}${node.name}` } satisfies Text,
+        ];
+        if (node.children.length > 0) {
+          restored.push(
+            { type: "text", value: "[" },
+            ...node.children,
+            { type: "text", value: "]" }
+          );
+        }
+        if (node.type === "textDirective") {
+          parent.children.splice(index, 1, ...restored);
+          return index + restored.length;
+        }
+        parent.children.splice(index, 1, {
+          type: "paragraph",
+          children: restored,
+        });
+        return index + 1;
+      }
+    });
+  };
+}
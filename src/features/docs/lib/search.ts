@@ -0,0 +1,202 @@
+import { searchIndexLoaders } from "virtual:docs-search-index";
+import { parseQuery, type QueryTerm } from "@/features/docs/lib/tokenize";
+import type {
+  HighlightPart,
+  SearchIndex,
+  SearchPosting,
+  SearchResult,
+} from "@/types/search";
+
+const HEADING_WEIGHT = 5;
+const MAX_BODY_HITS = 10;
+const PREFIX_WEIGHT = 0.6;
+const SNIPPET_LENGTH = 160;
+
+const indexCache = new Map<string, Promise<SearchIndex>>();
+
+/**
+ * Lazily loads the build-time search index for a language.
+ *
+ * @param language - The docs language folder.
+ * @returns The index, or an empty index for an unknown language.
+ */
+export function loadSearchIndex(language: string): Promise<SearchIndex> {
+  const loader = searchIndexLoaders[language];
+  if (!loader) {
+    return Promise.resolve({ sections: [], postings: {} });
+  }
+
+  if (!indexCache.has(language)) {
+    const pending = loader().then((mod) => mod.default);
+    pending.catch(() => indexCache.delete(language));
+    indexCache.set(language, pending);
+  }
+
+  return indexCache.get(language)!;
+}
+
+type TermScores = Map<number, number>;
+
+const scorePostings = (
+  postings: SearchPosting[],
+  sectionCount: number,
+  weight: number,
+  into: TermScores
+) => {
+  const idf = Math.log(1 + sectionCount / postings.length);
+  for (const [section, headingHits, bodyHits] of postings) {
+    const score =
+      idf *
+      weight *
+      (headingHits * HEADING_WEIGHT + Math.min(bodyHits, MAX_BODY_HITS));
+    into.set(section, Math.max(into.get(section) ?? 0, score));
+  }
+};
+
+const matchTerm = (index: SearchIndex, term: QueryTerm): TermScores => {
+  const scores: TermScores = new Map();
+  const total = index.sections.length;
+  const exact = index.postings[term.text];
+
+  if (exact) {
+    scorePostings(exact, total, 1, scores);
+  }
+
+  // Korean compounds: every bigram must occur in the same section.
+  if (term.bigrams.length > 0) {
+    let common: TermScores | null = null;
+    for (const gram of term.bigrams) {
+      const gramScores: TermScores = new Map();
+      scorePostings(index.postings[gram] ?? [], total, 1, gramScores);
+      if (!common) {
+        common = gramScores;
+        continue;
+      }
+      const next: TermScores = new Map();
+      for (const [section, score] of common) {
+        const other = gramScores.get(section);
+        if (other !== undefined) {
+          next.set(section, Math.min(score, other));
+        }
+      }
+      common = next;
+    }
+    for (const [section, score] of common ?? []) {
+      scores.set(section, Math.max(scores.get(section) ?? 0, score));
+    }
+  }
+
+  // Prefix matches keep results stable while the user is still typing.
+  for (const key of Object.keys(index.postings)) {
+    if (key !== term.text && key.startsWith(term.text)) {
+      scorePostings(index.postings[key], total, PREFIX_WEIGHT, scores);
+    }
+  }
+
+  return scores;
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Splits text into highlighted and plain parts for the given query terms.
+ *
+ * @param text - The text to highlight.
+ * @param terms - Parsed query terms.
+ * @returns Parts in display order.
+ */
+export function highlight(text: string, terms: QueryTerm[]): HighlightPart[] {
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(
+    `(${terms
+      .map((term) => escapeRegExp(term.text))
+      .sort((a, b) => b.length - a.length)
+      .join("|")})`,
+    "giu"
+  );
+
+  // split() keeps captured separators at odd indexes.
+  return text
+    .split(pattern)
+    .map((part, i) => ({ text: part, match: i % 2 === 1 }))
+    .filter((part) => part.text.length > 0);
+}
+
+/**
+ * Cuts a window of text around the first query match.
+ *
+ * @param text - The section body.
+ * @param terms - Parsed query terms.
+ * @returns The snippet as highlight parts.
+ */
+export function buildSnippet(text: string, terms: QueryTerm[]) {
+  const lower = text.toLowerCase();
+  const hit = terms
+    .map((term) => lower.indexOf(term.text))
+    .filter((i) => i >= 0)
+    .sort((a, b) => a - b)[0];
+
+  let start = Math.max(0, (hit ?? 0) - SNIPPET_LENGTH / 3);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space >= 0 && space < (hit ?? start) ? space + 1 : start;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const body = text.slice(start, end).trim();
+  const snippet = `${start > 0 ? "… " : ""}${body}${
+    end < text.length ? " …" : ""
+  }`;
+
+  return highlight(snippet, terms);
+}
+
+/**
+ * Ranks doc sections for a query. Every query word has to match a section
+ * (exactly, by prefix or through its Korean bigrams); the score favours
+ * matches in headings and rare terms.
+ *
+ * @param index - The loaded search index.
+ * @param query - The raw search input.
+ * @param limit - Maximum number of results.
+ * @returns Ranked results with highlighted heading and snippet.
+ */
+export function searchDocs(
+  index: SearchIndex,
+  query: string,
+  limit = 20
+): SearchResult[] {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  let combined: TermScores | null = null;
+  for (const term of terms) {
+    const scores = matchTerm(index, term);
+    if (!combined) {
+      combined = scores;
+      continue;
+    }
+    const next: TermScores = new Map();
+    for (const [section, score] of combined) {
+      const other = scores.get(section);
+      if (other !== undefined) {
+        next.set(section, score + other);
+      }
+    }
+    combined = next;
+  }
+
+  return [...(combined ?? [])]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([sectionIndex, score]) => {
+      const section = index.sections[sectionIndex];
+      return {
+        section,
+        score,
+        heading: highlight(section.heading, terms),
+        snippet: buildSnippet(section.text, terms),
+      };
+    });
+}
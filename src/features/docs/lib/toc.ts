@@ -0,0 +1,41 @@
+import { slugify } from "@/features/docs/lib/content";
+
+export type TocItem = { id: string; text: string; level: number };
+
+/**
+ * Lists the headings of a markdown document with the anchor ids that
+ * `MarkdownContent` gives them.
+ *
+ * @param markdown - The markdown body.
+ * @returns The headings in document order.
+ */
+export function extractToc(markdown: string): TocItem[] {
+  const items: TocItem[] = [];
+  let inFence = false;
+  for (const line of markdown.split("\n")) {
+    if (line.trimStart().startsWith("```")) {
+      inFence = !inFence;
+      continue;
+    }
+    const m = !inFence && /^(#{1,6})\s+(.+)$/.exec(line.trim());
+    if (m) {
+      const text = m[2].replace(/`/g, "").trim();
+      items.push({ id: slugify(text), text, level: m[1].length });
+    }
+  }
+  return items;
+}
+
+/**
+ * Smoothly scrolls to a heading and records it in the URL hash without
+ * adding a history entry.
+ *
+ * @param id - The heading anchor id.
+ */
+export function scrollToHeading(id: string) {
+  const el = document.getElementById(id);
+  if (el) {
+    el.scrollIntoView({ behavior: "smooth", block: "start" });
+    history.replaceState(null, "", `#${id}`);
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Search tokenizer shared by the build-time index generator and the
+ * client-side query parser. Both sides must agree on the terms they produce,
+ * so keep this module free of runtime dependencies.
+ */
+
+const WORD_PATTERN = /\p{Script=Hangul}+|[^\s\p{P}\p{S}\p{Script=Hangul}]+/gu;
+const HANGUL_PATTERN = /\p{Script=Hangul}/u;
+
+// Common Korean particles, longest first so "에서는" wins over "는".
+const KOREAN_PARTICLES = [
+  "에서는",
+  "으로는",
+  "에서",
+  "으로",
+  "에게",
+  "까지",
+  "부터",
+  "처럼",
+  "보다",
+  "하고",
+  "이나",
+  "이며",
+  "과",
+  "와",
+  "을",
+  "를",
+  "은",
+  "는",
+  "이",
+  "가",
+  "의",
+  "에",
+  "로",
+  "도",
+  "만",
+];
+
+export type QueryTerm = {
+  /** The normalized query word. */
+  text: string;
+  /**
+   * Hangul bigrams that must all be present when the word itself is not an
+   * indexed term (e.g. it is part of a longer compound word).
+   */
+  bigrams: string[];
+};
+
+const isHangul = (word: string) => HANGUL_PATTERN.test(word);
+
+/**
+ * Removes a trailing Korean particle, keeping at least two syllables.
+ *
+ * @param word - A Hangul word.
+ * @returns The word without its particle.
+ */
+export function stripKoreanParticle(word: string) {
+  for (const particle of KOREAN_PARTICLES) {
+    if (word.endsWith(particle) && word.length - particle.length >= 2) {
+      return word.slice(0, -particle.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Splits a Hangul word into overlapping two-syllable grams.
+ *
+ * @param word - A Hangul word.
+ * @returns The bigrams, e.g. "스토리지" → ["스토", "토리", "리지"].
+ */
+export function hangulBigrams(word: string) {
+  const grams: string[] = [];
+  for (let i = 0; i < word.length - 1; i++) {
+    grams.push(word.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/**
+ * Splits text into normalized words.
+ * Hangul and non-Hangul runs are separated so that "RustCost를" yields
+ * "rustcost" and "를".
+ *
+ * @param text - Free text.
+ * @returns Lowercased words with Korean particles stripped.
+ */
+export function splitWords(text: string) {
+  const words: string[] = [];
+  for (const match of text.toLowerCase().matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    words.push(isHangul(word) ? stripKoreanParticle(word) : word);
+  }
+  return words;
+}
+
+/**
+ * Produces the index terms for a piece of text.
+ * Korean words are indexed both as a whole and as bigrams, because compound
+ * nouns are usually written without spaces.
+ *
+ * @param text - Free text.
+ * @returns Index terms, including duplicates so callers can count frequency.
+ */
+export function tokenize(text: string) {
+  const terms: string[] = [];
+  for (const word of splitWords(text)) {
+    if (isHangul(word)) {
+      terms.push(word);
+      if (word.length > 2) {
+        terms.push(...hangulBigrams(word));
+      }
+    } else if (word.length > 1 || /\d/.test(word)) {
+      terms.push(word);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Parses a user query into terms for matching against the index.
+ *
+ * @param query - The raw search input.
+ * @returns The query terms, deduplicated.
+ */
+export function parseQuery(query: string): QueryTerm[] {
+  const seen = new Set<string>();
+  const terms: QueryTerm[] = [];
+  for (const word of splitWords(query)) {
+    if (seen.has(word)) continue;
+    seen.add(word);
+    terms.push({
+      text: word,
+      bigrams: isHangul(word) && word.length > 2 ? hangulBigrams(word) : [],
+    });
+  }
+  return terms;
+}
@@ -1,291 +1,177 @@
-﻿/* eslint-disable @typescript-eslint/no-explicit-any */
-import { useParams, Link } from "react-router-dom";
-import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { HashtagIcon } from "@heroicons/react/24/outline";
-import type { JSX } from "react/jsx-runtime";
+﻿import { useParams, Link, useLoaderData, useNavigate } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { PencilSquareIcon } from "@heroicons/react/24/outline";
 import {
-  buildLanguagePrefix,
+  DEFAULT_LANGUAGE,
+  getLanguageLabel,
   normalizeLanguageCode,
+  SUPPORTED_LANGUAGES,
 } from "@/constants/language";
 import type { LanguageCode } from "@/types/i18n";
 import PageSEO from "@/shared/components/PageSEO";
-
-type TocItem = { id: string; text: string; level: number };
-
-function slugify(text: string) {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, "")
-    .trim()
-    .replace(/\s+/g, "-");
-}
-
-// Replace <br>, <br/>, <br /> with actual line breaks in markdown
-// Skips fenced code blocks to avoid altering code examples
-function normalizeMd(raw: string): string {
-  const lines = raw.replace(/\r\n?/g, "\n").split("\n");
-  const out: string[] = [];
-  let inFence = false;
-  for (let i = 0; i < lines.length; i++) {
-    const t = lines[i];
-    const trimmed = t.trimStart();
-    if (trimmed.startsWith("```")) {
-      inFence = !inFence;
-      out.push(t);
-      continue;
-    }
-    if (inFence) {
-      out.push(t);
-    } else {
-      out.push(t.replace(/<br\s*\/?>(?=\s|$)/gi, "\n"));
-    }
-  }
-  return out.join("\n");
-}
-
-const docFiles = import.meta.glob("../content/*/*.md", {
-  query: "?raw",
-  import: "default",
-});
-
-type DocCacheValue = {
-  normalized: string;
-  title?: string;
-};
-
-const docCache = new Map<string, Promise<DocCacheValue>>();
-
-function loadDoc(fileKey: string): Promise<DocCacheValue> {
-  const loader = docFiles[fileKey];
-  if (!loader) {
-    return Promise.reject(new Error("Doc not found for key: " + fileKey));
-  }
-
-  if (!docCache.has(fileKey)) {
-    docCache.set(
-      fileKey,
-      (async () => {
-        const raw = (await loader()) as string;
-        const heading = /^\s*#\s+(.+)$/m.exec(raw)?.[1].trim();
-        return {
-          normalized: normalizeMd(raw),
-          title: heading,
-        };
-      })()
-    );
-  }
-
-  return docCache.get(fileKey)!;
-}
+import Badge from "@/shared/components/Badge";
+import { useFormatters } from "@/shared/hooks/useFormatters";
+import { LATEST_DOCS_VERSION } from "@/features/docs/lib/content";
+import {
+  getDocsVersionLabel,
+  getDocTranslations,
+  resolveDoc,
+  resolveDocTopics,
+  type ResolvedDoc,
+} from "@/features/docs/lib/manifest";
+import { buildDocsPath } from "@/features/docs/lib/paths";
+import DocsVersionSelect from "@/features/docs/components/DocsVersionSelect";
+import MarkdownContent from "@/features/docs/components/MarkdownContent";
+import DocsBreadcrumbs, {
+  type DocsBreadcrumb,
+} from "@/features/docs/components/DocsBreadcrumbs";
+import { DOCS_EDIT_BASE_URL } from "@/constants/docs";
+import TableOfContents from "@/features/docs/components/TableOfContents";
+import { useTableOfContents } from "@/features/docs/hooks/useTableOfContents";
+import type { DocsPageData } from "@/features/docs/lib/loaders";
 
 export default function DocsPage() {
   type DocsParams = {
     ["lng"]?: LanguageCode;
+    ["version"]?: string;
     ["topic"]?: string;
   };
   const params = useParams<DocsParams>();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { formatDate } = useFormatters();
   const language = normalizeLanguageCode(params["lng"]);
-  const currentTopic = params["topic"] ?? "index";
-  const [content, setContent] = useState("");
-  const [topics, setTopics] = useState<{ slug: string; title: string }[]>([]);
+  const version = params["version"] ?? LATEST_DOCS_VERSION;
+  const isLatest = version === LATEST_DOCS_VERSION;
+  const { resolved, markdown } = useLoaderData() as DocsPageData;
+  const content = markdown.body;
+  const codeBlocks = markdown.codeBlocks;
   const [open, setOpen] = useState(false);
-  const [activeId, setActiveId] = useState<string>("");
+  const articleRef = useRef<HTMLElement>(null);
   const [previewSrc, setPreviewSrc] = useState<string | null>(null);
 
-  useEffect(() => {
-    let cancelled = false;
-
-    type Item = {
-      fileKey: string;
-      slug: string;
-      displaySlug: string;
-      title: string;
-      order: number;
-    };
-
-    const keys = Object.keys(docFiles).filter((k) =>
-      k.startsWith(`../content/${language}/`)
-    );
-
-    const items: Item[] = keys.map((k) => {
-      const filename = k.split("/").pop()!; // e.g., 001_overview.md
-      const base = filename.replace(/\.md$/, "");
-      let order = Number.POSITIVE_INFINITY;
-      let displaySlug = base;
-
-      const mOrder = /^(\d{2,3})[_-](.+)$/.exec(base);
-      if (mOrder) {
-        order = parseInt(mOrder[1], 10);
-        displaySlug = mOrder[2];
-      } else if (base === "index") {
-        order = Number.NEGATIVE_INFINITY; // keep index at very top
-        displaySlug = "index";
-      }
-
-      const fallbackTitle = displaySlug
-        .replace(/[-_]/g, " ")
-        .replace(/\b\w/g, (c) => c.toUpperCase());
-
-      return {
-        fileKey: k,
-        slug: base,
-        displaySlug,
-        title: fallbackTitle,
-        order,
-      };
-    });
-
-    items.sort((a, b) =>
-      a.order === b.order ? a.title.localeCompare(b.title) : a.order - b.order
-    );
-
-    if (!cancelled) {
-      setTopics(
-        items.map(({ displaySlug, title }) => ({ slug: displaySlug, title }))
-      );
-    }
-
-    const desired = currentTopic;
-    const fallbackPath = `../content/${language}/${desired}.md`;
-    let resolved = items.find((i) => i.displaySlug === desired)?.fileKey;
-    if (!resolved && docFiles[fallbackPath]) {
-      resolved = fallbackPath;
-    }
-
-    if (resolved && docFiles[resolved]) {
-      loadDoc(resolved)
-        .then((doc) => {
-          if (!cancelled) {
-            setContent(doc.normalized);
-          }
-        })
-        .catch(() => {
-          if (!cancelled) {
-            setContent(`# 404\nNot found: ${language}/${desired}`);
-          }
-        });
-    } else {
-      setContent(`# 404\nNot found: ${language}/${desired}`);
-    }
-
-    Promise.all(
-      items.map(async ({ fileKey, displaySlug, title }) => {
-        try {
-          const doc = await loadDoc(fileKey);
-          return { slug: displaySlug, title: doc.title ?? title };
-        } catch {
-          return { slug: displaySlug, title };
-        }
-      })
-    ).then((loadedTopics) => {
-      if (!cancelled) {
-        setTopics(loadedTopics);
-      }
-    });
-
-    return () => {
-      cancelled = true;
-    };
-  }, [language, currentTopic]);
+  // Untranslated topics are listed too, so the sidebar and the pager match
+  // the pages the loader resolves.
+  const topics = useMemo(
+    () =>
+      resolveDocTopics(version, language, [
+        DEFAULT_LANGUAGE,
+        ...SUPPORTED_LANGUAGES,
+      ]),
+    [version, language]
+  );
+  const currentDoc = resolved.doc;
+  const contentLanguage = resolved.language;
+  const isFallback = contentLanguage !== language;
 
-  const toc: TocItem[] = useMemo(() => {
-    const lines = content.split("\n");
-    const items: TocItem[] = [];
-    for (const line of lines) {
-      const m = /^(#{1,6})\s+(.+)$/.exec(line.trim());
-      if (m) {
-        const level = m[1].length;
-        const text = m[2].replace(/`/g, "").trim();
-        const id = slugify(text);
-        items.push({ id, text, level });
-      }
-    }
-    return items;
-  }, [content]);
+  const { toc, activeId } = useTableOfContents(articleRef, content);
 
   useEffect(() => {
-    const headings = Array.from(
-      document.querySelectorAll("article h1, article h2, article h3")
-    );
-    const obs = new IntersectionObserver(
-      (entries) => {
-        const visible = entries
-          .filter((e) => e.isIntersecting)
-          .sort((a, b) => b.intersectionRatio - a.intersectionRatio);
-        if (visible[0]?.target?.id) {
-          setActiveId(visible[0].target.id);
-        }
-      },
-      { rootMargin: "-120px 0px -60% 0px", threshold: [0, 1] }
-    );
-    headings.forEach((h) => obs.observe(h));
     const onKey = (e: KeyboardEvent) => {
       if (e.key === "Escape") setPreviewSrc(null);
     };
     window.addEventListener("keydown", onKey);
-    return () => {
-      obs.disconnect();
-      window.removeEventListener("keydown", onKey);
-    };
-  }, [content]);
-
-  const scrollToId = useCallback((id: string) => {
-    const el = document.getElementById(id);
-    if (el) {
-      el.scrollIntoView({ behavior: "smooth", block: "start" });
-      history.replaceState(null, "", `#${id}`);
-    }
+    return () => window.removeEventListener("keydown", onKey);
   }, []);
 
-  const headingStyles: Record<string, string> = {
-    h1: "mt-12 mb-4 text-[32px] leading-[1.2] font-semibold text-gray-900 dark:text-gray-50",
-    h2: "mt-10 mb-3 text-[26px] leading-[1.3] font-semibold text-gray-900 dark:text-gray-50",
-    h3: "mt-8 mb-2.5 text-[21px] leading-[1.35] font-semibold text-gray-900 dark:text-gray-50",
-    h4: "mt-7 mb-2 text-[18px] leading-[1.4] font-semibold text-gray-900 dark:text-gray-50",
+  const docsBasePath = buildDocsPath(language);
+  const buildDocPath = (slug?: string) =>
+    buildDocsPath(language, version, slug);
+
+  // Keep the reader on the same topic when it exists in the other version.
+  const buildVersionPath = (targetVersion: string) => {
+    const slug = currentDoc.slug;
+    const exists =
+      slug &&
+      resolveDoc(targetVersion, language, slug, [
+        DEFAULT_LANGUAGE,
+        ...SUPPORTED_LANGUAGES,
+      ]);
+    return buildDocsPath(language, targetVersion, exists ? slug : undefined);
   };
+  const breadcrumbs: DocsBreadcrumb[] = [
+    {
+      label: t("docs.title", { defaultValue: "Documentation" }),
+      to: docsBasePath,
+    },
+  ];
+  if (!isLatest) {
+    breadcrumbs.push({
+      label: getDocsVersionLabel(version, t),
+      to: buildDocPath(),
+    });
+  }
+  if (currentDoc.slug !== "index") {
+    breadcrumbs.push({ label: currentDoc.title });
+  }
+  // The last crumb is the page being read.
+  breadcrumbs[breadcrumbs.length - 1].to = undefined;
 
-  const Heading =
-    (tag: keyof JSX.IntrinsicElements) =>
-    ({ children, className = "", ...props }: any) => {
-      const text = String(children).replace(/<[^>]+>/g, "");
-      const id = slugify(text);
-      const T = tag as any;
-      return (
-        <T
-          id={id}
-          className={`group scroll-mt-28 ${headingStyles[tag]} ${className}`}
-          {...props}
+  const topicIndex = topics.findIndex(
+    (topic) => topic.doc.slug === currentDoc.slug
+  );
+  const prevTopic = topicIndex > 0 ? topics[topicIndex - 1].doc : null;
+  const nextTopic =
+    topicIndex >= 0 && topicIndex < topics.length - 1
+      ? topics[topicIndex + 1].doc
+      : null;
+  const renderTopicLabel = ({ doc, language: topicLanguage }: ResolvedDoc) => (
+    <>
+      <span className="min-w-0 flex-1">{doc.sidebarLabel}</span>
+      {topicLanguage !== language && (
+        <span
+          lang={topicLanguage}
+          title={t("docs.untranslated.label", {
+            defaultValue: "Not yet translated, shown in {{language}}",
+            language: getLanguageLabel(topicLanguage),
+          })}
+          className="ml-2 shrink-0 rounded border border-gray-200 px-1 text-[10px] font-semibold uppercase text-gray-500 dark:border-gray-700 dark:text-gray-400"
         >
-          {children}
-          <a
-            href={`#${id}`}
-            onClick={(e) => {
-              e.preventDefault();
-              scrollToId(id);
-            }}
-            aria-label={`Link to ${text}`}
-            className="ml-2 inline-flex align-middle text-gray-400 transition hover:text-blue-600 dark:hover:text-amber-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 dark:focus-visible:ring-amber-400 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:focus-visible:ring-offset-gray-900 opacity-0 group-hover:opacity-100"
-          >
-            <HashtagIcon className="h-4 w-4" />
-          </a>
-        </T>
-      );
-    };
-
-  const prefix = buildLanguagePrefix(language);
-  const docsBasePath = `${prefix}/${"docs"}`;
-  const buildDocPath = (slug?: string) =>
-    slug && slug !== "index" ? `${docsBasePath}/${slug}` : docsBasePath;
+          {topicLanguage}
+        </span>
+      )}
+    </>
+  );
+  const editUrl = `${DOCS_EDIT_BASE_URL}/${version}/${contentLanguage}/${currentDoc.fileSlug}.md`;
+
+  const versionSelect = (
+    <DocsVersionSelect
+      value={version}
+      onChange={(next) => navigate(buildVersionPath(next))}
+      className="w-full"
+      ariaLabel={t("docs.versions.select", {
+        defaultValue: "Select docs version",
+      })}
+    />
+  );
+  const isTopicPage = currentDoc.slug !== "index";
 
   return (
     <div className="relative">
       <PageSEO
-        titleKey="seo.docs.title"
-        titleDefault="RustCost Documentation"
-        descriptionKey="seo.docs.description"
-        descriptionDefault="Install guides, architecture notes, and docs for RustCost."
+        titleKey={isTopicPage ? "seo.docs.topicTitle" : "seo.docs.title"}
+        titleDefault={
+          isTopicPage
+            ? `${currentDoc.title} · RustCost Docs`
+            : "RustCost Documentation"
+        }
+        titleParams={{ title: currentDoc.title }}
+        descriptionKey={
+          currentDoc.description
+            ? "seo.docs.topicDescription"
+            : "seo.docs.description"
+        }
+        descriptionDefault={
+          currentDoc.description ??
+          "Install guides, architecture notes, and docs for RustCost."
+        }
+        descriptionParams={{ description: currentDoc.description }}
+        translations={getDocTranslations(
+          version,
+          currentDoc.slug,
+          SUPPORTED_LANGUAGES
+        )}
       />
       <div className="mb-4 flex items-center justify-between lg:hidden">
         <button
@@ -301,276 +187,175 @@ export default function DocsPage() {
 
       <div className="grid grid-cols-1 gap-8 lg:grid-cols-[250px_minmax(0,1fr)_220px]">
         <aside className="sticky top-24 hidden h-[calc(100vh-7rem)] select-none overflow-y-auto pr-3 lg:block">
+          <div className="mb-4">{versionSelect}</div>
           <nav className="space-y-1.5">
-            {topics.map((t) => (
+            {topics.map((topic) => (
               <Link
-                key={t.slug}
-                to={buildDocPath(t.slug)}
+                key={topic.doc.slug}
+                to={buildDocPath(topic.doc.slug)}
                 className={`flex items-center rounded-md border-l-2 px-3 py-2 text-[14px] font-medium transition ${
-                  currentTopic === t.slug
+                  currentDoc.slug === topic.doc.slug
                     ? "border-blue-600 bg-blue-50 text-blue-800 shadow-sm dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-100"
                     : "border-transparent text-gray-700 hover:border-blue-300 hover:bg-gray-50 dark:text-gray-300 dark:hover:border-amber-500/60 dark:hover:bg-gray-800/70"
                 }`}
               >
-                {t.title}
+                {renderTopicLabel(topic)}
               </Link>
             ))}
           </nav>
         </aside>
 
         <main className="min-w-0">
-          <article className="max-w-4xl text-[15px] leading-[1.75] text-gray-800 antialiased dark:text-gray-100">
-            <ReactMarkdown
-              remarkPlugins={[remarkGfm]}
-              components={{
-                h1: Heading("h1"),
-                h2: Heading("h2"),
-                h3: Heading("h3"),
-                h4: Heading("h4"),
-                p({ children, ...rest }) {
-                  return (
-                    <p className="my-4 text-[15px] leading-[1.75]" {...rest}>
-                      {children}
-                    </p>
-                  );
-                },
-                ul({ children, ...rest }) {
-                  return (
-                    <ul
-                      className="my-4 space-y-2 pl-6 text-[15px] leading-[1.7] marker:text-gray-500 dark:marker:text-gray-400 list-disc"
-                      {...rest}
-                    >
-                      {children}
-                    </ul>
-                  );
-                },
-                ol({ children, ...rest }) {
-                  return (
-                    <ol
-                      className="my-4 space-y-2 pl-6 text-[15px] leading-[1.7] marker:text-gray-500 dark:marker:text-gray-400 list-decimal"
-                      {...rest}
-                    >
-                      {children}
-                    </ol>
-                  );
-                },
-                li({ children, ...rest }) {
-                  return (
-                    <li className="pl-1 text-[15px] leading-[1.7]" {...rest}>
-                      {children}
-                    </li>
-                  );
-                },
-                blockquote({ children, ...rest }) {
-                  return (
-                    <blockquote
-                      className="my-6 border-l-4 border-blue-400 bg-blue-50/80 px-4 py-3 text-[15px] leading-[1.75] text-gray-900 italic shadow-sm dark:border-amber-500 dark:bg-amber-900/30 dark:text-gray-50"
-                      {...rest}
-                    >
-                      {children}
-                    </blockquote>
-                  );
-                },
-                hr() {
-                  return (
-                    <hr className="my-10 border-t border-gray-200 dark:border-gray-800" />
-                  );
-                },
-                code({ inline, className, children, ...rest }: any) {
-                  const text = Array.isArray(children)
-                    ? children.join("")
-                    : String(children);
-
-                  if (inline) {
-                    return (
-                      <code
-                        className={`rounded-sm bg-blue-50 px-1.5 py-0.5 text-[13px] font-medium text-blue-800 dark:bg-amber-900/50 dark:text-amber-100 ${
-                          className || ""
-                        }`}
-                        {...rest}
-                      >
-                        {children}
-                      </code>
-                    );
-                  }
-
-                  return (
-                    <div className="not-prose relative my-6 overflow-hidden rounded-lg border border-gray-200 bg-gray-950 text-gray-100 shadow-sm dark:border-gray-700 dark:bg-gray-900">
-                      <pre className="overflow-x-auto px-4 py-4 text-[13px] leading-[1.65]">
-                        <code className={className} {...rest}>
-                          {children}
-                        </code>
-                      </pre>
-                      <button
-                        type="button"
-                        onClick={() => navigator.clipboard.writeText(text)}
-                        className="absolute right-3 top-3 inline-flex items-center rounded-md border border-gray-500/40 bg-gray-900/80 px-2.5 py-1 text-[11px] font-semibold uppercase tracking-[0.04em] text-gray-100 shadow-sm transition hover:border-blue-400 hover:text-blue-100 dark:hover:border-amber-400 dark:hover:text-amber-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 dark:focus-visible:ring-amber-400"
-                      >
-                        Copy
-                      </button>
-                    </div>
-                  );
-                },
-                table({ children }) {
-                  return (
-                    <div className="not-prose my-6 overflow-x-auto rounded-lg border border-gray-200 shadow-sm dark:border-gray-800">
-                      <table className="w-full border-collapse text-left text-[14px] leading-[1.6] text-gray-800 dark:text-gray-100">
-                        {children}
-                      </table>
-                    </div>
-                  );
-                },
-                thead({ children, ...rest }) {
-                  return (
-                    <thead className="bg-gray-50 dark:bg-gray-800" {...rest}>
-                      {children}
-                    </thead>
-                  );
-                },
-                tbody({ children, ...rest }) {
-                  return <tbody {...rest}>{children}</tbody>;
-                },
-                tr({ children, ...rest }) {
-                  return (
-                    <tr
-                      className="border-b border-gray-200 last:border-0 odd:bg-white even:bg-gray-50 dark:border-gray-800 dark:odd:bg-gray-900 dark:even:bg-gray-800/70"
-                      {...rest}
-                    >
-                      {children}
-                    </tr>
-                  );
-                },
-                th({ children, ...rest }) {
-                  return (
-                    <th
-                      className="px-4 py-3 text-sm font-semibold text-gray-900 dark:text-gray-50"
-                      {...rest}
-                    >
-                      {children}
-                    </th>
-                  );
-                },
-                td({ children, ...rest }) {
-                  return (
-                    <td
-                      className="px-4 py-3 align-top text-sm text-gray-800 dark:text-gray-100"
-                      {...rest}
-                    >
-                      {children}
-                    </td>
-                  );
-                },
-                img: ({ src, alt, title }: any) => (
-                  <img
-                    src={src}
-                    alt={alt}
-                    title={title}
-                    loading="lazy"
-                    className="my-6 mx-auto rounded-lg border border-gray-200 shadow-md transition hover:shadow-lg dark:border-gray-700"
-                    onClick={() => setPreviewSrc(src)}
-                  />
-                ),
-                a: ({ href, children, ...aProps }: any) => {
-                  const url = String(href || "");
-                  const classes =
-                    "text-blue-600 underline decoration-[0.08em] underline-offset-[0.16em] transition hover:text-blue-700 dark:text-amber-300 dark:hover:text-amber-200";
-                  if (/^https?:\/\//i.test(url)) {
-                    return (
-                      <a
-                        href={url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className={classes}
-                        {...aProps}
-                      >
-                        {children}
-                      </a>
-                    );
-                  }
-                  if (url.startsWith("./")) {
-                    const slug = url.replace(/^\.\//, "").replace(/\.md$/, "");
-                    const to = buildDocPath(slug);
-                    return (
-                      <Link to={to} className={classes} {...(aProps as any)}>
-                        {children}
-                      </Link>
-                    );
-                  }
-                  return (
-                    <a href={url} className={classes} {...aProps}>
-                      {children}
-                    </a>
-                  );
-                },
-              }}
+          <DocsBreadcrumbs
+            items={breadcrumbs}
+            ariaLabel={t("docs.breadcrumbs", { defaultValue: "Breadcrumb" })}
+          />
+          {(currentDoc.draft ||
+            currentDoc.tags.length > 0 ||
+            currentDoc.lastReviewed) && (
+            <div className="mb-2 flex max-w-4xl flex-wrap items-center gap-2 text-xs text-gray-500 select-none dark:text-gray-400">
+              {currentDoc.draft && (
+                <Badge
+                  text={t("docs.draft", { defaultValue: "DRAFT" })}
+                  variant="yellow"
+                />
+              )}
+              {currentDoc.tags.map((tag) => (
+                <Link
+                  key={tag}
+                  to={`${docsBasePath}/tags/${encodeURIComponent(tag)}`}
+                  className="rounded-full border border-gray-200 px-2.5 py-0.5 font-medium text-gray-600 transition hover:border-blue-400 hover:text-blue-700 dark:border-gray-700 dark:text-gray-300 dark:hover:border-amber-500/60 dark:hover:text-amber-200"
+                >
+                  #{tag}
+                </Link>
+              ))}
+              {currentDoc.lastReviewed && (
+                <span className="ml-auto">
+                  {t("docs.lastReviewed", {
+                    defaultValue: "Last reviewed {{date}}",
+                    date: formatDate(currentDoc.lastReviewed),
+                  })}
+                </span>
+              )}
+            </div>
+          )}
+          {!isLatest && (
+            <div
+              role="note"
+              className="mb-6 max-w-4xl rounded-lg border border-amber-300/40 bg-amber-50/50 p-4 text-sm text-amber-800 dark:border-amber-300/20 dark:bg-amber-400/10 dark:text-amber-200"
+            >
+              {t("docs.versions.outdated", {
+                defaultValue:
+                  "You are viewing old docs for chart version {{version}}.",
+                version: getDocsVersionLabel(version, t),
+              })}{" "}
+              <Link
+                to={buildVersionPath(LATEST_DOCS_VERSION)}
+                className="font-semibold underline"
+              >
+                {t("docs.versions.goLatest", {
+                  defaultValue: "Go to the latest docs",
+                })}
+              </Link>
+            </div>
+          )}
+          {isFallback && (
+            <div
+              role="note"
+              className="mb-6 max-w-4xl rounded-lg border border-amber-300/40 bg-amber-50/50 p-4 text-sm text-amber-800 dark:border-amber-300/20 dark:bg-amber-400/10 dark:text-amber-200"
             >
-              {content}
-            </ReactMarkdown>
-            {(() => {
-              const idx = topics.findIndex((t) => t.slug === currentTopic);
-              const prev = idx > 0 ? topics[idx - 1] : null;
-              const next =
-                idx >= 0 && idx < topics.length - 1 ? topics[idx + 1] : null;
-              if (!prev && !next) return null;
-              return (
-                <div className="mt-10 grid grid-cols-1 gap-3 sm:grid-cols-2 not-prose select-none">
-                  {prev && (
-                    <Link
-                      to={buildDocPath(prev.slug)}
-                      className="group inline-flex w-fit items-center gap-2 rounded-md border border-gray-200 bg-white px-4 py-3 text-sm font-semibold text-gray-700 shadow-sm transition hover:border-blue-400 hover:bg-blue-50 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-100 dark:hover:border-amber-500/60 dark:hover:bg-amber-900/30"
-                    >
-                      <span className="text-lg leading-none text-blue-600 dark:text-amber-300">
-                        ‹
-                      </span>
-                      {prev.title}
-                    </Link>
-                  )}
-                  {next && (
-                    <Link
-                      to={buildDocPath(next.slug)}
-                      className="group inline-flex w-fit items-center justify-self-end gap-2 rounded-md border border-gray-200 bg-white px-4 py-3 text-sm font-semibold text-gray-700 shadow-sm transition hover:border-blue-400 hover:bg-blue-50 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-100 dark:hover:border-amber-500/60 dark:hover:bg-amber-900/30"
-                    >
-                      {next.title}
-                      <span className="text-lg leading-none text-blue-600 dark:text-amber-300">
-                        ›
-                      </span>
-                    </Link>
-                  )}
-                </div>
-              );
-            })()}
+              {t("docs.untranslated.notice", {
+                defaultValue:
+                  "This page is not yet translated into {{language}}. You are reading the {{source}} version.",
+                language: getLanguageLabel(language),
+                source: getLanguageLabel(contentLanguage),
+              })}{" "}
+              <Link
+                to={buildDocsPath(contentLanguage, version, currentDoc.slug)}
+                className="font-semibold underline"
+              >
+                {t("docs.untranslated.viewOriginal", {
+                  defaultValue: "Open the original page",
+                })}
+              </Link>
+            </div>
+          )}
+          <article
+            ref={articleRef}
+            lang={contentLanguage}
+            className="max-w-4xl text-[15px] leading-[1.75] text-gray-800 antialiased dark:text-gray-100"
+          >
+            <MarkdownContent
+              content={content}
+              codeBlocks={codeBlocks}
+              resolveLink={(url) =>
+                url.startsWith("./")
+                  ? buildDocPath(url.replace(/^\.\//, "").replace(/\.md$/, ""))
+                  : undefined
+              }
+              onImageClick={setPreviewSrc}
+            />
+            <div className="mt-12 flex flex-wrap items-center justify-between gap-3 border-t border-gray-200 pt-4 text-sm text-gray-500 select-none dark:border-gray-800 dark:text-gray-400">
+              <a
+                href={editUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1.5 font-medium text-blue-600 transition hover:text-blue-700 dark:text-amber-300 dark:hover:text-amber-200"
+              >
+                <PencilSquareIcon className="h-4 w-4" aria-hidden="true" />
+                {t("docs.editPage", { defaultValue: "Edit this page" })}
+              </a>
+              {currentDoc.lastUpdated && (
+                <span>
+                  {t("docs.lastUpdated", {
+                    defaultValue: "Last updated {{date}}",
+                    date: formatDate(currentDoc.lastUpdated),
+                  })}
+                </span>
+              )}
+            </div>
+            {(prevTopic || nextTopic) && (
+              <nav
+                aria-label={t("docs.pager.label", {
+                  defaultValue: "Docs pages",
+                })}
+                className="mt-6 grid grid-cols-1 gap-3 sm:grid-cols-2 not-prose select-none"
+              >
+                {prevTopic && (
+                  <Link
+                    to={buildDocPath(prevTopic.slug)}
+                    rel="prev"
+                    className="group flex flex-col gap-1 rounded-lg border border-gray-200 bg-white px-4 py-3 shadow-sm transition hover:border-blue-400 hover:bg-blue-50 dark:border-gray-800 dark:bg-gray-900 dark:hover:border-amber-500/60 dark:hover:bg-amber-900/30"
+                  >
+                    <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                      ‹ {t("docs.pager.previous", { defaultValue: "Previous" })}
+                    </span>
+                    <span className="font-semibold text-gray-900 group-hover:text-blue-700 dark:text-gray-50 dark:group-hover:text-amber-100">
+                      {prevTopic.sidebarLabel}
+                    </span>
+                  </Link>
+                )}
+                {nextTopic && (
+                  <Link
+                    to={buildDocPath(nextTopic.slug)}
+                    rel="next"
+                    className="group flex flex-col gap-1 rounded-lg border border-gray-200 bg-white px-4 py-3 shadow-sm transition hover:border-blue-400 hover:bg-blue-50 dark:border-gray-800 dark:bg-gray-900 dark:hover:border-amber-500/60 dark:hover:bg-amber-900/30 text-right sm:col-start-2"
+                  >
+                    <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                      {t("docs.pager.next", { defaultValue: "Next" })} ›
+                    </span>
+                    <span className="font-semibold text-gray-900 group-hover:text-blue-700 dark:text-gray-50 dark:group-hover:text-amber-100">
+                      {nextTopic.sidebarLabel}
+                    </span>
+                  </Link>
+                )}
+              </nav>
+            )}
           </article>
         </main>
 
         <aside className="sticky top-24 hidden h-[calc(100vh-7rem)] select-none overflow-y-auto pl-3 lg:block">
-          <div className="mb-3 text-xs font-semibold uppercase tracking-[0.2em] text-gray-500 dark:text-gray-400">
-            On this page
-          </div>
-          <ul className="space-y-1.5 text-sm">
-            {toc
-              .filter((i) => i.level <= 3)
-              .map((i, idx) => (
-                <li
-                  key={`${i.id}-${idx}`}
-                  className={i.level > 2 ? "ml-3" : ""}
-                >
-                  <a
-                    href={`#${i.id}`}
-                    onClick={(e) => {
-                      e.preventDefault();
-                      scrollToId(i.id);
-                    }}
-                    className={`block rounded-md border-l-2 px-2 py-1 transition ${
-                      activeId === i.id
-                        ? "border-blue-600 bg-blue-50 text-blue-800 shadow-sm dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-100"
-                        : "border-transparent text-gray-700 hover:border-blue-300 hover:bg-gray-50 dark:text-gray-300 dark:hover:border-amber-500/60 dark:hover:bg-gray-800/60"
-                    }`}
-                  >
-                    {i.text}
-                  </a>
-                </li>
-              ))}
-          </ul>
+          <TableOfContents items={toc} activeId={activeId} />
         </aside>
       </div>
 
@@ -594,19 +379,20 @@ export default function DocsPage() {
                 Close
               </button>
             </div>
+            <div className="mb-4">{versionSelect}</div>
             <nav className="space-y-1.5">
-              {topics.map((t) => (
+              {topics.map((topic) => (
                 <Link
-                  key={t.slug}
-                  to={buildDocPath(t.slug)}
+                  key={topic.doc.slug}
+                  to={buildDocPath(topic.doc.slug)}
                   onClick={() => setOpen(false)}
-                  className={`block rounded-md border-l-2 px-3 py-2 text-sm font-medium transition ${
-                    currentTopic === t.slug
+                  className={`flex items-center rounded-md border-l-2 px-3 py-2 text-sm font-medium transition ${
+                    currentDoc.slug === topic.doc.slug
                       ? "border-blue-600 bg-blue-50 text-blue-800 shadow-sm dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-100"
                       : "border-transparent text-gray-700 hover:border-blue-300 hover:bg-gray-50 dark:text-gray-300 dark:hover:border-amber-500/60 dark:hover:bg-gray-800/70"
                   }`}
                 >
-                  {t.title}
+                  {renderTopicLabel(topic)}
                 </Link>
               ))}
             </nav>
@@ -0,0 +1,139 @@
+import { Link, useParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import {
+  DEFAULT_LANGUAGE,
+  getLanguageLabel,
+  normalizeLanguageCode,
+  SUPPORTED_LANGUAGES,
+} from "@/constants/language";
+import { LATEST_DOCS_VERSION } from "@/features/docs/lib/content";
+import { collectDocTags } from "@/features/docs/lib/manifest";
+import { buildDocsPath } from "@/features/docs/lib/paths";
+import type { LanguageCode } from "@/types/i18n";
+import PageSEO from "@/shared/components/PageSEO";
+
+export default function DocsTagsPage() {
+  type DocsTagParams = {
+    ["lng"]?: LanguageCode;
+    ["tag"]?: string;
+  };
+  const params = useParams<DocsTagParams>();
+  const language = normalizeLanguageCode(params["lng"]);
+  const activeTag = params["tag"];
+  const { t } = useTranslation();
+
+  const docsBasePath = buildDocsPath(language);
+  const groups = collectDocTags(LATEST_DOCS_VERSION, language, [
+    DEFAULT_LANGUAGE,
+    ...SUPPORTED_LANGUAGES,
+  ]);
+  const visibleGroups = activeTag
+    ? groups.filter((group) => group.tag === activeTag)
+    : groups;
+
+  const chipClass = (active: boolean) =>
+    `rounded-full border px-3 py-1 text-sm font-medium transition ${
+      active
+        ? "border-blue-600 bg-blue-50 text-blue-800 dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-100"
+        : "border-gray-200 text-gray-700 hover:border-blue-300 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-300 dark:hover:border-amber-500/60 dark:hover:bg-gray-800/70"
+    }`;
+
+  return (
+    <section className="mx-auto max-w-4xl">
+      <PageSEO
+        titleKey={activeTag ? "seo.docs.tagTitle" : "seo.docs.tagsTitle"}
+        titleDefault={
+          activeTag
+            ? `Docs tagged “${activeTag}” · RustCost`
+            : "Docs tags · RustCost"
+        }
+        titleParams={{ tag: activeTag }}
+        descriptionKey="seo.docs.tagsDescription"
+        descriptionDefault="Browse the RustCost documentation by topic tag."
+      />
+      <header className="mb-6">
+        <Link
+          to={docsBasePath}
+          className="text-sm text-blue-600 hover:underline dark:text-amber-400"
+        >
+          ‹ {t("docs.title", { defaultValue: "Documentation" })}
+        </Link>
+        <h1 className="mt-2 text-3xl font-extrabold text-gray-900 dark:text-white">
+          {activeTag
+            ? t("docs.tags.tagTitle", {
+                defaultValue: "Tagged “{{tag}}”",
+                tag: activeTag,
+              })
+            : t("docs.tags.title", { defaultValue: "Tags" })}
+        </h1>
+      </header>
+
+      <nav className="mb-8 flex flex-wrap gap-2 select-none">
+        {groups.map(({ tag, docs }) => (
+          <Link
+            key={tag}
+            to={`${docsBasePath}/tags/${encodeURIComponent(tag)}`}
+            className={chipClass(tag === activeTag)}
+          >
+            #{tag}
+            <span className="ml-1.5 text-xs text-gray-500 dark:text-gray-400">
+              {docs.length}
+            </span>
+          </Link>
+        ))}
+      </nav>
+
+      {visibleGroups.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-300">
+          {t("docs.tags.empty", {
+            defaultValue: "No docs carry this tag yet.",
+          })}
+        </p>
+      ) : (
+        <div className="space-y-8">
+          {visibleGroups.map(({ tag, docs }) => (
+            <div key={tag}>
+              {!activeTag && (
+                <h2 className="mb-3 text-lg font-bold text-gray-900 dark:text-white">
+                  #{tag}
+                </h2>
+              )}
+              <ul className="space-y-3">
+                {docs.map(({ doc, language: docLanguage }) => (
+                  <li key={doc.slug}>
+                    <Link
+                      to={buildDocsPath(
+                        language,
+                        LATEST_DOCS_VERSION,
+                        doc.slug
+                      )}
+                      className="block rounded-lg border border-gray-200 bg-white px-4 py-3 shadow-sm transition hover:border-blue-400 hover:bg-blue-50 dark:border-gray-800 dark:bg-gray-900 dark:hover:border-amber-500/60 dark:hover:bg-amber-900/30"
+                    >
+                      <div className="font-semibold text-gray-900 dark:text-gray-50">
+                        {doc.title}
+                        {docLanguage !== language && (
+                          <span className="ml-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+                            {t("docs.untranslated.label", {
+                              defaultValue:
+                                "Not yet translated, shown in {{language}}",
+                              language: getLanguageLabel(docLanguage),
+                            })}
+                          </span>
+                        )}
+                      </div>
+                      {doc.description && (
+                        <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+                          {doc.description}
+                        </p>
+                      )}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,34 @@
+import type { ReactNode } from "react";
+
+type ErrorMessageProps = {
+  /** Short code above the title, e.g. `404`. */
+  eyebrow: string;
+  title: string;
+  message: string;
+  /** Suggestions and recovery actions below the message. */
+  children?: ReactNode;
+};
+
+const BASE_ERROR_MESSAGE_STYLES = {
+  wrapper: "mx-auto max-w-xl py-16 text-center",
+  eyebrow:
+    "text-sm font-semibold uppercase tracking-[0.2em] text-blue-600 dark:text-amber-400",
+  title: "mt-3 text-3xl font-extrabold text-gray-900 dark:text-white",
+  message: "mt-3 text-gray-600 dark:text-gray-300",
+};
+
+export default function ErrorMessage({
+  eyebrow,
+  title,
+  message,
+  children,
+}: ErrorMessageProps) {
+  return (
+    <section className={BASE_ERROR_MESSAGE_STYLES.wrapper}>
+      <p className={BASE_ERROR_MESSAGE_STYLES.eyebrow}>{eyebrow}</p>
+      <h1 className={BASE_ERROR_MESSAGE_STYLES.title}>{title}</h1>
+      <p className={BASE_ERROR_MESSAGE_STYLES.message}>{message}</p>
+      {children}
+    </section>
+  );
+}
@@ -0,0 +1,87 @@
+import {
+  isRouteErrorResponse,
+  Link,
+  useParams,
+  useRouteError,
+} from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import {
+  buildLanguagePrefix,
+  normalizeLanguageCode,
+} from "@/constants/language";
+import type { LanguageCode } from "@/types/i18n";
+import CommonButton from "@/shared/components/CommonButton";
+import PageSEO from "@/shared/components/PageSEO";
+import ErrorMessage from "@/features/errors/components/ErrorMessage";
+import NotFoundPage from "@/features/errors/pages/NotFoundPage";
+
+const BASE_ERROR_BOUNDARY_STYLES = {
+  actions: "mt-6 flex flex-wrap items-center justify-center gap-3",
+  button: "px-4 py-2 text-sm font-medium",
+  link: "text-sm text-blue-600 underline dark:text-amber-400",
+  details:
+    "mt-8 overflow-x-auto rounded-md bg-gray-100 p-4 text-left font-mono text-xs text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+};
+
+/**
+ * Route `errorElement`: 404 responses thrown by loaders show NotFoundPage,
+ * anything else (failed loaders, render errors, stale chunks after a
+ * deploy) a message with a reload button instead of a blank screen.
+ */
+export default function RouteErrorBoundary() {
+  type LanguageParams = { ["lng"]?: LanguageCode };
+  const params = useParams<LanguageParams>();
+  const language = normalizeLanguageCode(params["lng"]);
+  const error = useRouteError();
+  const { t } = useTranslation();
+
+  if (isRouteErrorResponse(error) && error.status === 404) {
+    return <NotFoundPage />;
+  }
+
+  const details =
+    error instanceof Error ? (error.stack ?? error.message) : String(error);
+
+  return (
+    <ErrorMessage
+      eyebrow={
+        isRouteErrorResponse(error)
+          ? String(error.status)
+          : t("errors.boundary.eyebrow", { defaultValue: "Error" })
+      }
+      title={t("errors.boundary.title", {
+        defaultValue: "Something went wrong",
+      })}
+      message={t("errors.boundary.message", {
+        defaultValue:
+          "This page failed to load. Reloading usually fixes it, for example after the site was updated.",
+      })}
+    >
+      <PageSEO
+        titleKey="seo.error.title"
+        titleDefault="Something went wrong · RustCost"
+        descriptionKey="seo.error.description"
+        descriptionDefault="This page failed to load."
+        noindex
+      />
+      <div className={BASE_ERROR_BOUNDARY_STYLES.actions}>
+        <CommonButton
+          onClick={() => window.location.reload()}
+          className={BASE_ERROR_BOUNDARY_STYLES.button}
+        >
+          {t("errors.boundary.reload", { defaultValue: "Reload the page" })}
+        </CommonButton>
+        <Link
+          to={`${buildLanguagePrefix(language)}/`}
+          reloadDocument
+          className={BASE_ERROR_BOUNDARY_STYLES.link}
+        >
+          {t("errors.home", { defaultValue: "Go to the home page" })}
+        </Link>
+      </div>
+      {import.meta.env.DEV && (
+        <pre className={BASE_ERROR_BOUNDARY_STYLES.details}>{details}</pre>
+      )}
+    </ErrorMessage>
+  );
+}
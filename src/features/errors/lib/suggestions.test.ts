@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { suggestPages } from "@/features/errors/lib/suggestions";
+
+describe("suggestPages", () => {
+  it("suggests the closest docs topic for a typo", () => {
+    expect(suggestPages("/en/docs/instal", "en")[0]).toEqual({
+      kind: "docs",
+      title: expect.any(String),
+      path: "/en/docs/install",
+    });
+  });
+
+  it("matches a slug containing the segment", () => {
+    expect(suggestPages("/en/docs/metric", "en")[0]?.path).toBe(
+      "/en/docs/metrics"
+    );
+  });
+
+  it("ignores segments too short to match a slug by substring", () => {
+    expect(suggestPages("/en/docs/i", "en")).toEqual([]);
+  });
+
+  it("returns nothing for a bare language path", () => {
+    expect(suggestPages("/en", "en")).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from "@/constants/language";
+import { getBlogPosts } from "@/features/blog/lib/manifest";
+import { buildBlogPath } from "@/features/blog/lib/paths";
+import { LATEST_DOCS_VERSION } from "@/features/docs/lib/content";
+import { resolveDocTopics } from "@/features/docs/lib/manifest";
+import { buildDocsPath } from "@/features/docs/lib/paths";
+
+export type PageSuggestion = {
+  kind: "docs" | "blog";
+  title: string;
+  path: string;
+};
+
+/** Lowest similarity (0–1) for a page to be suggested. */
+const MIN_SIMILARITY = 0.5;
+
+/** Shortest segment that counts as a full match when found in a slug. */
+const MIN_SUBSTRING_LENGTH = 3;
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How close a mistyped path segment is to a slug: 1 when one contains the
+ * other (`install` in `install-helm`) and is at least `MIN_SUBSTRING_LENGTH`
+ * long, else one minus the edit distance relative to the longer string.
+ */
+const similarity = (segment: string, slug: string) => {
+  const [shorter, longer] =
+    segment.length <= slug.length ? [segment, slug] : [slug, segment];
+  if (shorter.length >= MIN_SUBSTRING_LENGTH && longer.includes(shorter)) {
+    return 1;
+  }
+  return (
+    1 - editDistance(segment, slug) / Math.max(segment.length, slug.length)
+  );
+};
+
+const fallbackLanguages = (language: string) => [
+  DEFAULT_LANGUAGE,
+  ...SUPPORTED_LANGUAGES.filter((lng) => lng !== language),
+];
+
+/**
+ * Lists the docs topics and blog posts whose slug is close to the last
+ * segment of a path nothing matched, best match first.
+ *
+ * @param pathname - The unmatched path, e.g. `/en/docs/instal`.
+ * @param language - The route language, for titles and links.
+ * @param limit - The maximum number of suggestions.
+ */
+export function suggestPages(
+  pathname: string,
+  language: string,
+  limit = 3
+): PageSuggestion[] {
+  const segment = (
+    pathname.split("/").filter(Boolean).slice(1).at(-1) ?? ""
+  ).toLowerCase();
+  if (!segment) return [];
+
+  const docs = resolveDocTopics(
+    LATEST_DOCS_VERSION,
+    language,
+    fallbackLanguages(language)
+  )
+    .filter(({ doc }) => doc.slug !== "index")
+    .map(
+      ({ doc }) =>
+        [
+          doc.slug,
+          {
+            kind: "docs",
+            title: doc.title,
+            path: buildDocsPath(language, LATEST_DOCS_VERSION, doc.slug),
+          },
+        ] as const
+    );
+  const posts = getBlogPosts(language, fallbackLanguages(language)).map(
+    ({ post }) =>
+      [
+        post.slug,
+        {
+          kind: "blog",
+          title: post.title,
+          path: buildBlogPath(language, post.slug),
+        },
+      ] as const
+  );
+
+  return [...docs, ...posts]
+    .map(([slug, suggestion]) => ({
+      suggestion,
+      score: similarity(segment, slug.toLowerCase()),
+    }))
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+}
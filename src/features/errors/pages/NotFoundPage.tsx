@@ -0,0 +1,107 @@
+import { Link, useLocation, useParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { BookOpenIcon, NewspaperIcon } from "@heroicons/react/24/outline";
+import {
+  buildLanguagePrefix,
+  normalizeLanguageCode,
+} from "@/constants/language";
+import type { LanguageCode } from "@/types/i18n";
+import PageSEO from "@/shared/components/PageSEO";
+import ErrorMessage from "@/features/errors/components/ErrorMessage";
+import { buildDocsPath } from "@/features/docs/lib/paths";
+import { suggestPages } from "@/features/errors/lib/suggestions";
+
+const BASE_NOT_FOUND_STYLES = {
+  actions: "mt-6 flex flex-wrap justify-center gap-3",
+  action:
+    "inline-flex items-center rounded-md border border-gray-200 px-4 py-2 text-sm font-medium text-gray-800 shadow-sm transition hover:border-blue-300 hover:bg-blue-50 dark:border-gray-700 dark:text-gray-100 dark:hover:border-amber-500/60 dark:hover:bg-amber-900/30",
+  list: "mt-8 divide-y divide-gray-100 rounded-xl border border-gray-200 text-left dark:divide-gray-800 dark:border-gray-800",
+  link: "flex items-center gap-3 px-4 py-3 text-sm text-gray-800 transition hover:bg-gray-50 dark:text-gray-100 dark:hover:bg-gray-800/60",
+  icon: "h-5 w-5 shrink-0 text-gray-400 dark:text-gray-500",
+};
+
+/**
+ * Shown for any path under a language that no route matches, and for docs
+ * topics and blog posts that do not exist. Suggests docs topics and blog
+ * posts with a slug close to the requested one.
+ */
+export default function NotFoundPage() {
+  type LanguageParams = { ["lng"]?: LanguageCode };
+  const params = useParams<LanguageParams>();
+  const language = normalizeLanguageCode(params["lng"]);
+  const { pathname } = useLocation();
+  const { t } = useTranslation();
+  const suggestions = suggestPages(pathname, language);
+
+  return (
+    <ErrorMessage
+      eyebrow="404"
+      title={t("errors.notFound.title", { defaultValue: "Page not found" })}
+      message={t("errors.notFound.message", {
+        defaultValue:
+          "We couldn't find anything at this address. It may have been moved or renamed.",
+      })}
+    >
+      <PageSEO
+        titleKey="seo.notFound.title"
+        titleDefault="Page not found · RustCost"
+        descriptionKey="seo.notFound.description"
+        descriptionDefault="The page you are looking for does not exist."
+        noindex
+      />
+      {suggestions.length > 0 && (
+        <nav aria-labelledby="not-found-suggestions">
+          <h2
+            id="not-found-suggestions"
+            className="mt-8 text-sm font-semibold text-gray-900 dark:text-white"
+          >
+            {t("errors.notFound.suggestions", {
+              defaultValue: "Were you looking for",
+            })}
+          </h2>
+          <ul className={BASE_NOT_FOUND_STYLES.list}>
+            {suggestions.map((suggestion) => {
+              const Icon =
+                suggestion.kind === "docs" ? BookOpenIcon : NewspaperIcon;
+              return (
+                <li key={suggestion.path}>
+                  <Link
+                    to={suggestion.path}
+                    className={BASE_NOT_FOUND_STYLES.link}
+                  >
+                    <Icon
+                      className={BASE_NOT_FOUND_STYLES.icon}
+                      aria-hidden="true"
+                    />
+                    <span className="min-w-0 flex-1 truncate">
+                      {suggestion.title}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {suggestion.kind === "docs"
+                        ? t("navbar.docs")
+                        : t("navbar.blog")}
+                    </span>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        </nav>
+      )}
+      <div className={BASE_NOT_FOUND_STYLES.actions}>
+        <Link
+          to={`${buildLanguagePrefix(language)}/`}
+          className={BASE_NOT_FOUND_STYLES.action}
+        >
+          {t("errors.home", { defaultValue: "Go to the home page" })}
+        </Link>
+        <Link
+          to={buildDocsPath(language)}
+          className={BASE_NOT_FOUND_STYLES.action}
+        >
+          {t("errors.notFound.docs", { defaultValue: "Browse the docs" })}
+        </Link>
+      </div>
+    </ErrorMessage>
+  );
+}
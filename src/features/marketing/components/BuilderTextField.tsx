@@ -0,0 +1,70 @@
+import { useId } from "react";
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+
+type BuilderTextFieldProps = {
+  label: string;
+  /** Format help, replaced by an error message while `invalid`. */
+  hint: string;
+  value: string;
+  invalid: boolean;
+  placeholder?: string;
+  inputMode?: "numeric";
+  onChange: (value: string) => void;
+};
+
+const BASE_FIELD_STYLES = {
+  label: "block text-xs font-semibold text-gray-700 dark:text-gray-200",
+  input:
+    "mt-1 w-full rounded-md border border-gray-300 bg-white px-2.5 py-1.5 font-mono text-sm text-gray-900 placeholder:text-gray-400 focus:border-blue-500 focus:outline-none dark:border-gray-700 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-amber-400",
+  invalid: "border-red-500 dark:border-red-400",
+  hint: "mt-1 text-xs text-gray-500 dark:text-gray-400",
+  error: "mt-1 text-xs text-red-600 dark:text-red-400",
+};
+
+export default function BuilderTextField({
+  label,
+  hint,
+  value,
+  invalid,
+  placeholder,
+  inputMode,
+  onChange,
+}: BuilderTextFieldProps) {
+  const { t } = useTranslation();
+  const id = useId();
+
+  return (
+    <div>
+      <label htmlFor={id} className={BASE_FIELD_STYLES.label}>
+        {label}
+      </label>
+      <input
+        id={id}
+        value={value}
+        placeholder={placeholder}
+        inputMode={inputMode}
+        spellCheck={false}
+        autoComplete="off"
+        aria-invalid={invalid}
+        aria-describedby={`${id}-hint`}
+        onChange={(e) => onChange(e.target.value.trim())}
+        className={twMerge(
+          BASE_FIELD_STYLES.input,
+          invalid && BASE_FIELD_STYLES.invalid
+        )}
+      />
+      <p
+        id={`${id}-hint`}
+        className={invalid ? BASE_FIELD_STYLES.error : BASE_FIELD_STYLES.hint}
+      >
+        {invalid
+          ? t("download.builder.invalid", {
+              defaultValue: "Not a valid value. {{hint}}",
+              hint,
+            })
+          : hint}
+      </p>
+    </div>
+  );
+}
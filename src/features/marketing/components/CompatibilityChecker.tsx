@@ -0,0 +1,317 @@
+import { useState, type ElementType } from "react";
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon,
+} from "@heroicons/react/24/outline";
+import { DOWNLOAD_PRODUCTS } from "@/constants/download";
+import CopyButton from "@/shared/components/CopyButton";
+import { useDockerHubReleases } from "@/features/marketing/hooks/useDockerHubReleases";
+import {
+  checkArchitectures,
+  checkKubernetesVersion,
+  checkNodeCount,
+  checkStorageClasses,
+  KUBECTL_NODES_COMMAND,
+  KUBECTL_STORAGE_CLASSES_COMMAND,
+  KUBECTL_VERSION_COMMAND,
+  readNodes,
+  type CheckCode,
+  type CheckResult,
+  type CheckStatus,
+  type NodeSummary,
+} from "@/features/marketing/lib/compatibility";
+import type { DownloadProduct } from "@/types/download";
+
+type CheckerInput = "version" | "storageClasses" | "nodes";
+
+const INPUTS: Array<{ id: CheckerInput; command: string }> = [
+  { id: "version", command: KUBECTL_VERSION_COMMAND },
+  { id: "storageClasses", command: KUBECTL_STORAGE_CLASSES_COMMAND },
+  { id: "nodes", command: KUBECTL_NODES_COMMAND },
+];
+
+const BASE_CHECKER_STYLES = {
+  label: "block text-xs font-semibold text-gray-700 dark:text-gray-200",
+  textarea:
+    "mt-1 h-32 w-full rounded-md border border-gray-300 bg-white px-3 py-2 font-mono text-xs text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-700 dark:bg-gray-950 dark:text-gray-100 dark:focus:border-amber-500 dark:focus:ring-amber-500",
+  row: "rounded-lg border p-3",
+  icon: "h-5 w-5 shrink-0",
+};
+
+const statusMap: Record<
+  CheckStatus,
+  { className: string; icon: ElementType<{ className?: string }> }
+> = {
+  pass: {
+    className:
+      "border-emerald-300/50 bg-emerald-50/60 text-emerald-900 dark:border-emerald-400/30 dark:bg-emerald-400/10 dark:text-emerald-100",
+    icon: CheckCircleIcon,
+  },
+  warn: {
+    className:
+      "border-amber-300/40 bg-amber-50/50 text-amber-800 dark:border-amber-300/20 dark:bg-amber-400/10 dark:text-amber-200",
+    icon: ExclamationTriangleIcon,
+  },
+  fail: {
+    className:
+      "border-red-300/50 bg-red-50/60 text-red-900 dark:border-red-400/30 dark:bg-red-400/10 dark:text-red-100",
+    icon: XCircleIcon,
+  },
+};
+
+const defaultStatusLabels: Record<CheckStatus, string> = {
+  pass: "Pass",
+  warn: "Warning",
+  fail: "Fail",
+};
+
+const defaultMessages: Record<CheckCode, string> = {
+  invalidInput: "This doesn't look like the output of the command above.",
+  versionSupported: "Kubernetes {{version}} is supported.",
+  versionTooOld:
+    "Kubernetes {{version}} is older than the minimum supported version {{min}}.",
+  versionMissing:
+    "Only the client version was found. Run the command with access to the cluster.",
+  ssdDefault: "The default StorageClass {{name}} is SSD-backed.",
+  ssdAvailable:
+    "{{name}} is SSD-backed but not the default. Set it as the storage class when installing.",
+  storageUnknown:
+    "No StorageClass is known to be SSD-backed. Check that one of them uses SSDs.",
+  storageUnsupported:
+    "Only NFS or HDD StorageClasses were found. RustCost needs an SSD-backed one.",
+  noStorageClasses:
+    "No StorageClass found. RustCost needs an SSD-backed persistent volume.",
+  nodesReady: "{{count}} Ready nodes.",
+  nodesNotReady: "{{ready}} of {{count}} nodes are Ready.",
+  noReadyNodes: "None of the {{count}} nodes is Ready.",
+  architecturesSupported:
+    "Every node architecture is published ({{architectures}}).",
+  architecturesPartial:
+    "No image for {{unsupported}}; pods only run on the other nodes. Published: {{architectures}}.",
+  architecturesUnsupported:
+    "No image for {{unsupported}}. Published: {{architectures}}.",
+};
+
+type CheckRowProps = {
+  title: string;
+  result: CheckResult;
+};
+
+function CheckRow({ title, result }: CheckRowProps) {
+  const { t } = useTranslation();
+  const variant = statusMap[result.status];
+  const Icon = variant.icon;
+  const statusLabel = t(`download.checker.status.${result.status}`, {
+    defaultValue: defaultStatusLabels[result.status],
+  });
+  const defaultLabel = t("download.checker.default", {
+    defaultValue: "default",
+  });
+
+  return (
+    <li className={twMerge(BASE_CHECKER_STYLES.row, variant.className)}>
+      <div className="flex items-start gap-2">
+        <Icon className={BASE_CHECKER_STYLES.icon} aria-hidden="true" />
+        <div className="min-w-0 text-sm">
+          <p className="font-semibold">
+            {title} <span className="sr-only">({statusLabel})</span>
+          </p>
+          <p>
+            {t(`download.checker.results.${result.code}`, {
+              defaultValue: defaultMessages[result.code],
+              ...result.values,
+            })}
+          </p>
+          {result.details && result.details.length > 0 && (
+            <ul className="mt-2 space-y-1 font-mono text-xs">
+              {result.details.map((detail) => {
+                const DetailIcon = statusMap[detail.status].icon;
+                return (
+                  <li key={detail.label} className="flex items-center gap-1.5">
+                    <DetailIcon
+                      className="h-4 w-4 shrink-0"
+                      aria-hidden="true"
+                    />
+                    <span className="break-all">
+                      {detail.label}
+                      {detail.isDefault && ` (${defaultLabel})`}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+type ArchitectureCheckProps = {
+  product: DownloadProduct;
+  nodes: NodeSummary[];
+};
+
+/** Compares the nodes with the platforms of the product's latest image. */
+function ArchitectureCheck({ product, nodes }: ArchitectureCheckProps) {
+  const { t } = useTranslation();
+  const { state } = useDockerHubReleases(product);
+  const title = t("download.checker.architectures", {
+    defaultValue: "{{product}} image architectures",
+    product: product.title,
+  });
+
+  if (state.status === "loading") {
+    return (
+      <li className="rounded-lg border border-gray-200 p-3 text-sm text-gray-600 dark:border-gray-800 dark:text-gray-300">
+        <p className="font-semibold">{title}</p>
+        <p>
+          {t("download.checker.loadingArchitectures", {
+            defaultValue: "Loading the published architectures…",
+          })}
+        </p>
+      </li>
+    );
+  }
+
+  const latest = state.status === "ready" ? state.versions[0] : undefined;
+  if (!latest || latest.architectures.length === 0) {
+    return (
+      <li
+        className={twMerge(
+          BASE_CHECKER_STYLES.row,
+          statusMap.warn.className,
+          "text-sm"
+        )}
+      >
+        <p className="font-semibold">{title}</p>
+        <p>
+          {t("download.checker.architecturesUnavailable", {
+            defaultValue:
+              "The published architectures could not be loaded. See the versions below.",
+          })}
+        </p>
+      </li>
+    );
+  }
+
+  return (
+    <CheckRow
+      title={title}
+      result={checkArchitectures(nodes, latest.architectures)}
+    />
+  );
+}
+
+/**
+ * Checks pasted kubectl output against RustCost's requirements. Everything
+ * runs in the browser; the output is never sent anywhere.
+ */
+export default function CompatibilityChecker() {
+  const { t } = useTranslation();
+  const [inputs, setInputs] = useState<Record<CheckerInput, string>>({
+    version: "",
+    storageClasses: "",
+    nodes: "",
+  });
+
+  const has = (id: CheckerInput) => inputs[id].trim() !== "";
+  const nodes = has("nodes") ? readNodes(inputs.nodes) : undefined;
+  const labels: Record<CheckerInput, string> = {
+    version: t("download.checker.inputs.version", {
+      defaultValue: "Kubernetes version",
+    }),
+    storageClasses: t("download.checker.inputs.storageClasses", {
+      defaultValue: "StorageClasses",
+    }),
+    nodes: t("download.checker.inputs.nodes", { defaultValue: "Nodes" }),
+  };
+
+  return (
+    <section className="mt-10 rounded-xl border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-900">
+      <h2 className="text-2xl font-extrabold text-gray-900 dark:text-white">
+        {t("download.checker.title", {
+          defaultValue: "Check your cluster",
+        })}
+      </h2>
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+        {t("download.checker.description", {
+          defaultValue:
+            "Paste the output of these commands to check your cluster before installing. The check runs in your browser; nothing is uploaded.",
+        })}
+      </p>
+
+      <div className="mt-5 grid grid-cols-1 gap-4 lg:grid-cols-3">
+        {INPUTS.map(({ id, command }) => (
+          <div key={id}>
+            <label
+              htmlFor={`checker-${id}`}
+              className={BASE_CHECKER_STYLES.label}
+            >
+              {labels[id]}
+            </label>
+            <div className="mt-1 flex items-center justify-between gap-2 rounded-md bg-gray-50 px-2 py-1 dark:bg-gray-800">
+              <code className="truncate font-mono text-xs text-gray-700 dark:text-gray-300">
+                {command}
+              </code>
+              <CopyButton text={command} />
+            </div>
+            <textarea
+              id={`checker-${id}`}
+              value={inputs[id]}
+              spellCheck={false}
+              onChange={(event) =>
+                setInputs((prev) => ({ ...prev, [id]: event.target.value }))
+              }
+              className={BASE_CHECKER_STYLES.textarea}
+            />
+          </div>
+        ))}
+      </div>
+
+      {INPUTS.some(({ id }) => has(id)) && (
+        <ul
+          aria-live="polite"
+          aria-label={t("download.checker.resultsLabel", {
+            defaultValue: "Results",
+          })}
+          className="mt-6 space-y-3"
+        >
+          {has("version") && (
+            <CheckRow
+              title={labels.version}
+              result={checkKubernetesVersion(inputs.version)}
+            />
+          )}
+          {has("storageClasses") && (
+            <CheckRow
+              title={labels.storageClasses}
+              result={checkStorageClasses(inputs.storageClasses)}
+            />
+          )}
+          {has("nodes") &&
+            (nodes ? (
+              <>
+                <CheckRow title={labels.nodes} result={checkNodeCount(nodes)} />
+                {DOWNLOAD_PRODUCTS.map((product) => (
+                  <ArchitectureCheck
+                    key={product.id}
+                    product={product}
+                    nodes={nodes}
+                  />
+                ))}
+              </>
+            ) : (
+              <CheckRow
+                title={labels.nodes}
+                result={{ status: "warn", code: "invalidInput" }}
+              />
+            ))}
+        </ul>
+      )}
+    </section>
+  );
+}
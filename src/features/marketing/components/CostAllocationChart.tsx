@@ -0,0 +1,129 @@
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+import type { CostEstimate } from "@/features/marketing/lib/costEstimate";
+
+type CostAllocationChartProps = {
+  estimate: CostEstimate;
+  formatAmount: (value: number) => string;
+};
+
+const BASE_CHART_STYLES = {
+  track:
+    "flex h-3 w-full overflow-hidden rounded-full bg-gray-100 dark:bg-gray-800",
+  allocated: "h-full bg-blue-600 dark:bg-amber-500",
+  idle: "h-full bg-blue-200 dark:bg-amber-200/40",
+  swatch: "inline-block h-2.5 w-2.5 rounded-full",
+};
+
+const percent = (value: number, total: number) =>
+  total > 0 ? `${(value / total) * 100}%` : "0%";
+
+/**
+ * Stacked bars of allocated and idle cost: one for the cluster, then one
+ * per namespace scaled to the most expensive row.
+ */
+export default function CostAllocationChart({
+  estimate,
+  formatAmount,
+}: CostAllocationChartProps) {
+  const { t } = useTranslation();
+  const rows = [
+    ...estimate.namespaces,
+    ...(estimate.unassignedIdle > 0
+      ? [
+          {
+            name: t("landing.estimator.unassignedIdle", {
+              defaultValue: "Idle (platform)",
+            }),
+            allocated: 0,
+            idle: estimate.unassignedIdle,
+            total: estimate.unassignedIdle,
+          },
+        ]
+      : []),
+  ];
+  const max = Math.max(...rows.map((row) => row.total), 0);
+
+  return (
+    <figure className="space-y-4">
+      <div>
+        <div className="mb-1 flex justify-between text-xs text-gray-600 dark:text-gray-300">
+          <span className="font-semibold">
+            {t("landing.estimator.cluster", { defaultValue: "Cluster" })}
+          </span>
+          <span>{formatAmount(estimate.clusterCost)}</span>
+        </div>
+        <div
+          className={BASE_CHART_STYLES.track}
+          role="img"
+          aria-label={t("landing.estimator.chartLabel", {
+            defaultValue: "Allocated {{allocated}}, idle {{idle}}",
+            allocated: formatAmount(estimate.allocatedCost),
+            idle: formatAmount(estimate.idleCost),
+          })}
+        >
+          <div
+            className={BASE_CHART_STYLES.allocated}
+            style={{
+              width: percent(estimate.allocatedCost, estimate.clusterCost),
+            }}
+          />
+          <div
+            className={BASE_CHART_STYLES.idle}
+            style={{ width: percent(estimate.idleCost, estimate.clusterCost) }}
+          />
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {rows.map((row, i) => (
+          <li key={`${row.name}-${i}`}>
+            <div className="mb-1 flex justify-between gap-2 text-xs text-gray-600 dark:text-gray-300">
+              <span className="truncate font-mono">{row.name}</span>
+              <span>{formatAmount(row.total)}</span>
+            </div>
+            <div
+              className={BASE_CHART_STYLES.track}
+              role="img"
+              aria-label={t("landing.estimator.chartLabel", {
+                defaultValue: "Allocated {{allocated}}, idle {{idle}}",
+                allocated: formatAmount(row.allocated),
+                idle: formatAmount(row.idle),
+              })}
+            >
+              <div
+                className={BASE_CHART_STYLES.allocated}
+                style={{ width: percent(row.allocated, max) }}
+              />
+              <div
+                className={BASE_CHART_STYLES.idle}
+                style={{ width: percent(row.idle, max) }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <figcaption className="flex gap-4 text-xs text-gray-600 dark:text-gray-300">
+        <span className="inline-flex items-center gap-1.5">
+          <span
+            className={twMerge(
+              BASE_CHART_STYLES.allocated,
+              BASE_CHART_STYLES.swatch
+            )}
+          />
+          {t("landing.estimator.allocated", { defaultValue: "Allocated" })}
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <span
+            className={twMerge(
+              BASE_CHART_STYLES.idle,
+              BASE_CHART_STYLES.swatch
+            )}
+          />
+          {t("landing.estimator.idle", { defaultValue: "Idle" })}
+        </span>
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,456 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import CommonButton from "@/shared/components/CommonButton";
+import CommonSelect from "@/shared/components/CommonSelect";
+import DownloadButton from "@/shared/components/DownloadButton";
+import { useFormatters } from "@/shared/hooks/useFormatters";
+import CostAllocationChart from "@/features/marketing/components/CostAllocationChart";
+import {
+  buildCostEstimateCsv,
+  computeCostEstimate,
+  DEFAULT_NAMESPACES,
+  DEFAULT_NODE_POOLS,
+  ESTIMATE_CURRENCIES,
+  hasCostEstimateErrors,
+  HOURS_PER_MONTH,
+  validateCostEstimate,
+  type IdleMode,
+  type NamespaceInput,
+  type NodePoolInput,
+} from "@/features/marketing/lib/costEstimate";
+
+const BASE_ESTIMATOR_STYLES = {
+  heading: "text-sm font-semibold text-gray-900 dark:text-white",
+  columnLabel:
+    "text-xs font-semibold text-gray-500 dark:text-gray-400 text-left",
+  input:
+    "w-full rounded-md border border-gray-300 bg-white px-2 py-1 font-mono text-sm text-gray-900 focus:border-blue-500 focus:outline-none dark:border-gray-700 dark:bg-gray-800 dark:text-gray-100 dark:focus:border-amber-400",
+  invalid: "border-red-500 dark:border-red-400",
+  iconButton:
+    "rounded-md p-1 text-gray-500 hover:bg-gray-100 hover:text-red-600 disabled:opacity-40 disabled:hover:bg-transparent dark:text-gray-400 dark:hover:bg-gray-800",
+  chip: "rounded-full border px-3 py-1 text-xs font-medium transition-colors select-none",
+  chipOn:
+    "border-blue-600 bg-blue-50 text-blue-800 dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-100",
+  chipOff:
+    "border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800/70",
+  stat: "rounded-xl border border-gray-200 p-4 dark:border-gray-800",
+};
+
+const nextId = (rows: Array<{ id: number }>) =>
+  Math.max(0, ...rows.map((row) => row.id)) + 1;
+
+/**
+ * Interactive showback example: node prices and namespace request shares
+ * in, the monthly allocation RustCost would report out.
+ */
+export default function CostEstimator() {
+  const { t } = useTranslation();
+  const { formatCurrency } = useFormatters();
+  const [currency, setCurrency] = useState(ESTIMATE_CURRENCIES[0]);
+  const [idleMode, setIdleMode] = useState<IdleMode>("platform");
+  const [nodePools, setNodePools] = useState(DEFAULT_NODE_POOLS);
+  const [namespaces, setNamespaces] = useState(DEFAULT_NAMESPACES);
+
+  const errors = validateCostEstimate(nodePools, namespaces);
+  const estimate = hasCostEstimateErrors(errors)
+    ? undefined
+    : computeCostEstimate(nodePools, namespaces, idleMode);
+  const formatAmount = (value: number) => formatCurrency(value, currency);
+
+  const updatePool = (id: number, patch: Partial<NodePoolInput>) =>
+    setNodePools((rows) =>
+      rows.map((row) => (row.id === id ? { ...row, ...patch } : row))
+    );
+  const updateNamespace = (id: number, patch: Partial<NamespaceInput>) =>
+    setNamespaces((rows) =>
+      rows.map((row) => (row.id === id ? { ...row, ...patch } : row))
+    );
+
+  const labels = {
+    name: t("landing.estimator.nodePoolName", { defaultValue: "Node type" }),
+    count: t("landing.estimator.count", { defaultValue: "Count" }),
+    hourlyPrice: t("landing.estimator.hourlyPrice", {
+      defaultValue: "Price / hour",
+    }),
+    namespace: t("landing.estimator.namespace", {
+      defaultValue: "Namespace",
+    }),
+    share: t("landing.estimator.share", { defaultValue: "Requests (%)" }),
+    allocated: t("landing.estimator.allocated", { defaultValue: "Allocated" }),
+    idle: t("landing.estimator.idle", { defaultValue: "Idle" }),
+    total: t("landing.estimator.total", { defaultValue: "Total" }),
+    remove: t("landing.estimator.remove", { defaultValue: "Remove" }),
+  };
+
+  const requested = namespaces.reduce(
+    (sum, ns) => sum + (Number(ns.share) || 0),
+    0
+  );
+
+  return (
+    <div className="mt-8 rounded-2xl border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-900">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">
+            {t("landing.estimator.title", {
+              defaultValue: "Estimate your cost allocation",
+            })}
+          </h3>
+          <p className="mt-1 max-w-2xl text-sm text-gray-600 dark:text-gray-300">
+            {t("landing.estimator.description", {
+              defaultValue:
+                "Enter your node types and how much of the cluster each namespace requests. RustCost splits the monthly node cost by requests and reports unrequested capacity as idle.",
+            })}
+          </p>
+        </div>
+        <CommonSelect
+          value={currency}
+          onChange={setCurrency}
+          options={ESTIMATE_CURRENCIES.map((code) => ({
+            label: code,
+            value: code,
+          }))}
+          ariaLabel={t("landing.estimator.currency", {
+            defaultValue: "Currency",
+          })}
+        />
+      </div>
+
+      <div className="mt-6 grid gap-8 lg:grid-cols-2">
+        <div className="space-y-6">
+          <section>
+            <h4 className={BASE_ESTIMATOR_STYLES.heading}>
+              {t("landing.estimator.nodePools", { defaultValue: "Nodes" })}
+            </h4>
+            <table className="mt-2 w-full border-separate border-spacing-x-1 border-spacing-y-1.5">
+              <thead>
+                <tr>
+                  <th className={BASE_ESTIMATOR_STYLES.columnLabel}>
+                    {labels.name}
+                  </th>
+                  <th
+                    className={twMerge(
+                      BASE_ESTIMATOR_STYLES.columnLabel,
+                      "w-20"
+                    )}
+                  >
+                    {labels.count}
+                  </th>
+                  <th
+                    className={twMerge(
+                      BASE_ESTIMATOR_STYLES.columnLabel,
+                      "w-28"
+                    )}
+                  >
+                    {labels.hourlyPrice}
+                  </th>
+                  <th className="w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {nodePools.map((pool) => (
+                  <tr key={pool.id}>
+                    <td>
+                      <input
+                        value={pool.name}
+                        aria-label={labels.name}
+                        onChange={(e) =>
+                          updatePool(pool.id, { name: e.target.value })
+                        }
+                        className={BASE_ESTIMATOR_STYLES.input}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        value={pool.count}
+                        inputMode="numeric"
+                        aria-label={labels.count}
+                        aria-invalid={Boolean(errors.nodePools[pool.id]?.count)}
+                        onChange={(e) =>
+                          updatePool(pool.id, { count: e.target.value.trim() })
+                        }
+                        className={twMerge(
+                          BASE_ESTIMATOR_STYLES.input,
+                          errors.nodePools[pool.id]?.count &&
+                            BASE_ESTIMATOR_STYLES.invalid
+                        )}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        value={pool.hourlyPrice}
+                        inputMode="decimal"
+                        aria-label={labels.hourlyPrice}
+                        aria-invalid={Boolean(
+                          errors.nodePools[pool.id]?.hourlyPrice
+                        )}
+                        onChange={(e) =>
+                          updatePool(pool.id, {
+                            hourlyPrice: e.target.value.trim(),
+                          })
+                        }
+                        className={twMerge(
+                          BASE_ESTIMATOR_STYLES.input,
+                          errors.nodePools[pool.id]?.hourlyPrice &&
+                            BASE_ESTIMATOR_STYLES.invalid
+                        )}
+                      />
+                    </td>
+                    <td>
+                      <button
+                        type="button"
+                        aria-label={labels.remove}
+                        disabled={nodePools.length === 1}
+                        onClick={() =>
+                          setNodePools((rows) =>
+                            rows.filter((row) => row.id !== pool.id)
+                          )
+                        }
+                        className={BASE_ESTIMATOR_STYLES.iconButton}
+                      >
+                        <TrashIcon className="h-4 w-4" aria-hidden="true" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <CommonButton
+              onClick={() =>
+                setNodePools((rows) => [
+                  ...rows,
+                  { id: nextId(rows), name: "", count: "1", hourlyPrice: "0" },
+                ])
+              }
+              className="mt-1 inline-flex items-center gap-1"
+            >
+              <PlusIcon className="h-3.5 w-3.5" aria-hidden="true" />
+              {t("landing.estimator.addNodePool", {
+                defaultValue: "Add node type",
+              })}
+            </CommonButton>
+          </section>
+
+          <section>
+            <h4 className={BASE_ESTIMATOR_STYLES.heading}>
+              {t("landing.estimator.namespaces", {
+                defaultValue: "Namespaces",
+              })}
+            </h4>
+            <table className="mt-2 w-full border-separate border-spacing-x-1 border-spacing-y-1.5">
+              <thead>
+                <tr>
+                  <th className={BASE_ESTIMATOR_STYLES.columnLabel}>
+                    {labels.namespace}
+                  </th>
+                  <th
+                    className={twMerge(
+                      BASE_ESTIMATOR_STYLES.columnLabel,
+                      "w-28"
+                    )}
+                  >
+                    {labels.share}
+                  </th>
+                  <th className="w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {namespaces.map((ns) => (
+                  <tr key={ns.id}>
+                    <td>
+                      <input
+                        value={ns.name}
+                        aria-label={labels.namespace}
+                        onChange={(e) =>
+                          updateNamespace(ns.id, { name: e.target.value })
+                        }
+                        className={BASE_ESTIMATOR_STYLES.input}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        value={ns.share}
+                        inputMode="decimal"
+                        aria-label={labels.share}
+                        aria-invalid={Boolean(errors.namespaces[ns.id]?.share)}
+                        onChange={(e) =>
+                          updateNamespace(ns.id, {
+                            share: e.target.value.trim(),
+                          })
+                        }
+                        className={twMerge(
+                          BASE_ESTIMATOR_STYLES.input,
+                          errors.namespaces[ns.id]?.share &&
+                            BASE_ESTIMATOR_STYLES.invalid
+                        )}
+                      />
+                    </td>
+                    <td>
+                      <button
+                        type="button"
+                        aria-label={labels.remove}
+                        disabled={namespaces.length === 1}
+                        onClick={() =>
+                          setNamespaces((rows) =>
+                            rows.filter((row) => row.id !== ns.id)
+                          )
+                        }
+                        className={BASE_ESTIMATOR_STYLES.iconButton}
+                      >
+                        <TrashIcon className="h-4 w-4" aria-hidden="true" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="mt-1 flex flex-wrap items-center justify-between gap-2">
+              <CommonButton
+                onClick={() =>
+                  setNamespaces((rows) => [
+                    ...rows,
+                    { id: nextId(rows), name: "", share: "0" },
+                  ])
+                }
+                className="inline-flex items-center gap-1"
+              >
+                <PlusIcon className="h-3.5 w-3.5" aria-hidden="true" />
+                {t("landing.estimator.addNamespace", {
+                  defaultValue: "Add namespace",
+                })}
+              </CommonButton>
+              <span
+                className={twMerge(
+                  "text-xs text-gray-600 dark:text-gray-300",
+                  errors.overallocated && "text-red-600 dark:text-red-400"
+                )}
+              >
+                {t("landing.estimator.requested", {
+                  defaultValue: "{{percent}}% of the cluster requested",
+                  percent: Math.round(requested * 10) / 10,
+                })}
+              </span>
+            </div>
+          </section>
+
+          <fieldset>
+            <legend className={BASE_ESTIMATOR_STYLES.heading}>
+              {t("landing.estimator.idleMode", {
+                defaultValue: "Idle capacity",
+              })}
+            </legend>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {(["platform", "proportional"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  aria-pressed={idleMode === mode}
+                  onClick={() => setIdleMode(mode)}
+                  className={twMerge(
+                    BASE_ESTIMATOR_STYLES.chip,
+                    idleMode === mode
+                      ? BASE_ESTIMATOR_STYLES.chipOn
+                      : BASE_ESTIMATOR_STYLES.chipOff
+                  )}
+                >
+                  {mode === "platform"
+                    ? t("landing.estimator.idlePlatform", {
+                        defaultValue: "Keep as a platform cost",
+                      })
+                    : t("landing.estimator.idleProportional", {
+                        defaultValue: "Spread by requests",
+                      })}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+
+        <div aria-live="polite">
+          {estimate ? (
+            <div className="space-y-6">
+              <div className="grid grid-cols-3 gap-3">
+                {[
+                  {
+                    key: "cluster",
+                    label: t("landing.estimator.monthlyCost", {
+                      defaultValue: "Monthly cost",
+                    }),
+                    value: estimate.clusterCost,
+                  },
+                  {
+                    key: "allocated",
+                    label: labels.allocated,
+                    value: estimate.allocatedCost,
+                  },
+                  { key: "idle", label: labels.idle, value: estimate.idleCost },
+                ].map((stat) => (
+                  <div key={stat.key} className={BASE_ESTIMATOR_STYLES.stat}>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {stat.label}
+                    </div>
+                    <div className="mt-1 text-lg font-bold text-gray-900 dark:text-white">
+                      {formatAmount(stat.value)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <CostAllocationChart
+                estimate={estimate}
+                formatAmount={formatAmount}
+              />
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {t("landing.estimator.assumption", {
+                    defaultValue:
+                      "Monthly figures assume {{hours}} hours per month.",
+                    hours: HOURS_PER_MONTH,
+                  })}
+                </p>
+                <DownloadButton
+                  text={buildCostEstimateCsv(estimate, currency, {
+                    namespace: labels.namespace,
+                    share: labels.share,
+                    allocated: labels.allocated,
+                    idle: labels.idle,
+                    total: labels.total,
+                    unassignedIdle: t("landing.estimator.unassignedIdle", {
+                      defaultValue: "Idle (platform)",
+                    }),
+                    cluster: t("landing.estimator.cluster", {
+                      defaultValue: "Cluster",
+                    }),
+                  })}
+                  fileName="rustcost-estimate.csv"
+                  type="text/csv"
+                  label={t("landing.estimator.exportCsv", {
+                    defaultValue: "Export CSV",
+                  })}
+                />
+              </div>
+            </div>
+          ) : (
+            <p
+              role="alert"
+              className="rounded-lg border border-red-300/60 bg-red-50 p-3 text-sm text-red-700 dark:border-red-400/30 dark:bg-red-500/10 dark:text-red-300"
+            >
+              {errors.overallocated
+                ? t("landing.estimator.overallocated", {
+                    defaultValue:
+                      "Namespace requests add up to more than 100% of the cluster.",
+                  })
+                : t("landing.estimator.invalid", {
+                    defaultValue:
+                      "Counts must be whole numbers and prices and shares must be positive numbers.",
+                  })}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
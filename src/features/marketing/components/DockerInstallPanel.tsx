@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { CORE_IMAGE_NAME, DASHBOARD_IMAGE_NAME } from "@/constants/download";
+import BuilderTextField from "@/features/marketing/components/BuilderTextField";
+import GeneratedFile from "@/features/marketing/components/GeneratedFile";
+import VerifyCommands from "@/features/marketing/components/VerifyCommands";
+import {
+  buildComposeYaml,
+  buildPvcYaml,
+  buildRbacYaml,
+  DEFAULT_MANIFEST_OPTIONS,
+  validateManifestOptions,
+  type ManifestOptions,
+} from "@/features/marketing/lib/manifests";
+
+export default function DockerInstallPanel() {
+  const { t } = useTranslation();
+  const [options, setOptions] = useState<ManifestOptions>(
+    DEFAULT_MANIFEST_OPTIONS
+  );
+  const errors = validateManifestOptions(options);
+  const isValid = Object.keys(errors).length === 0;
+
+  const onChange = (field: keyof ManifestOptions, value: string) =>
+    setOptions((prev) => ({ ...prev, [field]: value }));
+
+  return (
+    <div className="p-4 space-y-5">
+      <div>
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+          Images
+        </h3>
+        <ul className="mt-2 list-disc pl-5 text-gray-700 dark:text-gray-300">
+          <li>
+            Core backend:{" "}
+            <a
+              className="text-blue-600 underline dark:text-amber-400"
+              href={`https://hub.docker.com/r/${CORE_IMAGE_NAME}`}
+              target="_blank"
+              rel="noreferrer"
+            >
+              {CORE_IMAGE_NAME}
+            </a>
+          </li>
+          <li>
+            Dashboard:{" "}
+            <a
+              className="text-blue-600 underline dark:text-amber-400"
+              href={`https://hub.docker.com/r/${DASHBOARD_IMAGE_NAME}`}
+              target="_blank"
+              rel="noreferrer"
+            >
+              {DASHBOARD_IMAGE_NAME}
+            </a>
+          </li>
+        </ul>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <BuilderTextField
+          value={options.namespace}
+          invalid={Boolean(errors.namespace)}
+          label={t("download.builder.namespace", {
+            defaultValue: "Namespace",
+          })}
+          hint={t("download.builder.namespaceHint", {
+            defaultValue: "Lowercase letters, digits and '-'.",
+          })}
+          onChange={(value) => onChange("namespace", value)}
+        />
+        <BuilderTextField
+          value={options.storageClass}
+          invalid={Boolean(errors.storageClass)}
+          label={t("download.builder.storageClass", {
+            defaultValue: "Storage class",
+          })}
+          hint={t("download.manifests.storageClassHint", {
+            defaultValue:
+              "An SSD-backed StorageClass; NFS/HDD is not supported.",
+          })}
+          onChange={(value) => onChange("storageClass", value)}
+        />
+      </div>
+
+      {isValid ? (
+        <>
+          <GeneratedFile
+            title={t("download.manifests.compose", {
+              defaultValue: "Quick start (Compose)",
+            })}
+            text={buildComposeYaml(options)}
+            fileName="compose.yaml"
+            type="text/yaml"
+          />
+          <GeneratedFile
+            title={t("download.manifests.pvc", {
+              defaultValue: "Kubernetes PVC (SSD)",
+            })}
+            text={buildPvcYaml(options)}
+            fileName="rustcost-pvc.yaml"
+            type="text/yaml"
+            note={t("download.manifests.pvcNote", {
+              defaultValue:
+                "Use an SSD-backed StorageClass; NFS/HDD is not supported.",
+            })}
+          />
+          <GeneratedFile
+            title={t("download.manifests.rbac", {
+              defaultValue: "RBAC (if running manually)",
+            })}
+            text={buildRbacYaml(options)}
+            fileName="rustcost-rbac.yaml"
+            type="text/yaml"
+            note={t("download.manifests.rbacNote", {
+              defaultValue:
+                "The Helm chart provisions RBAC automatically. Only use this if deploying manifests manually.",
+            })}
+          />
+          <VerifyCommands namespace={options.namespace} />
+        </>
+      ) : (
+        <p
+          role="alert"
+          className="rounded-lg border border-red-300/60 bg-red-50 p-3 text-sm text-red-700 dark:border-red-400/30 dark:bg-red-500/10 dark:text-red-300"
+        >
+          {t("download.manifests.fixErrors", {
+            defaultValue:
+              "Fix the highlighted fields to generate the manifests.",
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import CopyButton from "@/shared/components/CopyButton";
+import DownloadButton from "@/shared/components/DownloadButton";
+
+type GeneratedFileProps = {
+  title: string;
+  text: string;
+  fileName: string;
+  /** Media type of the download, e.g. `text/yaml`. */
+  type: string;
+  /** Shown under the snippet. */
+  note?: string;
+};
+
+export default function GeneratedFile({
+  title,
+  text,
+  fileName,
+  type,
+  note,
+}: GeneratedFileProps) {
+  return (
+    <div>
+      <h4 className="mb-2 text-sm font-semibold text-gray-900 dark:text-white">
+        {title}
+      </h4>
+      <div className="relative not-prose">
+        <pre className="rounded-lg border border-gray-200 bg-gray-50 p-4 pr-40 text-sm dark:border-gray-800 dark:bg-gray-900 overflow-x-auto">
+          {text}
+        </pre>
+        <div className="absolute top-2 right-2 flex gap-1.5">
+          <CopyButton text={text} />
+          <DownloadButton text={text} fileName={fileName} type={type} />
+        </div>
+      </div>
+      {note && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">{note}</p>
+      )}
+    </div>
+  );
+}
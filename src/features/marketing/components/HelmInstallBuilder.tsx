@@ -0,0 +1,211 @@
+import { useLocation, useSearchParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { HELM_CHART_VERSIONS } from "@/constants/download";
+import { SITE_URL } from "@/constants/seo";
+import CommonSelect from "@/shared/components/CommonSelect";
+import CopyButton from "@/shared/components/CopyButton";
+import { useHydrated } from "@/shared/hooks/useHydrated";
+import BuilderTextField from "@/features/marketing/components/BuilderTextField";
+import GeneratedFile from "@/features/marketing/components/GeneratedFile";
+import VerifyCommands from "@/features/marketing/components/VerifyCommands";
+import {
+  buildHelmInstallCommand,
+  buildHelmValuesYaml,
+  DEFAULT_HELM_INSTALL_FORM,
+  HELM_VALUES_FILE_NAME,
+  readHelmInstallForm,
+  toHelmInstallParams,
+  validateHelmInstallForm,
+  type HelmInstallField,
+} from "@/features/marketing/lib/helmInstall";
+
+const BASE_BUILDER_STYLES = {
+  label: "block text-xs font-semibold text-gray-700 dark:text-gray-200",
+  error: "mt-1 text-xs text-red-600 dark:text-red-400",
+};
+
+export default function HelmInstallBuilder() {
+  const { t } = useTranslation();
+  const { pathname } = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const hydrated = useHydrated();
+
+  const form = hydrated
+    ? readHelmInstallForm(searchParams)
+    : DEFAULT_HELM_INSTALL_FORM;
+  const errors = validateHelmInstallForm(form);
+  const isValid = Object.keys(errors).length === 0;
+  const query = toHelmInstallParams(form).toString();
+  const shareUrl = `${SITE_URL}${pathname}${query ? `?${query}` : ""}`;
+
+  const onChange = (field: HelmInstallField, value: string) => {
+    setSearchParams(toHelmInstallParams({ ...form, [field]: value }), {
+      replace: true,
+      preventScrollReset: true,
+    });
+  };
+
+  return (
+    <div className="mt-6 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+          {t("download.builder.title", {
+            defaultValue: "Customize the install",
+          })}
+        </h3>
+        <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+          {t("download.builder.share", { defaultValue: "Share this setup" })}
+          <CopyButton text={shareUrl} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <span className={BASE_BUILDER_STYLES.label}>
+            {t("download.builder.version", { defaultValue: "Chart version" })}
+          </span>
+          <CommonSelect
+            value={form.version}
+            onChange={(value) => onChange("version", value)}
+            options={HELM_CHART_VERSIONS.map((version, i) => ({
+              label:
+                i === 0
+                  ? t("download.builder.latestVersion", {
+                      defaultValue: "{{version}} (latest)",
+                      version,
+                    })
+                  : version,
+              value: version,
+            }))}
+            ariaLabel={t("download.builder.version", {
+              defaultValue: "Chart version",
+            })}
+            className="mt-1 flex"
+          />
+          {errors.version && (
+            <p className={BASE_BUILDER_STYLES.error}>
+              {t("download.builder.unknownVersion", {
+                defaultValue:
+                  "Version {{version}} is not a published chart version.",
+                version: form.version,
+              })}
+            </p>
+          )}
+        </div>
+        <BuilderTextField
+          value={form.namespace}
+          invalid={Boolean(errors.namespace)}
+          label={t("download.builder.namespace", {
+            defaultValue: "Namespace",
+          })}
+          hint={t("download.builder.namespaceHint", {
+            defaultValue: "Lowercase letters, digits and '-'.",
+          })}
+          onChange={(value) => onChange("namespace", value)}
+        />
+        <BuilderTextField
+          value={form.release}
+          invalid={Boolean(errors.release)}
+          label={t("download.builder.release", {
+            defaultValue: "Release name",
+          })}
+          hint={t("download.builder.releaseHint", {
+            defaultValue: "Up to 53 lowercase letters, digits and '-'.",
+          })}
+          onChange={(value) => onChange("release", value)}
+        />
+        <BuilderTextField
+          value={form.storageClass}
+          invalid={Boolean(errors.storageClass)}
+          placeholder="ssd"
+          label={t("download.builder.storageClass", {
+            defaultValue: "Storage class",
+          })}
+          hint={t("download.builder.storageClassHint", {
+            defaultValue:
+              "An SSD-backed StorageClass. Empty uses the cluster default.",
+          })}
+          onChange={(value) => onChange("storageClass", value)}
+        />
+        <BuilderTextField
+          value={form.retentionDays}
+          invalid={Boolean(errors.retentionDays)}
+          inputMode="numeric"
+          label={t("download.builder.retention", {
+            defaultValue: "Retention (days)",
+          })}
+          hint={t("download.builder.retentionHint", {
+            defaultValue: "How long collected metrics are kept, 1–3650 days.",
+          })}
+          onChange={(value) => onChange("retentionDays", value)}
+        />
+        <BuilderTextField
+          value={form.ingressHost}
+          invalid={Boolean(errors.ingressHost)}
+          placeholder="rustcost.example.com"
+          label={t("download.builder.ingressHost", {
+            defaultValue: "Ingress host",
+          })}
+          hint={t("download.builder.ingressHostHint", {
+            defaultValue: "Empty leaves the ingress disabled.",
+          })}
+          onChange={(value) => onChange("ingressHost", value)}
+        />
+        <BuilderTextField
+          value={form.cpuLimit}
+          invalid={Boolean(errors.cpuLimit)}
+          placeholder="500m"
+          label={t("download.builder.cpuLimit", {
+            defaultValue: "CPU limit",
+          })}
+          hint={t("download.builder.cpuLimitHint", {
+            defaultValue: "Cores or millicores, e.g. 500m. Empty for none.",
+          })}
+          onChange={(value) => onChange("cpuLimit", value)}
+        />
+        <BuilderTextField
+          value={form.memoryLimit}
+          invalid={Boolean(errors.memoryLimit)}
+          placeholder="512Mi"
+          label={t("download.builder.memoryLimit", {
+            defaultValue: "Memory limit",
+          })}
+          hint={t("download.builder.memoryLimitHint", {
+            defaultValue: "e.g. 512Mi or 1Gi. Empty for none.",
+          })}
+          onChange={(value) => onChange("memoryLimit", value)}
+        />
+      </div>
+
+      {isValid ? (
+        <>
+          <GeneratedFile
+            title={t("download.builder.command", {
+              defaultValue: "Install command",
+            })}
+            text={buildHelmInstallCommand(form)}
+            fileName="install-rustcost.sh"
+            type="text/x-shellscript"
+          />
+          <GeneratedFile
+            title={HELM_VALUES_FILE_NAME}
+            text={buildHelmValuesYaml(form)}
+            fileName={HELM_VALUES_FILE_NAME}
+            type="text/yaml"
+          />
+          <VerifyCommands namespace={form.namespace} />
+        </>
+      ) : (
+        <p
+          role="alert"
+          className="rounded-lg border border-red-300/60 bg-red-50 p-3 text-sm text-red-700 dark:border-red-400/30 dark:bg-red-500/10 dark:text-red-300"
+        >
+          {t("download.builder.fixErrors", {
+            defaultValue:
+              "Fix the highlighted fields to generate the command and values.yaml.",
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useTranslation } from "react-i18next";
+import Badge from "@/shared/components/Badge";
+import CommonButton from "@/shared/components/CommonButton";
+import CopyButton from "@/shared/components/CopyButton";
+import { useFormatters } from "@/shared/hooks/useFormatters";
+import { useDockerHubReleases } from "@/features/marketing/hooks/useDockerHubReleases";
+import type { DownloadProduct } from "@/types/download";
+
+const BASE_RELEASE_TABLE_STYLES = {
+  heading: "px-4 py-2 font-semibold text-gray-700 dark:text-gray-200",
+  code: "rounded bg-gray-100 px-2 py-1 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  message: "px-4 py-6 text-center text-sm text-gray-600 dark:text-gray-300",
+};
+
+const COLUMN_COUNT = 7;
+
+export default function ReleaseTable({
+  product,
+}: {
+  product: DownloadProduct;
+}) {
+  const { t } = useTranslation();
+  const { formatBytes, formatDate, formatRelativeTime } = useFormatters();
+  const { state, retry } = useDockerHubReleases(product);
+  const versions = state.status === "ready" ? state.versions : [];
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white shadow-sm dark:border-gray-800 dark:bg-gray-900">
+      <div className="border-b border-gray-100 px-4 py-3 dark:border-gray-800">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+              {product.title.toLowerCase()}
+            </h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {product.title} container image —{" "}
+              <a
+                className="text-blue-600 underline dark:text-amber-400"
+                href={`https://hub.docker.com/r/${product.image}`}
+                target="_blank"
+                rel="noreferrer"
+              >
+                {product.image}
+              </a>
+            </p>
+          </div>
+          <a
+            href={product.repo}
+            target="_blank"
+            rel="noreferrer"
+            className="text-blue-600 underline text-sm dark:text-amber-400"
+          >
+            repo
+          </a>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table
+          className="min-w-full text-left text-sm"
+          aria-busy={state.status === "loading"}
+        >
+          <thead className="bg-gray-50 dark:bg-gray-800/60">
+            <tr>
+              <th className={BASE_RELEASE_TABLE_STYLES.heading}>Tag</th>
+              <th className={BASE_RELEASE_TABLE_STYLES.heading}>Date</th>
+              <th className={BASE_RELEASE_TABLE_STYLES.heading}>
+                {t("download.releases.architectures", {
+                  defaultValue: "Architectures",
+                })}
+              </th>
+              <th className={BASE_RELEASE_TABLE_STYLES.heading}>
+                {t("download.releases.size", { defaultValue: "Size" })}
+              </th>
+              <th className={BASE_RELEASE_TABLE_STYLES.heading}>Image</th>
+              <th className={BASE_RELEASE_TABLE_STYLES.heading}>Pull</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {state.status === "loading" &&
+              [0, 1, 2].map((row) => (
+                <tr
+                  key={row}
+                  className="border-t border-gray-100 dark:border-gray-800"
+                >
+                  <td colSpan={COLUMN_COUNT} className="px-4 py-3">
+                    <div className="h-4 w-full animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+                  </td>
+                </tr>
+              ))}
+            {state.status === "error" && (
+              <tr className="border-t border-gray-100 dark:border-gray-800">
+                <td
+                  colSpan={COLUMN_COUNT}
+                  className={BASE_RELEASE_TABLE_STYLES.message}
+                >
+                  <p role="alert">
+                    {t("download.releases.error", {
+                      defaultValue:
+                        "Couldn't load tags from Docker Hub. Check your connection and try again.",
+                    })}
+                  </p>
+                  <CommonButton onClick={retry} className="mt-3">
+                    {t("download.releases.retry", { defaultValue: "Retry" })}
+                  </CommonButton>
+                </td>
+              </tr>
+            )}
+            {state.status === "ready" && versions.length === 0 && (
+              <tr className="border-t border-gray-100 dark:border-gray-800">
+                <td
+                  colSpan={COLUMN_COUNT}
+                  className={BASE_RELEASE_TABLE_STYLES.message}
+                >
+                  {t("download.releases.empty", {
+                    defaultValue:
+                      "No release has been published yet. Pre-release builds are available on Docker Hub.",
+                  })}
+                </td>
+              </tr>
+            )}
+            {versions.map((version, idx) => {
+              const tag = `${product.image}:${version.version}`;
+              const pull = `docker pull ${tag}`;
+              const isLatest = idx === 0;
+              const badgeText = isLatest ? "LATEST" : "LTS";
+              const badgeVariant = isLatest ? "green" : "blue";
+
+              return (
+                <tr
+                  key={tag}
+                  className="border-t border-gray-100 dark:border-gray-800"
+                >
+                  <td className="px-4 py-2 text-gray-900 dark:text-gray-100">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono">
+                        v{version.version.replace(/^v/, "")}
+                      </span>
+                      <Badge text={badgeText} variant={badgeVariant} />
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                    <time dateTime={version.date} className="whitespace-nowrap">
+                      {formatDate(version.date)}
+                    </time>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {formatRelativeTime(version.date)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {version.architectures.map((arch) => (
+                        <Badge key={arch} text={arch} variant="gray" />
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600 dark:text-gray-300">
+                    {version.size ? formatBytes(version.size) : "—"}
+                  </td>
+                  <td className="px-4 py-2">
+                    <code className={BASE_RELEASE_TABLE_STYLES.code}>
+                      {tag}
+                    </code>
+                  </td>
+                  <td className="px-4 py-2">
+                    <code className={BASE_RELEASE_TABLE_STYLES.code}>
+                      {pull}
+                    </code>
+                  </td>
+                  <td className="px-4 py-2">
+                    <CopyButton text={pull} />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between px-4 py-2 text-xs text-gray-600 dark:text-gray-400">
+        <span>
+          Multi-arch manifests (amd64/arm64). Optimized for Kubernetes.
+        </span>
+        <span>
+          {versions[0]?.notes && (
+            <a
+              href={versions[0].notes}
+              target="_blank"
+              rel="noreferrer"
+              className="text-blue-600 underline dark:text-amber-400"
+            >
+              Latest release notes
+            </a>
+          )}
+        </span>
+      </div>
+    </div>
+  );
+}
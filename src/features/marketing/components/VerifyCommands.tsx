@@ -0,0 +1,22 @@
+import { useTranslation } from "react-i18next";
+import CopyButton from "@/shared/components/CopyButton";
+import { buildVerifyCommands } from "@/features/marketing/lib/manifests";
+
+export default function VerifyCommands({ namespace }: { namespace: string }) {
+  const { t } = useTranslation();
+  const commands = buildVerifyCommands({ namespace });
+
+  return (
+    <div className="text-sm text-gray-600 dark:text-gray-300">
+      {t("download.verify", { defaultValue: "Verify:" })}
+      <div className="relative mt-2 not-prose">
+        <pre className="rounded-lg border border-gray-200 bg-gray-50 p-3 pr-20 dark:border-gray-800 dark:bg-gray-900 overflow-x-auto">
+          {commands}
+        </pre>
+        <div className="absolute top-2 right-2">
+          <CopyButton text={commands} />
+        </div>
+      </div>
+    </div>
+  );
+}
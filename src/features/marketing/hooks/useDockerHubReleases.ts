@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+import { fetchDockerHubTags } from "@/lib/api";
+import {
+  readCachedReleases,
+  toReleaseVersions,
+  writeCachedReleases,
+} from "@/features/marketing/lib/releases";
+import type { DownloadProduct, VersionInfo } from "@/types/download";
+
+export type ReleasesState =
+  | { status: "loading" }
+  | { status: "error"; error: unknown }
+  | { status: "ready"; versions: VersionInfo[] };
+
+/**
+ * Loads the release tags of a product's image from Docker Hub, served from
+ * the localStorage cache while it is fresh.
+ *
+ * @param product - The product whose image is listed.
+ * @returns The load state and a `retry` that bypasses the cache.
+ */
+export function useDockerHubReleases(product: DownloadProduct) {
+  const { image, repo } = product;
+  const [state, setState] = useState<ReleasesState>({ status: "loading" });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const cached = attempt === 0 ? readCachedReleases(image) : undefined;
+    if (cached) {
+      setState({ status: "ready", versions: cached });
+      return;
+    }
+
+    setState({ status: "loading" });
+    fetchDockerHubTags(image)
+      .then((tags) => {
+        const versions = toReleaseVersions(tags, repo);
+        writeCachedReleases(image, versions);
+        if (isMounted) setState({ status: "ready", versions });
+      })
+      .catch((error: unknown) => {
+        console.error(`[DownloadPage] Failed to load tags of ${image}`, error);
+        if (isMounted) setState({ status: "error", error });
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [image, repo, attempt]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return { state, retry };
+}
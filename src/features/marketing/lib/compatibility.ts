@@ -0,0 +1,358 @@
+import { parse as parseYaml } from "yaml";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export type CheckCode =
+  | "invalidInput"
+  | "versionSupported"
+  | "versionTooOld"
+  | "versionMissing"
+  | "ssdDefault"
+  | "ssdAvailable"
+  | "storageUnknown"
+  | "storageUnsupported"
+  | "noStorageClasses"
+  | "nodesReady"
+  | "nodesNotReady"
+  | "noReadyNodes"
+  | "architecturesSupported"
+  | "architecturesPartial"
+  | "architecturesUnsupported";
+
+/** One line under a check, e.g. a StorageClass or a node architecture. */
+export type CheckDetail = {
+  label: string;
+  status: CheckStatus;
+  /** Marks the cluster's default StorageClass. */
+  isDefault?: boolean;
+};
+
+export type CheckResult = {
+  status: CheckStatus;
+  /** Selects the message; `values` fill its placeholders. */
+  code: CheckCode;
+  values?: Record<string, string | number>;
+  details?: CheckDetail[];
+};
+
+/** What the checker needs to know about a node. */
+export type NodeSummary = {
+  name: string;
+  architecture: string;
+  ready: boolean;
+};
+
+export type StorageKind = "ssd" | "hdd" | "nfs" | "unknown";
+
+/** Oldest Kubernetes minor release RustCost is tested against. */
+export const MIN_KUBERNETES_VERSION = { major: 1, minor: 24 };
+
+export const KUBECTL_VERSION_COMMAND = "kubectl version -o json";
+export const KUBECTL_STORAGE_CLASSES_COMMAND =
+  "kubectl get storageclass -o yaml";
+export const KUBECTL_NODES_COMMAND = "kubectl get nodes -o json";
+
+const DEFAULT_CLASS_ANNOTATIONS = [
+  "storageclass.kubernetes.io/is-default-class",
+  "storageclass.beta.kubernetes.io/is-default-class",
+];
+
+/**
+ * Disk types by provisioner, for the clouds whose provisioners take the
+ * type as a parameter. Types not listed are treated as unknown.
+ */
+const DISK_TYPES: Array<{
+  provisioners: string[];
+  parameter: string;
+  /** Default disk type when the parameter is unset. */
+  fallback: string;
+  ssd: string[];
+  hdd: string[];
+}> = [
+  {
+    provisioners: ["ebs.csi.aws.com", "kubernetes.io/aws-ebs"],
+    parameter: "type",
+    fallback: "gp3",
+    ssd: ["gp2", "gp3", "io1", "io2"],
+    hdd: ["st1", "sc1", "standard"],
+  },
+  {
+    provisioners: ["pd.csi.storage.gke.io", "kubernetes.io/gce-pd"],
+    parameter: "type",
+    fallback: "pd-standard",
+    ssd: ["pd-ssd", "pd-balanced", "pd-extreme", "hyperdisk-balanced"],
+    hdd: ["pd-standard"],
+  },
+  {
+    provisioners: ["disk.csi.azure.com", "kubernetes.io/azure-disk"],
+    parameter: "skuname",
+    fallback: "standardssd_lrs",
+    ssd: [
+      "premium_lrs",
+      "premium_zrs",
+      "premiumv2_lrs",
+      "standardssd_lrs",
+      "standardssd_zrs",
+      "ultrassd_lrs",
+    ],
+    hdd: ["standard_lrs"],
+  },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown) => (isRecord(value) ? value : {});
+
+const asString = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+/**
+ * Parses pasted kubectl output. YAML is a superset of JSON, so both
+ * `-o json` and `-o yaml` are accepted.
+ *
+ * @returns The document, or undefined when it is not an object.
+ */
+const parseOutput = (text: string) => {
+  try {
+    const value: unknown = parseYaml(text);
+    return isRecord(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/** Items of a `List`, or the object itself when a single one was pasted. */
+const listItems = (doc: Record<string, unknown>, kind: string) =>
+  (Array.isArray(doc.items) ? doc.items : [doc])
+    .filter(isRecord)
+    .filter((item) => item.kind === undefined || item.kind === kind);
+
+const INVALID_INPUT: CheckResult = { status: "warn", code: "invalidInput" };
+
+/**
+ * Checks the server version from `kubectl version -o json`.
+ *
+ * @param text - The pasted output.
+ */
+export function checkKubernetesVersion(text: string): CheckResult {
+  const doc = parseOutput(text);
+  if (!doc) return INVALID_INPUT;
+  if (!isRecord(doc.serverVersion)) {
+    if (isRecord(doc.clientVersion)) {
+      return { status: "warn", code: "versionMissing" };
+    }
+    return INVALID_INPUT;
+  }
+
+  // Managed clusters report versions such as `v1.29.3-eks-adc7111`.
+  const match = /^v?(\d+)\.(\d+)/.exec(
+    asString(doc.serverVersion.gitVersion) ?? ""
+  );
+  if (!match) return INVALID_INPUT;
+  const [major, minor] = [Number(match[1]), Number(match[2])];
+  const version = `${major}.${minor}`;
+  const min = MIN_KUBERNETES_VERSION;
+  const supported =
+    major > min.major || (major === min.major && minor >= min.minor);
+
+  return supported
+    ? { status: "pass", code: "versionSupported", values: { version } }
+    : {
+        status: "fail",
+        code: "versionTooOld",
+        values: { version, min: `${min.major}.${min.minor}` },
+      };
+}
+
+/**
+ * Guesses the disk type behind a StorageClass from its provisioner and
+ * parameters.
+ *
+ * @param provisioner - The class's provisioner.
+ * @param parameters - The class's parameters.
+ */
+export function classifyStorage(
+  provisioner: string,
+  parameters: Record<string, unknown>
+): StorageKind {
+  if (/nfs|efs\.csi|filestore|file\.csi\.azure/i.test(provisioner)) {
+    return "nfs";
+  }
+  const disk = DISK_TYPES.find((entry) =>
+    entry.provisioners.includes(provisioner)
+  );
+  if (!disk) return "unknown";
+
+  const parameter = Object.entries(parameters).find(
+    ([key]) => key.toLowerCase() === disk.parameter
+  );
+  const type = (asString(parameter?.[1]) ?? disk.fallback).toLowerCase();
+  if (disk.ssd.includes(type)) return "ssd";
+  if (disk.hdd.includes(type)) return "hdd";
+  return "unknown";
+}
+
+/**
+ * Checks for an SSD-backed StorageClass in `kubectl get storageclass -o yaml`.
+ * The default class is preferred, since the chart uses it unless a class is
+ * set.
+ *
+ * @param text - The pasted output.
+ */
+export function checkStorageClasses(text: string): CheckResult {
+  const doc = parseOutput(text);
+  if (!doc) return INVALID_INPUT;
+
+  const classes = listItems(doc, "StorageClass").flatMap((item) => {
+    const metadata = asRecord(item.metadata);
+    const name = asString(metadata.name);
+    const provisioner = asString(item.provisioner);
+    if (!name || !provisioner) return [];
+    const annotations = asRecord(metadata.annotations);
+    return [
+      {
+        name,
+        provisioner,
+        isDefault: DEFAULT_CLASS_ANNOTATIONS.some(
+          (key) => annotations[key] === "true"
+        ),
+        kind: classifyStorage(provisioner, asRecord(item.parameters)),
+      },
+    ];
+  });
+  if (classes.length === 0) return { status: "fail", code: "noStorageClasses" };
+
+  const details = classes.map(({ name, provisioner, isDefault, kind }) => ({
+    label: `${name} — ${provisioner}`,
+    isDefault,
+    status: (kind === "ssd"
+      ? "pass"
+      : kind === "unknown"
+        ? "warn"
+        : "fail") as CheckStatus,
+  }));
+  const ssd = classes.filter((sc) => sc.kind === "ssd");
+  const defaultSsd = ssd.find((sc) => sc.isDefault);
+
+  if (defaultSsd) {
+    return {
+      status: "pass",
+      code: "ssdDefault",
+      values: { name: defaultSsd.name },
+      details,
+    };
+  }
+  if (ssd.length > 0) {
+    return {
+      status: "warn",
+      code: "ssdAvailable",
+      values: { name: ssd[0].name },
+      details,
+    };
+  }
+  if (classes.some((sc) => sc.kind === "unknown")) {
+    return { status: "warn", code: "storageUnknown", details };
+  }
+  return { status: "fail", code: "storageUnsupported", details };
+}
+
+/**
+ * Reads the nodes from `kubectl get nodes -o json`.
+ *
+ * @param text - The pasted output.
+ * @returns The nodes, or undefined when the output is not a node list.
+ */
+export function readNodes(text: string): NodeSummary[] | undefined {
+  const doc = parseOutput(text);
+  if (!doc) return undefined;
+
+  const nodes = listItems(doc, "Node").flatMap((item) => {
+    const metadata = asRecord(item.metadata);
+    const status = asRecord(item.status);
+    const name = asString(metadata.name);
+    const architecture =
+      asString(asRecord(status.nodeInfo).architecture) ??
+      asString(asRecord(metadata.labels)["kubernetes.io/arch"]);
+    if (!name || !architecture) return [];
+    const conditions = Array.isArray(status.conditions)
+      ? status.conditions.filter(isRecord)
+      : [];
+    return [
+      {
+        name,
+        architecture,
+        ready: conditions.some(
+          (condition) =>
+            condition.type === "Ready" && condition.status === "True"
+        ),
+      },
+    ];
+  });
+  return nodes.length > 0 ? nodes : undefined;
+}
+
+/**
+ * Checks that the cluster has Ready nodes to schedule RustCost on.
+ *
+ * @param nodes - The cluster's nodes.
+ */
+export function checkNodeCount(nodes: NodeSummary[]): CheckResult {
+  const ready = nodes.filter((node) => node.ready).length;
+  const details = nodes
+    .filter((node) => !node.ready)
+    .map((node) => ({ label: node.name, status: "warn" as const }));
+  if (ready === 0) {
+    return {
+      status: "fail",
+      code: "noReadyNodes",
+      values: { count: nodes.length },
+    };
+  }
+  if (ready < nodes.length) {
+    return {
+      status: "warn",
+      code: "nodesNotReady",
+      values: { ready, count: nodes.length },
+      details,
+    };
+  }
+  return { status: "pass", code: "nodesReady", values: { count: ready } };
+}
+
+/**
+ * Checks the node architectures against the platforms an image is published
+ * for.
+ *
+ * @param nodes - The cluster's nodes.
+ * @param imageArchitectures - Platforms of the image's latest release.
+ */
+export function checkArchitectures(
+  nodes: NodeSummary[],
+  imageArchitectures: string[]
+): CheckResult {
+  const counts = new Map<string, number>();
+  for (const node of nodes) {
+    counts.set(node.architecture, (counts.get(node.architecture) ?? 0) + 1);
+  }
+  const architectures = [...counts.keys()].sort();
+  const unsupported = architectures.filter(
+    (arch) => !imageArchitectures.includes(arch)
+  );
+  const details = architectures.map((arch) => ({
+    label: `${arch} × ${counts.get(arch)}`,
+    status: (unsupported.includes(arch) ? "fail" : "pass") as CheckStatus,
+  }));
+  const values = {
+    architectures: imageArchitectures.join(", "),
+    unsupported: unsupported.join(", "),
+  };
+
+  if (unsupported.length === 0) {
+    return { status: "pass", code: "architecturesSupported", values, details };
+  }
+  if (unsupported.length < architectures.length) {
+    return { status: "warn", code: "architecturesPartial", values, details };
+  }
+  return { status: "fail", code: "architecturesUnsupported", values, details };
+}
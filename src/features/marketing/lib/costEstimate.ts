@@ -0,0 +1,226 @@
+/** Hours in an average month (365 × 24 / 12), the usual cloud billing month. */
+export const HOURS_PER_MONTH = 730;
+
+export const ESTIMATE_CURRENCIES = ["USD", "EUR", "GBP", "KRW", "JPY"];
+
+/** A group of identical nodes, as typed in the form. */
+export type NodePoolInput = {
+  id: number;
+  name: string;
+  count: string;
+  /** Price of one node per hour, in the selected currency. */
+  hourlyPrice: string;
+};
+
+/** A namespace and its share of the cluster's requested capacity (%). */
+export type NamespaceInput = {
+  id: number;
+  name: string;
+  share: string;
+};
+
+/**
+ * How unrequested capacity is reported: kept as a separate idle line owned
+ * by the platform team, or spread over namespaces by their share.
+ */
+export type IdleMode = "platform" | "proportional";
+
+export type NamespaceCost = {
+  name: string;
+  /** Share of the cluster's capacity, 0–100. */
+  share: number;
+  allocated: number;
+  idle: number;
+  total: number;
+};
+
+export type CostEstimate = {
+  /** Monthly cost of all nodes. */
+  clusterCost: number;
+  allocatedCost: number;
+  idleCost: number;
+  /** Idle cost that no namespace carries, in `platform` mode. */
+  unassignedIdle: number;
+  namespaces: NamespaceCost[];
+};
+
+export type CostEstimateErrors = {
+  nodePools: Partial<Record<number, { count?: true; hourlyPrice?: true }>>;
+  namespaces: Partial<Record<number, { share?: true }>>;
+  /** The shares add up to more than 100%. */
+  overallocated: boolean;
+};
+
+export const DEFAULT_NODE_POOLS: NodePoolInput[] = [
+  { id: 1, name: "general", count: "3", hourlyPrice: "0.096" },
+  { id: 2, name: "memory", count: "1", hourlyPrice: "0.252" },
+];
+
+export const DEFAULT_NAMESPACES: NamespaceInput[] = [
+  { id: 1, name: "frontend", share: "20" },
+  { id: 2, name: "backend", share: "35" },
+  { id: 3, name: "data", share: "25" },
+];
+
+const NUMBER = /^\d+(\.\d+)?$/;
+
+const isCount = (value: string) => /^\d+$/.test(value);
+const isPrice = (value: string) => NUMBER.test(value);
+const isShare = (value: string) => NUMBER.test(value) && Number(value) <= 100;
+
+const totalShare = (namespaces: NamespaceInput[]) =>
+  namespaces.reduce(
+    (sum, ns) => sum + (isShare(ns.share) ? Number(ns.share) : 0),
+    0
+  );
+
+/**
+ * Lists the fields that are not numbers, and whether the namespaces request
+ * more than the whole cluster.
+ *
+ * @param nodePools - The node pools.
+ * @param namespaces - The namespaces.
+ */
+export function validateCostEstimate(
+  nodePools: NodePoolInput[],
+  namespaces: NamespaceInput[]
+): CostEstimateErrors {
+  const poolErrors = nodePools.map(({ id, count, hourlyPrice }) => [
+    id,
+    {
+      ...(!isCount(count) && { count: true as const }),
+      ...(!isPrice(hourlyPrice) && { hourlyPrice: true as const }),
+    },
+  ]);
+  const namespaceErrors = namespaces.map(({ id, share }) => [
+    id,
+    { ...(!isShare(share) && { share: true as const }) },
+  ]);
+  return {
+    nodePools: Object.fromEntries(
+      poolErrors.filter(([, errors]) => Object.keys(errors).length > 0)
+    ),
+    namespaces: Object.fromEntries(
+      namespaceErrors.filter(([, errors]) => Object.keys(errors).length > 0)
+    ),
+    overallocated: totalShare(namespaces) > 100,
+  };
+}
+
+export const hasCostEstimateErrors = (errors: CostEstimateErrors) =>
+  errors.overallocated ||
+  Object.keys(errors.nodePools).length > 0 ||
+  Object.keys(errors.namespaces).length > 0;
+
+/**
+ * Splits the monthly node cost the way RustCost allocates it: each
+ * namespace pays for the share of capacity it requests, and the capacity
+ * nobody requests is idle.
+ *
+ * @param nodePools - Valid node pools.
+ * @param namespaces - Valid namespaces whose shares add up to 100% at most.
+ * @param idleMode - Who carries the idle cost.
+ * @returns Monthly costs in the currency of the prices.
+ */
+export function computeCostEstimate(
+  nodePools: NodePoolInput[],
+  namespaces: NamespaceInput[],
+  idleMode: IdleMode
+): CostEstimate {
+  const clusterCost = nodePools.reduce(
+    (sum, pool) =>
+      sum + Number(pool.count) * Number(pool.hourlyPrice) * HOURS_PER_MONTH,
+    0
+  );
+  const requested = totalShare(namespaces);
+  const idleCost = clusterCost * (1 - requested / 100);
+
+  return {
+    clusterCost,
+    allocatedCost: clusterCost - idleCost,
+    idleCost,
+    unassignedIdle: idleMode === "platform" || requested === 0 ? idleCost : 0,
+    namespaces: namespaces.map(({ name, share }) => {
+      const allocated = (clusterCost * Number(share)) / 100;
+      const idle =
+        idleMode === "proportional" && requested > 0
+          ? (idleCost * Number(share)) / requested
+          : 0;
+      return {
+        name,
+        share: Number(share),
+        allocated,
+        idle,
+        total: allocated + idle,
+      };
+    }),
+  };
+}
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders the per-namespace allocation as CSV, with the unassigned idle
+ * cost and the cluster total as the last rows. Amount headers name the
+ * currency, and amounts keep its usual decimals (none for JPY and KRW).
+ *
+ * @param estimate - The computed estimate.
+ * @param currency - The ISO 4217 code of the prices.
+ * @param labels - Localized column headers and row names.
+ * @returns The CSV text.
+ */
+export function buildCostEstimateCsv(
+  estimate: CostEstimate,
+  currency: string,
+  labels: {
+    namespace: string;
+    share: string;
+    allocated: string;
+    idle: string;
+    total: string;
+    unassignedIdle: string;
+    cluster: string;
+  }
+) {
+  const { maximumFractionDigits = 2 } = new Intl.NumberFormat("en", {
+    style: "currency",
+    currency,
+  }).resolvedOptions();
+  const amount = (value: number) => value.toFixed(maximumFractionDigits);
+  const rows: Array<Array<string | number>> = [
+    [
+      labels.namespace,
+      labels.share,
+      `${labels.allocated} (${currency})`,
+      `${labels.idle} (${currency})`,
+      `${labels.total} (${currency})`,
+    ],
+    ...estimate.namespaces.map((ns) => [
+      ns.name,
+      ns.share,
+      amount(ns.allocated),
+      amount(ns.idle),
+      amount(ns.total),
+    ]),
+  ];
+  if (estimate.unassignedIdle > 0) {
+    rows.push([
+      labels.unassignedIdle,
+      "",
+      "",
+      amount(estimate.unassignedIdle),
+      amount(estimate.unassignedIdle),
+    ]);
+  }
+  rows.push([
+    labels.cluster,
+    100,
+    amount(estimate.allocatedCost),
+    amount(estimate.idleCost),
+    amount(estimate.clusterCost),
+  ]);
+  return `${rows.map((row) => row.map(csvField).join(",")).join("\n")}\n`;
+}
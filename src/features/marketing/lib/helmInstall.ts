@@ -0,0 +1,207 @@
+import { stringify as stringifyYaml } from "yaml";
+import {
+  HELM_CHART_NAME,
+  HELM_CHART_VERSION,
+  HELM_CHART_VERSIONS,
+  HELM_REPOSITORY_NAME,
+  HELM_REPOSITORY_URL,
+} from "@/constants/download";
+import {
+  isDnsLabel,
+  isDnsSubdomain,
+} from "@/features/marketing/lib/kubernetes";
+
+export type HelmInstallField =
+  | "version"
+  | "namespace"
+  | "release"
+  | "storageClass"
+  | "retentionDays"
+  | "ingressHost"
+  | "cpuLimit"
+  | "memoryLimit";
+
+/** Raw form values, as typed; optional fields are empty when unset. */
+export type HelmInstallForm = Record<HelmInstallField, string>;
+
+export type HelmInstallErrors = Partial<Record<HelmInstallField, true>>;
+
+/** The subset of the chart's values.yaml the builder can set. */
+export interface HelmValues {
+  persistence?: { storageClass: string };
+  retention: { days: number };
+  ingress?: { enabled: true; host: string };
+  resources?: { limits: { cpu?: string; memory?: string } };
+}
+
+type FieldSpec = {
+  /** Query string parameter. */
+  param: string;
+  defaultValue: string;
+  isValid: (value: string) => boolean;
+};
+
+export const HELM_VALUES_FILE_NAME = "values.yaml";
+
+const CPU_QUANTITY = /^(\d+m|\d+(\.\d+)?)$/;
+const MEMORY_QUANTITY = /^\d+(\.\d+)?(Ki|Mi|Gi|Ti|k|M|G|T)?$/;
+
+const optional =
+  (isValid: (value: string) => boolean) =>
+  (value: string): boolean =>
+    value === "" || isValid(value);
+
+const FIELDS: Record<HelmInstallField, FieldSpec> = {
+  version: {
+    param: "version",
+    defaultValue: HELM_CHART_VERSION,
+    isValid: (value) => HELM_CHART_VERSIONS.includes(value),
+  },
+  namespace: {
+    param: "namespace",
+    defaultValue: "rustcost",
+    isValid: (value) => isDnsLabel(value),
+  },
+  release: {
+    param: "release",
+    defaultValue: "rustcost",
+    // Helm appends suffixes to the release name, hence 53 instead of 63.
+    isValid: (value) => isDnsLabel(value, 53),
+  },
+  storageClass: {
+    param: "storageClass",
+    defaultValue: "",
+    isValid: optional(isDnsSubdomain),
+  },
+  retentionDays: {
+    param: "retention",
+    defaultValue: "30",
+    isValid: (value) =>
+      /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 3650,
+  },
+  ingressHost: {
+    param: "host",
+    defaultValue: "",
+    isValid: optional(isDnsSubdomain),
+  },
+  cpuLimit: {
+    param: "cpu",
+    defaultValue: "",
+    isValid: optional((value) => CPU_QUANTITY.test(value)),
+  },
+  memoryLimit: {
+    param: "memory",
+    defaultValue: "",
+    isValid: optional((value) => MEMORY_QUANTITY.test(value)),
+  },
+};
+
+const FIELD_NAMES = Object.keys(FIELDS) as HelmInstallField[];
+
+export const DEFAULT_HELM_INSTALL_FORM = Object.fromEntries(
+  FIELD_NAMES.map((field) => [field, FIELDS[field].defaultValue])
+) as HelmInstallForm;
+
+/**
+ * Reads the builder form from a shared link's query string. Missing
+ * parameters take their default; invalid ones are kept so the form can
+ * point at them.
+ *
+ * @param params - The page's query string.
+ * @returns The form values.
+ */
+export function readHelmInstallForm(params: URLSearchParams): HelmInstallForm {
+  return Object.fromEntries(
+    FIELD_NAMES.map((field) => [
+      field,
+      params.get(FIELDS[field].param) ?? FIELDS[field].defaultValue,
+    ])
+  ) as HelmInstallForm;
+}
+
+/**
+ * Encodes the builder form as query parameters, leaving out defaults so
+ * shared links stay short.
+ *
+ * @param form - The form values.
+ * @returns The query parameters.
+ */
+export function toHelmInstallParams(form: HelmInstallForm): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const field of FIELD_NAMES) {
+    if (form[field] !== FIELDS[field].defaultValue) {
+      params.set(FIELDS[field].param, form[field]);
+    }
+  }
+  return params;
+}
+
+/**
+ * Lists the fields that Kubernetes or Helm would reject.
+ *
+ * @param form - The form values.
+ * @returns The invalid fields; empty when the form is valid.
+ */
+export function validateHelmInstallForm(
+  form: HelmInstallForm
+): HelmInstallErrors {
+  return Object.fromEntries(
+    FIELD_NAMES.filter((field) => !FIELDS[field].isValid(form[field])).map(
+      (field) => [field, true]
+    )
+  );
+}
+
+/**
+ * Builds the chart values for a valid form. Unset optional fields are left
+ * out, so the chart's own defaults apply.
+ *
+ * @param form - The form values.
+ * @returns The values object.
+ */
+export function buildHelmValues(form: HelmInstallForm): HelmValues {
+  const limits = {
+    ...(form.cpuLimit && { cpu: form.cpuLimit }),
+    ...(form.memoryLimit && { memory: form.memoryLimit }),
+  };
+  return {
+    ...(form.storageClass && {
+      persistence: { storageClass: form.storageClass },
+    }),
+    retention: { days: Number(form.retentionDays) },
+    ...(form.ingressHost && {
+      ingress: { enabled: true, host: form.ingressHost },
+    }),
+    ...(Object.keys(limits).length > 0 && { resources: { limits } }),
+  };
+}
+
+/**
+ * Renders the chart values as a `values.yaml` file.
+ *
+ * @param form - The form values.
+ * @returns The YAML document.
+ */
+export function buildHelmValuesYaml(form: HelmInstallForm) {
+  return stringifyYaml(buildHelmValues(form));
+}
+
+/**
+ * Builds the shell commands that add the chart repository and install or
+ * upgrade the release with the generated `values.yaml`.
+ *
+ * @param form - The form values.
+ * @returns The commands, one per line.
+ */
+export function buildHelmInstallCommand(form: HelmInstallForm) {
+  return [
+    `helm repo add ${HELM_REPOSITORY_NAME} ${HELM_REPOSITORY_URL}`,
+    "helm repo update",
+    [
+      `helm upgrade --install ${form.release} ${HELM_CHART_NAME}`,
+      `-n ${form.namespace} --create-namespace`,
+      `--version ${form.version}`,
+      `-f ${HELM_VALUES_FILE_NAME}`,
+    ].join(" "),
+  ].join("\n");
+}
@@ -0,0 +1,22 @@
+const DNS_LABEL = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+const DNS_SUBDOMAIN =
+  /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/;
+
+/**
+ * Checks an RFC 1123 label, the format of namespace and release names.
+ *
+ * @param value - The name.
+ * @param maxLength - Length limit; 63 unless the owner adds suffixes.
+ */
+export function isDnsLabel(value: string, maxLength = 63) {
+  return value.length <= maxLength && DNS_LABEL.test(value);
+}
+
+/**
+ * Checks an RFC 1123 subdomain, the format of StorageClass names and hosts.
+ *
+ * @param value - The name.
+ */
+export function isDnsSubdomain(value: string) {
+  return value.length <= 253 && DNS_SUBDOMAIN.test(value);
+}
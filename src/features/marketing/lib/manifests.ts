@@ -0,0 +1,183 @@
+import { Document } from "yaml";
+import { CORE_IMAGE_NAME, DASHBOARD_IMAGE_NAME } from "@/constants/download";
+import {
+  isDnsLabel,
+  isDnsSubdomain,
+} from "@/features/marketing/lib/kubernetes";
+
+/** Options shared by every manifest snippet of the Docker tab. */
+export type ManifestOptions = {
+  namespace: string;
+  storageClass: string;
+};
+
+export type ManifestErrors = Partial<Record<keyof ManifestOptions, true>>;
+
+interface ComposeService {
+  image: string;
+  container_name: string;
+  restart: "unless-stopped";
+  ports: Array<{ target: number; published: number }>;
+  volumes?: string[];
+  depends_on?: string[];
+}
+
+interface ComposeFile {
+  name: string;
+  services: Record<string, ComposeService>;
+  volumes: Record<string, Record<string, never>>;
+}
+
+interface ObjectMeta {
+  name: string;
+  namespace?: string;
+}
+
+interface PersistentVolumeClaim {
+  apiVersion: "v1";
+  kind: "PersistentVolumeClaim";
+  metadata: ObjectMeta;
+  spec: {
+    accessModes: string[];
+    storageClassName: string;
+    resources: { requests: { storage: string } };
+  };
+}
+
+interface ClusterRole {
+  apiVersion: "rbac.authorization.k8s.io/v1";
+  kind: "ClusterRole";
+  metadata: ObjectMeta;
+  rules: Array<{ apiGroups: string[]; resources: string[]; verbs: string[] }>;
+}
+
+interface ClusterRoleBinding {
+  apiVersion: "rbac.authorization.k8s.io/v1";
+  kind: "ClusterRoleBinding";
+  metadata: ObjectMeta;
+  roleRef: { apiGroup: string; kind: "ClusterRole"; name: string };
+  subjects: Array<{ kind: "ServiceAccount"; name: string; namespace: string }>;
+}
+
+export const DEFAULT_MANIFEST_OPTIONS: ManifestOptions = {
+  namespace: "rustcost",
+  storageClass: "ssd",
+};
+
+const DATA_VOLUME = "rustcost-data";
+const READER_ROLE = "rustcost-read";
+
+const toYaml = (value: unknown, comment?: string) => {
+  const doc = new Document(value);
+  if (comment) doc.commentBefore = ` ${comment}`;
+  return doc.toString();
+};
+
+/**
+ * Lists the options that Kubernetes would reject.
+ *
+ * @param options - The namespace and StorageClass.
+ * @returns The invalid options; empty when both are valid.
+ */
+export function validateManifestOptions({
+  namespace,
+  storageClass,
+}: ManifestOptions): ManifestErrors {
+  return {
+    ...(!isDnsLabel(namespace) && { namespace: true }),
+    ...(!isDnsSubdomain(storageClass) && { storageClass: true }),
+  };
+}
+
+/**
+ * Builds a `compose.yaml` that runs the core and the dashboard images. The
+ * namespace is used as the Compose project name so containers are grouped
+ * the same way as in the cluster.
+ */
+export function buildComposeYaml({ namespace }: ManifestOptions) {
+  const compose: ComposeFile = {
+    name: namespace,
+    services: {
+      rustcost: {
+        image: CORE_IMAGE_NAME,
+        container_name: "rustcost",
+        restart: "unless-stopped",
+        ports: [{ target: 9090, published: 9090 }],
+        volumes: [`${DATA_VOLUME}:/data`],
+      },
+      "rustcost-dashboard": {
+        image: DASHBOARD_IMAGE_NAME,
+        container_name: "rustcost-dashboard",
+        restart: "unless-stopped",
+        ports: [{ target: 80, published: 8080 }],
+        depends_on: ["rustcost"],
+      },
+    },
+    volumes: { [DATA_VOLUME]: {} },
+  };
+  return toYaml(
+    compose,
+    `The ${DATA_VOLUME} volume must be SSD-backed in production.`
+  );
+}
+
+/**
+ * Builds the PersistentVolumeClaim for RustCost's data on an SSD-backed
+ * StorageClass.
+ */
+export function buildPvcYaml({ namespace, storageClass }: ManifestOptions) {
+  const claim: PersistentVolumeClaim = {
+    apiVersion: "v1",
+    kind: "PersistentVolumeClaim",
+    metadata: { name: DATA_VOLUME, namespace },
+    spec: {
+      accessModes: ["ReadWriteOnce"],
+      storageClassName: storageClass,
+      resources: { requests: { storage: "10Gi" } },
+    },
+  };
+  return toYaml(claim);
+}
+
+/**
+ * Builds the read-only ClusterRole and its binding to the namespace's
+ * default ServiceAccount, as two YAML documents.
+ */
+export function buildRbacYaml({ namespace }: ManifestOptions) {
+  const role: ClusterRole = {
+    apiVersion: "rbac.authorization.k8s.io/v1",
+    kind: "ClusterRole",
+    metadata: { name: READER_ROLE },
+    rules: [
+      {
+        apiGroups: [""],
+        resources: ["nodes", "pods", "namespaces"],
+        verbs: ["get", "list", "watch"],
+      },
+    ],
+  };
+  const binding: ClusterRoleBinding = {
+    apiVersion: "rbac.authorization.k8s.io/v1",
+    kind: "ClusterRoleBinding",
+    metadata: { name: READER_ROLE },
+    roleRef: {
+      apiGroup: "rbac.authorization.k8s.io",
+      kind: "ClusterRole",
+      name: READER_ROLE,
+    },
+    subjects: [{ kind: "ServiceAccount", name: "default", namespace }],
+  };
+  return `${toYaml(role)}---\n${toYaml(binding)}`;
+}
+
+/**
+ * Builds the commands that check the pods and the volume claim.
+ */
+export function buildVerifyCommands({
+  namespace,
+}: Pick<ManifestOptions, "namespace">) {
+  return [
+    `kubectl get pods -n ${namespace}`,
+    `kubectl get pvc -n ${namespace}`,
+  ].join("\n");
+}
@@ -0,0 +1,89 @@
+import {
+  DOCKER_TAGS_CACHE_KEY_PREFIX,
+  DOCKER_TAGS_CACHE_TTL_MS,
+} from "@/constants/api";
+import { compareSemver, parseSemver } from "@/lib/semver";
+import type { DockerHubTag } from "@/types/api";
+import type { VersionInfo } from "@/types/download";
+
+type CachedReleases = {
+  savedAt: number;
+  versions: VersionInfo[];
+};
+
+/**
+ * Turns Docker Hub tags into release rows: only release versions are kept
+ * (pre-releases and tags such as `latest` are dropped), newest first.
+ *
+ * @param tags - The repository's tags.
+ * @param repo - The GitHub repository, for release note links.
+ * @returns One row per release.
+ */
+export function toReleaseVersions(
+  tags: DockerHubTag[],
+  repo: string
+): VersionInfo[] {
+  return tags
+    .flatMap((tag) => {
+      const semver = parseSemver(tag.name);
+      return semver && !semver.prerelease.length ? [{ tag, semver }] : [];
+    })
+    .sort((a, b) => compareSemver(b.semver, a.semver))
+    .map(({ tag }) => ({
+      version: tag.name,
+      date: tag.last_updated,
+      size: tag.full_size,
+      notes: `${repo}/releases/tag/v${tag.name.replace(/^v/, "")}`,
+      // Attestation manifests are listed with an `unknown` architecture.
+      architectures: [
+        ...new Set(
+          (tag.images ?? [])
+            .map((image) => image.architecture)
+            .filter(
+              (arch): arch is string => Boolean(arch) && arch !== "unknown"
+            )
+        ),
+      ].sort(),
+    }));
+}
+
+const cacheKey = (image: string) => `${DOCKER_TAGS_CACHE_KEY_PREFIX}${image}`;
+
+/**
+ * Reads the release rows cached for an image.
+ *
+ * @param image - The Docker Hub repository.
+ * @returns The rows, or undefined when missing, unreadable or older than
+ * `DOCKER_TAGS_CACHE_TTL_MS`.
+ */
+export function readCachedReleases(image: string): VersionInfo[] | undefined {
+  if (typeof window === "undefined") return undefined;
+  try {
+    const raw = window.localStorage.getItem(cacheKey(image));
+    if (!raw) return undefined;
+    const cached = JSON.parse(raw) as CachedReleases;
+    if (
+      !Array.isArray(cached.versions) ||
+      Date.now() - cached.savedAt > DOCKER_TAGS_CACHE_TTL_MS
+    ) {
+      return undefined;
+    }
+    return cached.versions;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Caches the release rows of an image. Storage errors (quota, private
+ * browsing) are ignored; the next visit fetches again.
+ */
+export function writeCachedReleases(image: string, versions: VersionInfo[]) {
+  if (typeof window === "undefined") return;
+  try {
+    const cached: CachedReleases = { savedAt: Date.now(), versions };
+    window.localStorage.setItem(cacheKey(image), JSON.stringify(cached));
+  } catch {
+    // ignore
+  }
+}
@@ -12,6 +12,7 @@ import {
 import BrandLogo from "@/shared/components/BrandLogo";
 import CommonCard from "@/shared/components/CommonCard";
 import PageSEO from "@/shared/components/PageSEO";
+import CostEstimator from "@/features/marketing/components/CostEstimator";
 import { buildLanguagePrefix } from "@/constants/language";
 import type { LanguageCode } from "@/types/i18n";
 
@@ -289,6 +290,7 @@ export default function LandingPage() {
             </ul>
           </CommonCard>
         </div>
+        <CostEstimator />
       </section>
 
       {/* Philosophy Section */}
@@ -1,34 +1,57 @@
-import i18n from "i18next";
+import i18n, { type BackendModule, type ResourceKey } from "i18next";
 import { initReactI18next } from "react-i18next";
 import LanguageDetector from "i18next-browser-languagedetector";
-import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from "@/constants/language";
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_STORAGE_KEY,
+  SUPPORTED_LANGUAGES,
+} from "@/constants/language";
 
-async function loadResources() {
-  const en = await import("./locales/en/translation.json");
-  const ko = await import("./locales/ko/translation.json");
+/**
+ * One lazy chunk per bundle, so each locale added to the registry costs the
+ * initial bundle nothing.
+ */
+const bundles = import.meta.glob<ResourceKey>("./locales/*/*.json", {
+  import: "default",
+});
 
-  return {
-    en: { translation: en.default },
-    ko: { translation: ko.default },
-  };
-}
+const lazyBundles: BackendModule = {
+  type: "backend",
+  init() {},
+  read(language, namespace, callback) {
+    const load = bundles[`./locales/${language}/${namespace}.json`];
+    if (!load) {
+      callback(new Error(`No ${namespace} bundle for "${language}"`), false);
+      return;
+    }
+    load().then(
+      (resources) => callback(null, resources),
+      (error: Error) => callback(error, false)
+    );
+  },
+};
 
-const resources = await loadResources();
-
-i18n
+// Resolves once the detected language and the fallback are loaded, so the
+// first render (and hydration of pre-rendered pages) is already translated.
+await i18n
+  .use(lazyBundles)
   .use(LanguageDetector)
   .use(initReactI18next)
   .init({
     fallbackLng: DEFAULT_LANGUAGE,
     supportedLngs: [...SUPPORTED_LANGUAGES],
+    load: "currentOnly",
     detection: {
       order: ["path", "localStorage", "navigator"],
       lookupFromPathIndex: 0,
+      lookupLocalStorage: LANGUAGE_STORAGE_KEY,
+      // Only an explicit pick in LangSelect is remembered, not every
+      // language prefix the visitor lands on.
+      caches: [],
     },
     interpolation: {
       escapeValue: false,
     },
-    resources,
   });
 
 export default i18n;
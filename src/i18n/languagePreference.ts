@@ -0,0 +1,55 @@
+import {
+  DEFAULT_LANGUAGE,
+  isLanguageCode,
+  LANGUAGE_STORAGE_KEY,
+  matchLanguageCode,
+} from "@/constants/language";
+import type { LanguageCode } from "@/types/i18n";
+
+/**
+ * Reads the language the visitor picked in the language menu.
+ *
+ * @returns The stored LanguageCode, or undefined when none was picked, the
+ * value is no longer supported, or storage is unavailable.
+ */
+export function readStoredLanguage(): LanguageCode | undefined {
+  if (typeof window === "undefined") return undefined;
+  try {
+    const stored = window.localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    return isLanguageCode(stored) ? stored : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remembers the language the visitor picked. Storage errors (quota, private
+ * browsing) are ignored; the choice then lasts for the visit only.
+ */
+export function storeLanguage(language: LanguageCode) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * The language to send a visitor to when the URL has none: the stored
+ * choice, then the browser's languages, then DEFAULT_LANGUAGE. Pre-rendering
+ * has neither and always gets the default.
+ */
+export function getPreferredLanguage(): LanguageCode {
+  const browserLanguages =
+    typeof navigator === "undefined"
+      ? []
+      : navigator.languages?.length
+        ? navigator.languages
+        : [navigator.language];
+  return (
+    readStoredLanguage() ??
+    matchLanguageCode(browserLanguages.filter(Boolean)) ??
+    DEFAULT_LANGUAGE
+  );
+}
@@ -3,10 +3,11 @@ import {
   API_BASE_URL,
   API_TIMEOUT_MS,
   DEFAULT_DOCKER_TAG_PAGE_SIZE,
-  DOCKER_DASHBOARD_PATH,
+  DOCKER_HUB_API_URL,
   DOCKER_HUB_BASE_URL,
+  MAX_DOCKER_TAG_PAGES,
 } from "@/constants/api";
-import type { DockerHubTagsResponse } from "@/types/api";
+import type { DockerHubTag, DockerHubTagsResponse } from "@/types/api";
 
 export class ApiClientError extends Error {
   status?: number;
@@ -67,14 +68,26 @@ const dockerHubClient = createClient({
   timeout: API_TIMEOUT_MS,
 });
 
-export const fetchDockerHubDashboardTags = async (
+/**
+ * Fetches every tag of a Docker Hub repository, following the `next` links
+ * of the paginated response.
+ *
+ * @param image - The repository, e.g. `kimc1992/rustcost-core`.
+ * @param pageSize - Tags requested per page.
+ * @returns The tags in Docker Hub's order (most recently pushed first).
+ */
+export const fetchDockerHubTags = async (
+  image: string,
   pageSize = DEFAULT_DOCKER_TAG_PAGE_SIZE
-) => {
-  const response = await dockerHubClient.get<DockerHubTagsResponse>(
-    DOCKER_DASHBOARD_PATH,
-    {
-      params: { page_size: pageSize },
-    }
-  );
-  return response.data;
+): Promise<DockerHubTag[]> => {
+  const tags: DockerHubTag[] = [];
+  let url: string | null = `repositories/${image}/tags?page_size=${pageSize}`;
+  for (let page = 0; url && page < MAX_DOCKER_TAG_PAGES; page++) {
+    const { data }: { data: DockerHubTagsResponse } =
+      await dockerHubClient.get(url);
+    tags.push(...(data.results ?? []));
+    // `next` is an absolute hub.docker.com URL; keep it on the proxy.
+    url = data.next?.replace(DOCKER_HUB_API_URL, "") ?? null;
+  }
+  return tags;
 };
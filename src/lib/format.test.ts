@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatBytes,
+  formatCompactNumber,
+  formatCurrency,
+  formatDate,
+  formatRelativeTime,
+} from "@/lib/format";
+
+const NOW = Date.parse("2026-03-04T12:00:00Z");
+
+type LocaleCase = {
+  language: string;
+  date: string;
+  /** 2026-03-01, three days before `NOW`. */
+  daysAgo: string;
+  /** Two hours after `NOW`. */
+  inHours: string;
+  yesterday: string;
+  lastYear: string;
+  compact: [number, string][];
+  currency: Record<"USD" | "JPY" | "KRW", string>;
+};
+
+const LOCALES: LocaleCase[] = [
+  {
+    language: "en",
+    date: "Mar 4, 2026",
+    daysAgo: "3 days ago",
+    inHours: "in 2 hours",
+    yesterday: "yesterday",
+    lastYear: "last year",
+    compact: [
+      [1234, "1.2K"],
+      [15300, "15.3K"],
+      [2_500_000, "2.5M"],
+    ],
+    currency: { USD: "$1,234.50", JPY: "¥1,235", KRW: "₩1,235" },
+  },
+  {
+    language: "ko",
+    date: "2026. 3. 4.",
+    daysAgo: "3일 전",
+    inHours: "2시간 후",
+    yesterday: "어제",
+    lastYear: "작년",
+    compact: [
+      [1234, "1.2천"],
+      [15300, "1.5만"],
+      [2_500_000, "250만"],
+    ],
+    currency: { USD: "US$1,234.50", JPY: "JP¥1,235", KRW: "₩1,235" },
+  },
+  {
+    language: "ja",
+    date: "2026/03/04",
+    daysAgo: "3 日前",
+    inHours: "2 時間後",
+    yesterday: "昨日",
+    lastYear: "昨年",
+    compact: [
+      [1234, "1234"],
+      [15300, "1.5万"],
+      [2_500_000, "250万"],
+    ],
+    currency: { USD: "$1,234.50", JPY: "￥1,235", KRW: "₩1,235" },
+  },
+  {
+    language: "zh-CN",
+    date: "2026年3月4日",
+    daysAgo: "3天前",
+    inHours: "2小时后",
+    yesterday: "昨天",
+    lastYear: "去年",
+    compact: [
+      [1234, "1234"],
+      [15300, "1.5万"],
+      [2_500_000, "250万"],
+    ],
+    currency: { USD: "US$1,234.50", JPY: "JP¥1,235", KRW: "₩1,235" },
+  },
+];
+
+describe.each(LOCALES)("$language", (locale) => {
+  const { language } = locale;
+
+  describe("formatDate", () => {
+    it("formats a calendar date", () => {
+      expect(formatDate("2026-03-04", language)).toBe(locale.date);
+    });
+
+    it("shows timestamps in UTC", () => {
+      expect(formatDate("2026-03-03T23:30:00-05:00", language)).toBe(
+        locale.date
+      );
+    });
+
+    it("returns unparsable input as is", () => {
+      expect(formatDate("soon", language)).toBe("soon");
+    });
+  });
+
+  describe("formatRelativeTime", () => {
+    it("formats past dates", () => {
+      expect(formatRelativeTime("2026-03-01T12:00:00Z", language, NOW)).toBe(
+        locale.daysAgo
+      );
+      expect(formatRelativeTime("2026-03-03T12:00:00Z", language, NOW)).toBe(
+        locale.yesterday
+      );
+      expect(formatRelativeTime("2025-03-04T12:00:00Z", language, NOW)).toBe(
+        locale.lastYear
+      );
+    });
+
+    it("formats future dates", () => {
+      expect(formatRelativeTime("2026-03-04T14:00:00Z", language, NOW)).toBe(
+        locale.inHours
+      );
+    });
+
+    it("treats a date-only value as midnight UTC", () => {
+      expect(formatRelativeTime("2026-03-01", language, NOW)).toBe(
+        locale.daysAgo
+      );
+    });
+  });
+
+  describe("formatCompactNumber", () => {
+    it("prints small numbers as is", () => {
+      expect(formatCompactNumber(999, language)).toBe("999");
+    });
+
+    it.each(locale.compact)("shortens %d to %s", (value, expected) => {
+      expect(formatCompactNumber(value, language)).toBe(expected);
+    });
+  });
+
+  describe("formatBytes", () => {
+    it("formats 0 bytes", () => {
+      expect(formatBytes(0, language)).toBe("0 B");
+    });
+
+    it("switches to KiB at 1024 bytes", () => {
+      expect(formatBytes(1023, language)).toBe("1,023 B");
+      expect(formatBytes(1024, language)).toBe("1 KiB");
+      expect(formatBytes(1025, language)).toBe("1 KiB");
+    });
+
+    it("moves to the next unit when rounding reaches 1024", () => {
+      expect(formatBytes(1024 * 1024 - 1, language)).toBe("1 MiB");
+    });
+
+    it("keeps one decimal", () => {
+      expect(formatBytes(50_648_269, language)).toBe("48.3 MiB");
+    });
+
+    it("clamps negative sizes to 0", () => {
+      expect(formatBytes(-5, language)).toBe("0 B");
+    });
+  });
+
+  describe("formatCurrency", () => {
+    it("keeps two decimals for USD", () => {
+      expect(formatCurrency(1234.5, language, "USD")).toBe(locale.currency.USD);
+    });
+
+    it("rounds JPY and KRW to whole units", () => {
+      expect(formatCurrency(1234.5, language, "JPY")).toBe(locale.currency.JPY);
+      expect(formatCurrency(1234.5, language, "KRW")).toBe(locale.currency.KRW);
+    });
+  });
+});
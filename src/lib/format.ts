@@ -0,0 +1,137 @@
+/** Binary byte units, as Docker Hub and `kubectl` report image sizes. */
+const BYTE_UNITS = ["B", "KiB", "MiB", "GiB", "TiB"] as const;
+
+/** Relative time units, largest first, with their length in seconds. */
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a date, treating `YYYY-MM-DD` as that calendar day in UTC.
+ *
+ * @param value - A `Date`, an ISO date or an ISO timestamp.
+ * @returns The date, or undefined when the value cannot be parsed.
+ */
+const toDate = (value: Date | string): Date | undefined => {
+  const date =
+    typeof value === "string"
+      ? new Date(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value)
+      : value;
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Formats a calendar date, e.g. "Mar 4, 2026" in English or "2026年3月4日"
+ * in Chinese. Dates are shown in UTC so pre-rendered pages and the browser
+ * print the same day whatever the visitor's time zone.
+ *
+ * @param value - A `Date`, an ISO date or an ISO timestamp.
+ * @param language - The display language.
+ * @param options - Intl options replacing the default medium date style.
+ * @returns The formatted date, or the input when it cannot be parsed.
+ */
+export function formatDate(
+  value: Date | string,
+  language: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium" }
+): string {
+  const date = toDate(value);
+  if (!date) return String(value);
+  return new Intl.DateTimeFormat(language, {
+    ...options,
+    timeZone: "UTC",
+  }).format(date);
+}
+
+/**
+ * Formats how long ago (or until) a date is, e.g. "3 days ago" or
+ * "last month". Depends on the current time, so only render it after
+ * hydration.
+ *
+ * @param value - A `Date`, an ISO date or an ISO timestamp.
+ * @param language - The display language.
+ * @param now - The reference time in milliseconds.
+ * @returns The relative time, or the input when it cannot be parsed.
+ */
+export function formatRelativeTime(
+  value: Date | string,
+  language: string,
+  now: number = Date.now()
+): string {
+  const date = toDate(value);
+  if (!date) return String(value);
+  const seconds = (date.getTime() - now) / 1000;
+  const format = new Intl.RelativeTimeFormat(language, { numeric: "auto" });
+  for (const [unit, length] of RELATIVE_UNITS) {
+    if (Math.abs(seconds) >= length) {
+      return format.format(Math.round(seconds / length), unit);
+    }
+  }
+  return format.format(0, "minute");
+}
+
+/**
+ * Formats a number in short form, e.g. "1.2K" in English or "1.2천" in
+ * Korean. Numbers under a thousand are printed as is.
+ *
+ * @param value - The number.
+ * @param language - The display language.
+ * @returns The formatted number.
+ */
+export function formatCompactNumber(value: number, language: string): string {
+  return new Intl.NumberFormat(language, {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(value);
+}
+
+/**
+ * Formats a size in binary units, e.g. "48.3 MiB".
+ *
+ * @param bytes - The size in bytes.
+ * @param language - The display language, for the decimal separator.
+ * @returns The formatted size.
+ */
+export function formatBytes(bytes: number, language: string): string {
+  const fractionDigits = (unit: number) => (unit === 0 ? 0 : 1);
+  let value = Math.max(0, bytes);
+  let unit = 0;
+  // Compare the rounded value, so 1023.96 KiB is shown as "1 MiB".
+  while (
+    Number(value.toFixed(fractionDigits(unit))) >= 1024 &&
+    unit < BYTE_UNITS.length - 1
+  ) {
+    value /= 1024;
+    unit++;
+  }
+  const number = new Intl.NumberFormat(language, {
+    maximumFractionDigits: fractionDigits(unit),
+  }).format(value);
+  return `${number} ${BYTE_UNITS[unit]}`;
+}
+
+/**
+ * Formats an amount of money, e.g. "$1,234.50" or "₩1,235".
+ *
+ * @param value - The amount.
+ * @param language - The display language.
+ * @param currency - The ISO 4217 currency code.
+ * @returns The formatted amount, with the currency's usual decimals.
+ */
+export function formatCurrency(
+  value: number,
+  language: string,
+  currency: string
+): string {
+  return new Intl.NumberFormat(language, {
+    style: "currency",
+    currency,
+  }).format(value);
+}
@@ -0,0 +1,59 @@
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Dot-separated pre-release identifiers, empty for a release. */
+  prerelease: string[];
+};
+
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parses a `MAJOR.MINOR.PATCH[-PRERELEASE][+BUILD]` tag; a leading `v` is
+ * allowed.
+ *
+ * @param tag - A version tag, e.g. `1.2.0` or `v1.0.0-dev.14`.
+ * @returns The version, or undefined for tags such as `latest`.
+ */
+export function parseSemver(tag: string): SemVer | undefined {
+  const match = SEMVER_PATTERN.exec(tag);
+  if (!match) return undefined;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]?.split(".") ?? [],
+  };
+}
+
+const compareIdentifiers = (a: string, b: string) => {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) return Number(a) - Number(b);
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * Orders two versions by semver precedence: a release sorts after its
+ * pre-releases, and numeric identifiers compare as numbers (`dev.10` >
+ * `dev.9`).
+ *
+ * @returns A negative number when `a` is older, positive when newer.
+ */
+export function compareSemver(a: SemVer, b: SemVer) {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core) return core;
+  if (!a.prerelease.length || !b.prerelease.length) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    if (a.prerelease[i] === undefined) return -1;
+    if (b.prerelease[i] === undefined) return 1;
+    const order = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (order) return order;
+  }
+  return 0;
+}
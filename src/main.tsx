@@ -5,10 +5,18 @@ import { HelmetProvider } from "react-helmet-async";
 import router from "@/app/router";
 import "@/shared/styles/index.css";
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
+const container = document.getElementById("root")!;
+const app = (
   <React.StrictMode>
     <HelmetProvider>
       <RouterProvider router={router} />
     </HelmetProvider>
   </React.StrictMode>
 );
+
+// Pre-rendered pages (see scripts/prerender.ts) already contain the markup.
+if (container.hasChildNodes()) {
+  ReactDOM.hydrateRoot(container, app);
+} else {
+  ReactDOM.createRoot(container).render(app);
+}
@@ -2,7 +2,7 @@ import { twMerge } from "tailwind-merge";
 
 interface BadgeProps {
   text: string;
-  variant?: "green" | "blue" | "yellow" | "red";
+  variant?: "green" | "blue" | "yellow" | "red" | "gray";
 }
 
 const BASE_BADGE_STYLES = {
@@ -14,6 +14,7 @@ const colorMap: Record<string, string> = {
   blue: "bg-blue-600 text-white",
   yellow: "bg-amber-500 text-white",
   red: "bg-red-600 text-white",
+  gray: "bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200",
 };
 
 export default function Badge({ text, variant = "blue" }: BadgeProps) {
@@ -0,0 +1,90 @@
+import type { ElementType, ReactNode } from "react";
+import { useTranslation } from "react-i18next";
+import { twMerge } from "tailwind-merge";
+import {
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  LightBulbIcon,
+  ShieldExclamationIcon,
+} from "@heroicons/react/24/outline";
+
+export type CalloutType = "note" | "tip" | "warning" | "danger";
+
+interface CalloutProps {
+  type?: CalloutType;
+  /** Overrides the localized default title ("Note", "Tip", ...). */
+  title?: ReactNode;
+  className?: string;
+  children?: ReactNode;
+}
+
+const BASE_CALLOUT_STYLES = {
+  callout: "my-6 rounded-lg border p-4 text-[15px] leading-[1.7] shadow-sm",
+  title: "mb-1 flex items-center gap-2 font-semibold",
+  icon: "h-5 w-5 shrink-0",
+  body: "[&>*:first-child]:mt-0 [&>*:last-child]:mb-0",
+};
+
+const variantMap: Record<
+  CalloutType,
+  { className: string; icon: ElementType<{ className?: string }> }
+> = {
+  note: {
+    className:
+      "border-blue-300/50 bg-blue-50/60 text-blue-900 dark:border-blue-400/30 dark:bg-blue-400/10 dark:text-blue-100",
+    icon: InformationCircleIcon,
+  },
+  tip: {
+    className:
+      "border-emerald-300/50 bg-emerald-50/60 text-emerald-900 dark:border-emerald-400/30 dark:bg-emerald-400/10 dark:text-emerald-100",
+    icon: LightBulbIcon,
+  },
+  warning: {
+    className:
+      "border-amber-300/40 bg-amber-50/50 text-amber-800 dark:border-amber-300/20 dark:bg-amber-400/10 dark:text-amber-200",
+    icon: ExclamationTriangleIcon,
+  },
+  danger: {
+    className:
+      "border-red-300/50 bg-red-50/60 text-red-900 dark:border-red-400/30 dark:bg-red-400/10 dark:text-red-100",
+    icon: ShieldExclamationIcon,
+  },
+};
+
+const defaultTitles: Record<CalloutType, string> = {
+  note: "Note",
+  tip: "Tip",
+  warning: "Warning",
+  danger: "Danger",
+};
+
+export default function Callout({
+  type = "note",
+  title,
+  className,
+  children,
+}: CalloutProps) {
+  const { t } = useTranslation();
+  const variant = variantMap[type] ?? variantMap.note;
+  const Icon = variant.icon;
+
+  return (
+    <aside
+      role="note"
+      className={twMerge(
+        BASE_CALLOUT_STYLES.callout,
+        variant.className,
+        className
+      )}
+    >
+      <div className={BASE_CALLOUT_STYLES.title}>
+        <Icon className={BASE_CALLOUT_STYLES.icon} aria-hidden="true" />
+        <span>
+          {title ??
+            t(`callout.${type}`, { defaultValue: defaultTitles[type] })}
+        </span>
+      </div>
+      <div className={BASE_CALLOUT_STYLES.body}>{children}</div>
+    </aside>
+  );
+}
@@ -0,0 +1,96 @@
+import { useId, useRef, useState, type ReactNode } from "react";
+import { twMerge } from "tailwind-merge";
+
+export type CodeTab = {
+  label: string;
+  content: ReactNode;
+};
+
+interface CodeTabsProps {
+  tabs: CodeTab[];
+  className?: string;
+  ariaLabel?: string;
+}
+
+const BASE_TABS_STYLES = {
+  container:
+    "not-prose my-6 overflow-hidden rounded-lg border border-gray-200 shadow-sm dark:border-gray-700",
+  list: "flex gap-1 overflow-x-auto border-b border-gray-200 bg-gray-50 px-2 pt-2 select-none dark:border-gray-700 dark:bg-gray-800",
+  tab: "-mb-px whitespace-nowrap rounded-t-md border border-b-0 px-3 py-1.5 text-xs font-semibold transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 dark:focus-visible:ring-amber-400",
+  active:
+    "border-gray-200 bg-white text-gray-900 dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100",
+  inactive:
+    "border-transparent text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100",
+  panel: "[&>*]:my-0 [&>*]:rounded-none [&>*]:border-0 [&>*]:shadow-none",
+};
+
+export default function CodeTabs({
+  tabs,
+  className,
+  ariaLabel,
+}: CodeTabsProps) {
+  const baseId = useId();
+  const [active, setActive] = useState(0);
+  const tabRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const focusTab = (index: number) => {
+    const next = (index + tabs.length) % tabs.length;
+    setActive(next);
+    tabRefs.current[next]?.focus();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowRight") {
+      e.preventDefault();
+      focusTab(active + 1);
+    } else if (e.key === "ArrowLeft") {
+      e.preventDefault();
+      focusTab(active - 1);
+    }
+  };
+
+  return (
+    <div className={twMerge(BASE_TABS_STYLES.container, className)}>
+      <div
+        role="tablist"
+        aria-label={ariaLabel}
+        className={BASE_TABS_STYLES.list}
+        onKeyDown={onKeyDown}
+      >
+        {tabs.map((tab, i) => (
+          <button
+            key={`${tab.label}-${i}`}
+            ref={(el) => {
+              tabRefs.current[i] = el;
+            }}
+            type="button"
+            role="tab"
+            id={`${baseId}-tab-${i}`}
+            aria-selected={i === active}
+            aria-controls={`${baseId}-panel-${i}`}
+            tabIndex={i === active ? 0 : -1}
+            onClick={() => setActive(i)}
+            className={twMerge(
+              BASE_TABS_STYLES.tab,
+              i === active ? BASE_TABS_STYLES.active : BASE_TABS_STYLES.inactive
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+      {tabs.map((tab, i) => (
+        <div
+          key={`${tab.label}-${i}`}
+          role="tabpanel"
+          id={`${baseId}-panel-${i}`}
+          aria-labelledby={`${baseId}-tab-${i}`}
+          hidden={i !== active}
+          className={BASE_TABS_STYLES.panel}
+        >
+          {tab.content}
+        </div>
+      ))}
+    </div>
+  );
+}
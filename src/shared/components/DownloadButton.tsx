@@ -0,0 +1,27 @@
+import CommonButton from "@/shared/components/CommonButton";
+
+type DownloadButtonProps = {
+  text: string;
+  fileName: string;
+  /** Media type of the file, e.g. `text/yaml`. */
+  type?: string;
+  label?: string;
+};
+
+export default function DownloadButton({
+  text,
+  fileName,
+  type = "text/plain",
+  label = "Download",
+}: DownloadButtonProps) {
+  const onDownload = () => {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return <CommonButton onClick={onDownload}>{label}</CommonButton>;
+}
@@ -3,25 +3,45 @@ import { useLocation, useParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import {
   DEFAULT_LANGUAGE,
+  LOCALES,
   normalizeLanguageCode,
   replaceLanguageInPath,
   SUPPORTED_LANGUAGES,
 } from "@/constants/language";
-import type { LanguageCode } from "@/types/i18n";
+import {
+  buildOgImagePath,
+  OG_IMAGE_HEIGHT,
+  OG_IMAGE_WIDTH,
+  SITE_URL,
+} from "@/constants/seo";
+import type { LanguageCode, TranslationKey } from "@/types/i18n";
 
 type PageSEOProps = {
-  titleKey: string;
+  titleKey: TranslationKey;
   titleDefault: string;
-  descriptionKey: string;
+  descriptionKey: TranslationKey;
   descriptionDefault: string;
   structuredData?: Record<string, unknown>;
   titleParams?: Record<string, unknown>;
   descriptionParams?: Record<string, unknown>;
+  /**
+   * Social preview image, absolute or relative to the site root. Defaults to
+   * the image generated for the page at build time.
+   */
+  image?: string;
+  /**
+   * Keeps the page out of search results (error and not-found pages): adds
+   * `robots: noindex` and drops the canonical, alternate and image tags.
+   */
+  noindex?: boolean;
+  /**
+   * Languages the content is written in, for the alternate links. Defaults
+   * to every supported language. On a page that falls back to another
+   * language's content, the canonical link points at that language's page.
+   */
+  translations?: readonly LanguageCode[];
 };
 
-const FALLBACK_SITE_URL =
-  import.meta.env.VITE_SITE_URL?.replace(/\/$/, "") || "https://rustcost.dev";
-
 export default function PageSEO({
   titleKey,
   titleDefault,
@@ -30,6 +50,9 @@ export default function PageSEO({
   titleParams,
   descriptionParams,
   structuredData,
+  image,
+  noindex = false,
+  translations = SUPPORTED_LANGUAGES,
 }: PageSEOProps) {
   type LanguageParams = { ["lng"]?: LanguageCode };
   const params = useParams<LanguageParams>();
@@ -49,14 +72,29 @@ export default function PageSEO({
       ...(descriptionParams ?? {}),
     }) || t("seo.defaultDescription");
 
-  const canonicalPath = `${pathname}${search ?? ""}`;
-  const canonicalUrl = `${FALLBACK_SITE_URL}${canonicalPath}`;
+  const defaultLanguage = translations.includes(DEFAULT_LANGUAGE)
+    ? DEFAULT_LANGUAGE
+    : (translations[0] ?? language);
+  // Untranslated pages repeat the fallback language's content; point search
+  // engines at the original.
+  const canonicalLanguage = translations.includes(language)
+    ? language
+    : defaultLanguage;
+  const canonicalPath = `${replaceLanguageInPath(pathname, canonicalLanguage)}${
+    search ?? ""
+  }`;
+  const canonicalUrl = `${SITE_URL}${canonicalPath}`;
 
-  const alternateLinks = SUPPORTED_LANGUAGES.map((lng) => {
+  const imagePath = image ?? buildOgImagePath(pathname);
+  const imageUrl = /^https?:\/\//.test(imagePath)
+    ? imagePath
+    : `${SITE_URL}${imagePath}`;
+
+  const alternateLinks = translations.map((lng) => {
     const localizedPath = replaceLanguageInPath(pathname, lng);
     return {
       lng,
-      href: `${FALLBACK_SITE_URL}${localizedPath}${search ?? ""}`,
+      href: `${SITE_URL}${localizedPath}${search ?? ""}`,
     };
   });
 
@@ -65,31 +103,59 @@ export default function PageSEO({
       <html lang={language} />
       <title>{pageTitle}</title>
       <meta name="description" content={pageDescription} />
-      <link rel="canonical" href={canonicalUrl} />
-      {alternateLinks.map((link) => (
+      {noindex ? <meta name="robots" content="noindex" /> : null}
+      {noindex ? null : <link rel="canonical" href={canonicalUrl} />}
+      {noindex
+        ? null
+        : alternateLinks.map((link) => (
+            <link
+              key={link.lng}
+              rel="alternate"
+              hrefLang={link.lng}
+              href={link.href}
+            />
+          ))}
+      {noindex ? null : (
         <link
-          key={link.lng}
           rel="alternate"
-          hrefLang={link.lng}
-          href={link.href}
+          hrefLang="x-default"
+          href={`${SITE_URL}${replaceLanguageInPath(
+            pathname,
+            defaultLanguage
+          )}${search ?? ""}`}
         />
-      ))}
-      <link
-        rel="alternate"
-        hrefLang="x-default"
-        href={`${FALLBACK_SITE_URL}${replaceLanguageInPath(
-          pathname,
-          DEFAULT_LANGUAGE
-        )}${search ?? ""}`}
+      )}
+      <meta
+        property="og:site_name"
+        content={t("seo.siteName", { defaultValue: "RustCost" })}
       />
-      <meta property="og:site_name" content={t("seo.siteName", { defaultValue: "RustCost" })} />
       <meta property="og:title" content={pageTitle} />
       <meta property="og:description" content={pageDescription} />
       <meta property="og:url" content={canonicalUrl} />
       <meta property="og:type" content="website" />
-      <meta name="twitter:card" content="summary_large_image" />
+      <meta property="og:locale" content={LOCALES[language].ogLocale} />
+      {SUPPORTED_LANGUAGES.filter((lng) => lng !== language).map((lng) => (
+        <meta
+          key={lng}
+          property="og:locale:alternate"
+          content={LOCALES[lng].ogLocale}
+        />
+      ))}
+      {noindex ? null : <meta property="og:image" content={imageUrl} />}
+      {noindex ? null : <meta property="og:image:alt" content={pageTitle} />}
+      {noindex || image ? null : (
+        <meta property="og:image:width" content={String(OG_IMAGE_WIDTH)} />
+      )}
+      {noindex || image ? null : (
+        <meta property="og:image:height" content={String(OG_IMAGE_HEIGHT)} />
+      )}
+      <meta
+        name="twitter:card"
+        content={noindex ? "summary" : "summary_large_image"}
+      />
       <meta name="twitter:title" content={pageTitle} />
       <meta name="twitter:description" content={pageDescription} />
+      {noindex ? null : <meta name="twitter:image" content={imageUrl} />}
       {structuredData ? (
         <script type="application/ld+json">
           {JSON.stringify(structuredData)}
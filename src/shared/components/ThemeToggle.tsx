@@ -7,16 +7,24 @@ import {
   THEME_STORAGE_KEY,
 } from "@/constants/theme";
 
+const readDarkModePreference = () => {
+  const savedTheme = localStorage.getItem(THEME_STORAGE_KEY);
+  if (savedTheme) {
+    return savedTheme === COLOR_SCHEME_DARK;
+  }
+  return window.matchMedia(DARK_SCHEME_MEDIA_QUERY).matches;
+};
+
 export default function ThemeToggle() {
-  const [isDarkMode, setDarkMode] = useState<boolean>(() => {
-    const savedTheme = localStorage.getItem(THEME_STORAGE_KEY);
-    if (savedTheme) {
-      return savedTheme === COLOR_SCHEME_DARK;
-    }
-    return window.matchMedia(DARK_SCHEME_MEDIA_QUERY).matches;
-  });
+  // Unknown until mounted, so pre-rendered markup hydrates without a mismatch.
+  const [isDarkMode, setDarkMode] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    setDarkMode(readDarkModePreference());
+  }, []);
 
   useEffect(() => {
+    if (isDarkMode === null) return;
     if (isDarkMode) {
       document.documentElement.classList.add("dark");
       localStorage.setItem(THEME_STORAGE_KEY, COLOR_SCHEME_DARK);
@@ -0,0 +1,35 @@
+import { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  formatBytes,
+  formatCompactNumber,
+  formatCurrency,
+  formatDate,
+  formatRelativeTime,
+} from "@/lib/format";
+
+/**
+ * The `@/lib/format` helpers bound to the active i18next language, so
+ * components re-render with the new format when the language changes.
+ */
+export const useFormatters = () => {
+  const { i18n } = useTranslation();
+  const language = i18n.language;
+
+  return useMemo(
+    () => ({
+      formatDate: (
+        value: Date | string,
+        options?: Intl.DateTimeFormatOptions
+      ) => formatDate(value, language, options),
+      formatRelativeTime: (value: Date | string) =>
+        formatRelativeTime(value, language),
+      formatCompactNumber: (value: number) =>
+        formatCompactNumber(value, language),
+      formatBytes: (bytes: number) => formatBytes(bytes, language),
+      formatCurrency: (value: number, currency: string) =>
+        formatCurrency(value, language, currency),
+    }),
+    [language]
+  );
+};
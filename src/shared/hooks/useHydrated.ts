@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Reports whether the first client render has committed. Pre-rendered pages
+ * are built without a query string or browser storage, so UI that depends
+ * on them renders its defaults until this turns true, keeping hydration
+ * consistent with the server markup.
+ */
+export const useHydrated = (): boolean => {
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => {
+    setHydrated(true);
+  }, []);
+
+  return hydrated;
+};
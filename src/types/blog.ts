@@ -0,0 +1,101 @@
+/** Fields supported in the YAML frontmatter block of a blog post. */
+export interface BlogFrontmatter {
+  title?: string;
+  /** Publication date (YYYY-MM-DD). */
+  date?: string;
+  /** Id of an entry in `BLOG_AUTHORS`. */
+  author?: string;
+  tags?: string[];
+  /** One or two sentences shown in the post list and used as description. */
+  summary?: string;
+  /** Cover image path relative to the site root. */
+  cover?: string;
+  /** Drafts are left out of production builds. */
+  draft?: boolean;
+  /** Id of an entry in `BLOG_SERIES` for multi-part posts. */
+  series?: string;
+  /** 1-based position of the post in its series. */
+  seriesPart?: number;
+}
+
+/**
+ * One blog post as listed in the build-time blog manifest.
+ * Manifest entries are sorted newest first.
+ */
+export interface BlogPostMeta {
+  /** Route slug, taken from the file name. */
+  slug: string;
+  title: string;
+  /** Publication date (YYYY-MM-DD). */
+  date: string;
+  /** Id of an entry in `BLOG_AUTHORS`. */
+  author?: string;
+  tags: string[];
+  summary?: string;
+  cover?: string;
+  draft: boolean;
+  /** Estimated reading time in whole minutes. */
+  readingMinutes: number;
+  series?: BlogPostSeries;
+}
+
+export interface BlogPostSeries {
+  /** Id of an entry in `BLOG_SERIES`. */
+  id: string;
+  /** 1-based position of the post in the series. */
+  part: number;
+}
+
+/** A named series of multi-part posts. */
+export interface BlogSeries {
+  id: string;
+  /** English title; translations live under `blog.series.<id>.title`. */
+  title: string;
+}
+
+export interface BlogAuthorLink {
+  label: string;
+  href: string;
+}
+
+/** A blog author profile, referenced by id from post frontmatter. */
+export interface BlogAuthor {
+  /** Id used in frontmatter and in `/:lng/blog/author/:author`. */
+  id: string;
+  name: string;
+  /** Avatar path relative to the site root. */
+  avatar: string;
+  /** English bio; translations live under `blog.authors.<id>.bio`. */
+  bio: string;
+  links: BlogAuthorLink[];
+}
+
+/** One post in a generated blog feed, with absolute URLs. */
+export interface BlogFeedItem {
+  url: string;
+  title: string;
+  /** Publication date (YYYY-MM-DD). */
+  date: string;
+  /** Display name of the author. */
+  author?: string;
+  tags: string[];
+  summary?: string;
+  /** The full post rendered to HTML. */
+  contentHtml: string;
+  /** Language the post is written in. */
+  language: string;
+}
+
+/** A blog feed of one language, serialized as RSS, Atom and JSON Feed. */
+export interface BlogFeed {
+  title: string;
+  description: string;
+  language: string;
+  /** Canonical URL of the blog index. */
+  homeUrl: string;
+  /** Absolute URL of each feed file, by format. */
+  feedUrls: Record<BlogFeedFormat, string>;
+  items: BlogFeedItem[];
+}
+
+export type BlogFeedFormat = "rss" | "atom" | "json";
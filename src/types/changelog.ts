@@ -0,0 +1,27 @@
+export type ChangeType = "feature" | "fix" | "breaking" | "other";
+
+export interface ReleaseChange {
+  type: ChangeType;
+  /** One line of inline markdown. */
+  text: string;
+}
+
+export interface ReleaseNote {
+  /** Id of an entry in `DOWNLOAD_PRODUCTS`. */
+  product: string;
+  /** Version without the leading `v`. */
+  version: string;
+  /** Publication date (YYYY-MM-DD). */
+  date: string;
+  /** The GitHub release page. */
+  url: string;
+  prerelease: boolean;
+  changes: ReleaseChange[];
+}
+
+export interface ChangelogSnapshot {
+  /** When the snapshot was taken (ISO 8601); null before the first sync. */
+  generatedAt: string | null;
+  /** Newest first within each product. */
+  releases: ReleaseNote[];
+}
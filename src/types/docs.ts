@@ -0,0 +1,33 @@
+/** Fields supported in the YAML frontmatter block of a docs markdown file. */
+export interface DocFrontmatter {
+  title?: string;
+  description?: string;
+  /** Shorter label for the topic list; defaults to the title. */
+  sidebarLabel?: string;
+  /** Overrides the order taken from the `NNN_` file name prefix. */
+  order?: number;
+  /** Drafts are left out of production builds. */
+  draft?: boolean;
+  tags?: string[];
+  /** ISO date (YYYY-MM-DD) of the last content review. */
+  lastReviewed?: string;
+}
+
+/**
+ * One docs page as listed in the build-time docs manifest.
+ * Manifest entries are already sorted in topic-list order.
+ */
+export interface DocMeta {
+  /** Route slug, e.g. `install`. */
+  slug: string;
+  /** File name without extension, e.g. `030_install`. */
+  fileSlug: string;
+  title: string;
+  sidebarLabel: string;
+  description?: string;
+  draft: boolean;
+  tags: string[];
+  lastReviewed?: string;
+  /** Last commit date (YYYY-MM-DD) of the file, from git at build time. */
+  lastUpdated?: string;
+}
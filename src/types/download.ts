@@ -1,7 +1,14 @@
 export interface VersionInfo {
+  /** The image tag, e.g. `1.2.0`. */
   version: string;
+  /** Push time (ISO 8601). */
   date: string;
+  /** Compressed image size in bytes, as reported by Docker Hub. */
+  size?: number;
+  /** Release notes URL. */
   notes?: string;
+  /** Platforms of the multi-arch manifest, e.g. `amd64`, `arm64`. */
+  architectures: string[];
 }
 
 export interface DownloadProduct {
@@ -10,4 +17,3 @@ export interface DownloadProduct {
   image: string;
   repo: string;
 }
-
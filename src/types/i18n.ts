@@ -1,4 +1,26 @@
-export type LanguageCode = "en" | "ko";
+import type { ParseKeys } from "i18next";
+import type { LOCALES } from "@/constants/language";
+
+export type LanguageCode = keyof typeof LOCALES;
+
+/**
+ * A key of the translation bundle, checked against the types generated by
+ * `npm run i18n:keys -- --write`.
+ */
+export type TranslationKey = ParseKeys;
+
+export type LocaleDefinition = {
+  /** Name of the language in itself, shown by the language picker. */
+  label: string;
+  /** Open Graph locale, e.g. `en_US`. */
+  ogLocale: string;
+  /**
+   * Whether the Open Graph image font (Pretendard: Latin, Hangul and kana)
+   * covers the language's titles. When it does not, the language's pages
+   * share the default language's image instead of rendering missing glyphs.
+   */
+  ogImage: boolean;
+};
 
 export type LanguageOption = {
   code: LanguageCode;
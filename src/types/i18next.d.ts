@@ -0,0 +1,426 @@
+// Generated by `npm run i18n:keys -- --write` from
+// src/i18n/locales/en/translation.json. Do not edit by hand.
+import "i18next";
+
+export type TranslationResources = {
+  navbar: {
+    home: string;
+    docs: string;
+    download: string;
+    community: string;
+    support: string;
+    blog: string;
+    changelog: string;
+  };
+  landing: {
+    hero: {
+      title: string;
+      subtitle: string;
+      primaryActionsLabel: string;
+    };
+    cta: {
+      getStarted: string;
+      viewOnGitHub: string;
+      headline: string;
+      sub: string;
+      star: string;
+      primaryActionsLabel: string;
+      docsHint: string;
+      githubHint: string;
+    };
+    features: {
+      title: string;
+      analytics: {
+        title: string;
+        desc: string;
+      };
+      lightweight: {
+        title: string;
+        desc: string;
+      };
+      collector: {
+        title: string;
+        desc: string;
+      };
+      neutrality: {
+        title: string;
+        desc: string;
+      };
+    };
+    costing: {
+      title: string;
+      showback: {
+        title: string;
+        desc: string;
+        items: string[];
+      };
+      chargeback: {
+        title: string;
+        desc: string;
+        items: string[];
+      };
+    };
+    philosophy: {
+      title: string;
+      desc: string;
+      items: string[];
+    };
+    architecture: {
+      title: string;
+      desc: string;
+      items: string[];
+    };
+    whyRustCost: {
+      title: string;
+      desc: string;
+      items: string[];
+    };
+    roadmap: {
+      title: string;
+    };
+    estimator: {
+      title: string;
+      description: string;
+      currency: string;
+      nodePools: string;
+      nodePoolName: string;
+      count: string;
+      hourlyPrice: string;
+      addNodePool: string;
+      namespaces: string;
+      namespace: string;
+      share: string;
+      addNamespace: string;
+      remove: string;
+      requested: string;
+      idleMode: string;
+      idlePlatform: string;
+      idleProportional: string;
+      monthlyCost: string;
+      allocated: string;
+      idle: string;
+      total: string;
+      cluster: string;
+      unassignedIdle: string;
+      chartLabel: string;
+      assumption: string;
+      exportCsv: string;
+      overallocated: string;
+      invalid: string;
+    };
+    main: {
+      landmarkLabel: string;
+    };
+  };
+  docs: {
+    title: string;
+    draft: string;
+    lastReviewed: string;
+    tags: {
+      title: string;
+      tagTitle: string;
+      empty: string;
+    };
+    untranslated: {
+      notice: string;
+      viewOriginal: string;
+      label: string;
+    };
+    versions: {
+      select: string;
+      outdated: string;
+      goLatest: string;
+      latest: string;
+    };
+    breadcrumbs: string;
+    editPage: string;
+    lastUpdated: string;
+    pager: {
+      label: string;
+      previous: string;
+      next: string;
+    };
+  };
+  community: {
+    title: string;
+    subtitle: string;
+    contribute: {
+      title: string;
+      body: string;
+      cta: string;
+    };
+    cloudbro: {
+      title: string;
+      desc: string;
+    };
+    posts: {
+      ko1: string;
+      ko2: string;
+    };
+    feed: {
+      placeholder: string;
+    };
+  };
+  support: {
+    title: string;
+    subtitle: string;
+    supporters: {
+      title: string;
+      addApply: string;
+      note: string;
+    };
+  };
+  blog: {
+    title: string;
+    subtitle: string;
+    empty: string;
+    byAuthor: string;
+    untranslated: string;
+    pagination: {
+      label: string;
+      newer: string;
+      older: string;
+      page: string;
+    };
+    notFound: {
+      pageTitle: string;
+      pageMessage: string;
+      back: string;
+      collection: string;
+    };
+    subscribe: string;
+    related: string;
+    tagTitle: string;
+    archiveTitle: string;
+    postCount_one: string;
+    postCount_other: string;
+    taxonomy: {
+      label: string;
+      tags: string;
+      archive: string;
+    };
+    authors: {
+      "rustcost-team": {
+        name: string;
+        bio: string;
+      };
+    };
+    readingTime_one: string;
+    readingTime_other: string;
+    seriesNav: {
+      label: string;
+      part: string;
+      previous: string;
+      next: string;
+    };
+    series: {
+      "finops-on-kubernetes": {
+        title: string;
+      };
+    };
+  };
+  seo: {
+    siteName: string;
+    defaultTitle: string;
+    defaultDescription: string;
+    landing: {
+      title: string;
+      description: string;
+    };
+    docs: {
+      title: string;
+      description: string;
+      topicTitle: string;
+      topicDescription: string;
+      tagsTitle: string;
+      tagTitle: string;
+      tagsDescription: string;
+    };
+    download: {
+      title: string;
+      description: string;
+    };
+    community: {
+      title: string;
+      description: string;
+    };
+    support: {
+      title: string;
+      description: string;
+    };
+    blog: {
+      title: string;
+      description: string;
+      postTitle: string;
+      postDescription: string;
+      pageTitle: string;
+      postSummary: string;
+      notFoundTitle: string;
+      tagTitle: string;
+      tagDescription: string;
+      authorTitle: string;
+      authorDescription: string;
+      archiveTitle: string;
+      archiveDescription: string;
+    };
+    changelog: {
+      title: string;
+      description: string;
+    };
+    notFound: {
+      title: string;
+      description: string;
+    };
+    error: {
+      title: string;
+      description: string;
+    };
+  };
+  search: {
+    title: string;
+    placeholder: string;
+    loading: string;
+    failed: string;
+    hint: string;
+    empty: string;
+    keys: string;
+  };
+  callout: {
+    note: string;
+    tip: string;
+    warning: string;
+    danger: string;
+  };
+  toc: {
+    title: string;
+  };
+  download: {
+    releases: {
+      architectures: string;
+      error: string;
+      retry: string;
+      empty: string;
+      size: string;
+    };
+    builder: {
+      title: string;
+      share: string;
+      version: string;
+      unknownVersion: string;
+      namespace: string;
+      namespaceHint: string;
+      release: string;
+      releaseHint: string;
+      storageClass: string;
+      storageClassHint: string;
+      retention: string;
+      retentionHint: string;
+      ingressHost: string;
+      ingressHostHint: string;
+      cpuLimit: string;
+      cpuLimitHint: string;
+      memoryLimit: string;
+      memoryLimitHint: string;
+      invalid: string;
+      command: string;
+      fixErrors: string;
+      latestVersion: string;
+    };
+    verify: string;
+    manifests: {
+      storageClassHint: string;
+      compose: string;
+      pvc: string;
+      pvcNote: string;
+      rbac: string;
+      rbacNote: string;
+      fixErrors: string;
+    };
+    checker: {
+      title: string;
+      description: string;
+      inputs: {
+        version: string;
+        storageClasses: string;
+        nodes: string;
+      };
+      resultsLabel: string;
+      status: {
+        pass: string;
+        warn: string;
+        fail: string;
+      };
+      default: string;
+      architectures: string;
+      loadingArchitectures: string;
+      architecturesUnavailable: string;
+      results: {
+        invalidInput: string;
+        versionSupported: string;
+        versionTooOld: string;
+        versionMissing: string;
+        ssdDefault: string;
+        ssdAvailable: string;
+        storageUnknown: string;
+        storageUnsupported: string;
+        noStorageClasses: string;
+        nodesReady_one: string;
+        nodesReady_other: string;
+        nodesNotReady: string;
+        noReadyNodes_one: string;
+        noReadyNodes_other: string;
+        architecturesSupported: string;
+        architecturesPartial: string;
+        architecturesUnsupported: string;
+      };
+    };
+  };
+  changelog: {
+    title: string;
+    subtitle: string;
+    filters: string;
+    product: string;
+    allProducts: string;
+    changeType: string;
+    types: {
+      breaking: string;
+      feature: string;
+      fix: string;
+      other: string;
+    };
+    since: string;
+    sinceAny: string;
+    sinceHint: string;
+    sinceTitle: string;
+    releaseCount_one: string;
+    releaseCount_other: string;
+    prerelease: string;
+    onGitHub: string;
+    permalink: string;
+    noNotes: string;
+    noMatches: string;
+    empty: string;
+  };
+  errors: {
+    home: string;
+    notFound: {
+      title: string;
+      message: string;
+      suggestions: string;
+      docs: string;
+    };
+    boundary: {
+      eyebrow: string;
+      title: string;
+      message: string;
+      reload: string;
+    };
+  };
+};
+
+declare module "i18next" {
+  interface CustomTypeOptions {
+    defaultNS: "translation";
+    resources: { translation: TranslationResources };
+  }
+}
@@ -0,0 +1,31 @@
+/** A highlighted run of text inside one line of a code block. */
+export interface CodeToken {
+  content: string;
+  color?: string;
+  /** Shiki font style bit flags: 1 italic, 2 bold, 4 underline. */
+  fontStyle?: number;
+}
+
+/** Options read from the info string of a fenced code block. */
+export interface CodeMeta {
+  /** `title="values.yaml"` */
+  title?: string;
+  /** `[Helm]`: the tab label inside a `:::code-group`. */
+  tab?: string;
+  /** `{1,3-5}`: 1-based line numbers to emphasize. */
+  highlightLines: number[];
+  /** `showLineNumbers` */
+  showLineNumbers: boolean;
+  /** `diff`: lines starting with `+` / `-` are shown as added / removed. */
+  diff: boolean;
+}
+
+/**
+ * A markdown file compiled by the `?markdown` import query: the body without
+ * frontmatter, plus the build-time syntax highlighting of each fenced code
+ * block in document order (null when the language is not highlighted).
+ */
+export interface MarkdownModule {
+  body: string;
+  codeBlocks: (CodeToken[][] | null)[];
+}
@@ -1,8 +1,12 @@
+import type { TranslationKey } from "@/types/i18n";
+
 export interface NavLinkConfig {
   key: string;
-  i18nKey: string;
+  i18nKey: TranslationKey;
   segment: string;
   exact?: boolean;
+  /** Left out of the navbar and the sitemap, e.g. while it has no content. */
+  hidden?: boolean;
 }
 
 export interface DocSidebarLink {
@@ -10,4 +14,3 @@ export interface DocSidebarLink {
   segment: string;
   label: string;
 }
-
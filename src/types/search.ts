@@ -0,0 +1,31 @@
+export interface SearchSection {
+  /** Route slug of the doc, e.g. `install` (`index` for the docs home). */
+  topic: string;
+  pageTitle: string;
+  /** Language folder of the doc, set when it is not translated yet. */
+  language?: string;
+  /** Heading id produced by `slugify`; empty for text before the first heading. */
+  anchor: string;
+  heading: string;
+  text: string;
+}
+
+/** `[sectionIndex, hitsInHeading, hitsInBody]` */
+export type SearchPosting = [number, number, number];
+
+export interface SearchIndex {
+  sections: SearchSection[];
+  postings: Record<string, SearchPosting[]>;
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  section: SearchSection;
+  score: number;
+  heading: HighlightPart[];
+  snippet: HighlightPart[];
+}
@@ -0,0 +1,30 @@
+declare module "virtual:docs-search-index" {
+  import type { SearchIndex } from "@/types/search";
+
+  export const searchIndexLoaders: Record<
+    string,
+    () => Promise<{ default: SearchIndex }>
+  >;
+}
+
+declare module "virtual:docs-manifest" {
+  import type { DocMeta } from "@/types/docs";
+
+  /** Docs metadata per version and language, in topic-list order. */
+  export const docsManifest: Record<string, Record<string, DocMeta[]>>;
+}
+
+declare module "virtual:blog-manifest" {
+  import type { BlogPostMeta } from "@/types/blog";
+
+  /** Blog post metadata per language, newest first. */
+  export const blogManifest: Record<string, BlogPostMeta[]>;
+}
+
+declare module "*.md?markdown" {
+  import type { MarkdownModule } from "@/types/markdown";
+
+  /** Compiled by the `rustcost:markdown` Vite plugin. */
+  const markdown: MarkdownModule;
+  export default markdown;
+}
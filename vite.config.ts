@@ -2,22 +2,44 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import tailwindcss from "@tailwindcss/vite";
+import blogManifest from "./scripts/vite/blogManifest";
+import docsManifest from "./scripts/vite/docsManifest";
+import docsSearchIndex from "./scripts/vite/docsSearchIndex";
+import markdownModules from "./scripts/vite/markdownModules";
+
+// Docker Hub's API sends no CORS headers. vercel.json rewrites the same path
+// in production.
+const dockerHubProxy = {
+  "/docker-hub": {
+    target: "https://hub.docker.com",
+    changeOrigin: true,
+    secure: true,
+    rewrite: (path: string) => path.replace(/^\/docker-hub/, ""),
+  },
+};
 
 export default defineConfig({
-  plugins: [tailwindcss(), react()],
+  plugins: [
+    tailwindcss(),
+    react(),
+    markdownModules(),
+    docsManifest(),
+    docsSearchIndex(),
+    blogManifest(),
+  ],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  ssr: {
+    // CommonJS without named ESM exports; bundle it into the prerender build.
+    noExternal: ["react-helmet-async"],
+  },
   server: {
-    proxy: {
-      "/docker-hub": {
-        target: "https://hub.docker.com",
-        changeOrigin: true,
-        secure: true,
-        rewrite: (path) => path.replace(/^\/docker-hub/, ""),
-      },
-    },
+    proxy: dockerHubProxy,
+  },
+  preview: {
+    proxy: dockerHubProxy,
   },
 });